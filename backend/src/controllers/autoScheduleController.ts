@@ -1,21 +1,167 @@
 import { Request, Response } from 'express';
-import { AutoScheduler } from '../services/autoScheduler';
+import { PoolClient } from 'pg';
+import {
+  AssignmentExplanation,
+  AutoScheduler,
+  GenerationScope,
+  isInGenerationScope,
+  MAX_SEARCH_ITERATIONS,
+  MAX_SEARCH_TIMEOUT_MS,
+  ScheduleEntry
+} from '../services/autoScheduler';
 import pool from '../config/database';
 import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  cancelGenerationJob,
+  findActiveGenerationJob,
+  getGenerationJob,
+  startGenerationJob
+} from '../services/generationJobs';
+import { calculateMonthNorm, getProductionCalendarMonth, isNonWorkingDay } from '../services/productionCalendar';
+import { contractFromRow, getTargetMonthlyHours } from '../services/employmentContract';
+import { FAIRNESS_WINDOW_MONTHS, getBurdenScore, getFairnessLedger } from '../services/fairnessLedger';
+import {
+  getObjectiveWeights,
+  OBJECTIVE_KEYS,
+  OBJECTIVE_WEIGHTS_KEY,
+  validateObjectiveWeights
+} from '../services/objectiveWeights';
+import { ProductionCalendarDay } from '../models/types';
+
+interface ScheduleDiff {
+  added: ScheduleEntry[];
+  removed: ScheduleEntry[];
+  changed: Array<{ employeeId: string; day: number; fromShiftId: string; toShiftId: string }>;
+  unchangedCount: number;
+}
 
 /**
- * Controller for auto-scheduling functionality
- * Implements the AutoSched system for intelligent schedule generation
+ * Compare the month's current entries with a draft, keyed by employee and day
  */
-export class AutoScheduleController {
-  private autoScheduler: AutoScheduler;
+const diffScheduleEntries = (current: ScheduleEntry[], draft: ScheduleEntry[]): ScheduleDiff => {
+  const key = (entry: ScheduleEntry) => `${entry.employeeId}:${entry.day}`;
+  const currentByKey = new Map(current.map(entry => [key(entry), entry]));
+  const draftKeys = new Set(draft.map(key));
+
+  const diff: ScheduleDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+
+  for (const entry of draft) {
+    const existing = currentByKey.get(key(entry));
+    if (!existing) {
+      diff.added.push(entry);
+    } else if (existing.shiftId !== entry.shiftId) {
+      diff.changed.push({
+        employeeId: entry.employeeId,
+        day: entry.day,
+        fromShiftId: existing.shiftId,
+        toShiftId: entry.shiftId
+      });
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+
+  diff.removed = current.filter(entry => !draftKeys.has(key(entry)));
+
+  return diff;
+};
+
+const loadMonthEntries = async (client: PoolClient | typeof pool, month: number, year: number): Promise<ScheduleEntry[]> => {
+  const result = await client.query(`
+    SELECT employee_id, day, shift_id, is_locked
+    FROM schedule
+    WHERE month = $1 AND year = $2
+    ORDER BY employee_id, day
+  `, [month, year]);
+
+  return result.rows.map(row => ({
+    employeeId: row.employee_id,
+    day: row.day,
+    shiftId: row.shift_id,
+    locked: row.is_locked || false
+  }));
+};
+
+/**
+ * Draft laid over the month as it is now: cells pinned since the generation and cells
+ * outside the generation's scope keep their current entries, the rest comes from the draft
+ */
+const mergeDraftEntries = (
+  current: ScheduleEntry[],
+  draftEntries: ScheduleEntry[],
+  scope: GenerationScope
+): ScheduleEntry[] => {
+  const key = (entry: ScheduleEntry) => `${entry.employeeId}:${entry.day}`;
+  const kept = current.filter(entry =>
+    entry.locked || !isInGenerationScope(scope, entry.employeeId, entry.day)
+  );
+  const keptKeys = new Set(kept.map(key));
+
+  // A cell pinned at generation time but unpinned since takes the draft entry unpinned
+  const generated = draftEntries
+    .filter(entry => isInGenerationScope(scope, entry.employeeId, entry.day) && !keptKeys.has(key(entry)))
+    .map(entry => ({ ...entry, locked: false }));
+
+  return [...kept, ...generated];
+};
+
+/**
+ * Replace all entries of the month; must run inside a transaction
+ */
+const replaceMonthEntries = async (client: PoolClient, month: number, year: number, entries: ScheduleEntry[]) => {
+  await client.query('DELETE FROM schedule WHERE month = $1 AND year = $2', [month, year]);
+
+  if (entries.length === 0) return;
+
+  await client.query(`
+    INSERT INTO schedule (employee_id, day, month, year, shift_id, is_locked)
+    SELECT employee_id, day, $5, $6, shift_id, is_locked
+    FROM unnest($1::varchar[], $2::int[], $3::varchar[], $4::boolean[]) AS t(employee_id, day, shift_id, is_locked)
+  `, [
+    entries.map(e => e.employeeId),
+    entries.map(e => e.day),
+    entries.map(e => e.shiftId),
+    entries.map(e => e.locked || false),
+    month,
+    year
+  ]);
+};
+
+/**
+ * Check the optional partial regeneration scope against the month
+ * Returns an error description, or null if the scope is valid
+ */
+const validateGenerationScope = (scope: GenerationScope, month: number, year: number): string | null => {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const { startDay, endDay, employeeIds } = scope;
 
-  constructor() {
-    this.autoScheduler = new AutoScheduler();
+  for (const [name, value] of [['startDay', startDay], ['endDay', endDay]] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > daysInMonth)) {
+      return `${name} must be a day between 1 and ${daysInMonth}`;
+    }
+  }
+
+  if (startDay !== undefined && endDay !== undefined && startDay > endDay) {
+    return 'startDay must not be after endDay';
+  }
+
+  if (employeeIds !== undefined &&
+    (!Array.isArray(employeeIds) || employeeIds.length === 0 || employeeIds.some(id => typeof id !== 'string'))) {
+    return 'employeeIds must be a non-empty array of employee ids';
   }
 
+  return null;
+};
+
+/**
+ * Controller for auto-scheduling functionality
+ * Implements the AutoSched system for intelligent schedule generation
+ * Every request gets its own AutoScheduler: a run keeps the month's data on the instance
+ * and yields to the event loop, so a shared one would be overwritten by concurrent requests
+ */
+export class AutoScheduleController {
   /**
-   * Generate schedule for a specific month/year
+   * Start background schedule generation for a specific month/year
    * POST /api/auto-schedule/generate
    */
   generateSchedule = async (req: Request, res: Response) => {
@@ -47,113 +193,505 @@ export class AutoScheduleController {
         });
       }
 
+      // Validate partial regeneration scope
+      if (options.scope !== undefined) {
+        const scopeError = typeof options.scope === 'object' && options.scope !== null
+          ? validateGenerationScope(options.scope, month, year)
+          : 'scope must be an object';
+        if (scopeError) {
+          return res.status(400).json({
+            error: 'Invalid generation scope',
+            details: scopeError
+          });
+        }
+      }
+
+      // Validate per-generation objective weights
+      if (options.objectiveWeights !== undefined) {
+        const weightErrors = validateObjectiveWeights(options.objectiveWeights, true);
+        if (weightErrors.length > 0) {
+          return res.status(400).json({
+            error: 'Invalid objective weights',
+            details: weightErrors.join('; ')
+          });
+        }
+      }
+
+      // Validate the search budget
+      if (options.maxIterations !== undefined &&
+        (!Number.isInteger(options.maxIterations) || options.maxIterations < 1 || options.maxIterations > MAX_SEARCH_ITERATIONS)) {
+        return res.status(400).json({
+          error: 'Invalid maxIterations',
+          details: `maxIterations must be an integer from 1 to ${MAX_SEARCH_ITERATIONS}`
+        });
+      }
+      if (options.timeoutMs !== undefined &&
+        (!Number.isInteger(options.timeoutMs) || options.timeoutMs < 1000 || options.timeoutMs > MAX_SEARCH_TIMEOUT_MS)) {
+        return res.status(400).json({
+          error: 'Invalid timeoutMs',
+          details: `timeoutMs must be an integer from 1000 to ${MAX_SEARCH_TIMEOUT_MS}`
+        });
+      }
+
+      // Only one run per month at a time
+      const activeJob = findActiveGenerationJob(month, year);
+      if (activeJob) {
+        return res.status(409).json({
+          error: 'Generation already in progress',
+          details: `Generation ${activeJob.id} for this month has not finished yet`,
+          generationId: activeJob.id
+        });
+      }
+
       // Get current user from authentication middleware
       const generatedBy = (req as AuthenticatedRequest).user?.id || null;
 
-      // Create generation record
-      const generationResult = await pool.query(`
-        INSERT INTO schedule_generations (month, year, status, generated_by, algorithm_config)
-        VALUES ($1, $2, 'pending', $3, $4)
-        ON CONFLICT (month, year)
-        DO UPDATE SET status = 'pending', updated_at = CURRENT_TIMESTAMP
-        RETURNING id
-      `, [month, year, generatedBy, JSON.stringify(options)]);
-
-      const generationId = generationResult.rows[0].id;
-
-      // Update status to in_progress
-      await pool.query(
-        'UPDATE schedule_generations SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-        ['in_progress', generationId]
-      );
-
-      // Generate schedule using AutoScheduler
-      const startTime = Date.now();
-      const result = await this.autoScheduler.generateSchedule({
+      const job = await startGenerationJob({
         month,
         year,
-        options: {
-          ...options,
-          generationId
+        options,
+        generatedBy,
+        onCompleted: async (job, result) => {
+          // Save optimization metrics if available
+          if (result.optimizations && result.optimizations.length > 0) {
+            for (const optimization of result.optimizations) {
+              await pool.query(`
+                INSERT INTO schedule_optimizations (
+                  generation_id, optimization_type, before_metrics, after_metrics, improvement_score
+                ) VALUES ($1, $2, $3, $4, $5)
+              `, [
+                job.id,
+                optimization.type,
+                JSON.stringify(optimization.before),
+                JSON.stringify(optimization.after),
+                optimization.score || 0
+              ]);
+            }
+          }
+
+          // Keep the result as a draft; the schedule itself changes only on apply
+          await pool.query(`
+            INSERT INTO schedule_drafts (generation_id, month, year, entries, explanations)
+            VALUES ($1, $2, $3, $4, $5)
+          `, [job.id, month, year, JSON.stringify(result.schedule), JSON.stringify(result.explanations || [])]);
         }
       });
-      const generationTime = Date.now() - startTime;
 
-      // Save generation results
-      await pool.query(`
-        UPDATE schedule_generations
-        SET
-          status = $1,
-          total_violations = $2,
-          violation_details = $3,
-          generation_time_ms = $4,
-          updated_at = CURRENT_TIMESTAMP
-        WHERE id = $5
-      `, [
-        result.success ? 'completed' : 'failed',
-        result.violations?.length || 0,
-        JSON.stringify(result.violations || []),
-        generationTime,
-        generationId
-      ]);
+      res.status(202).json({
+        success: true,
+        generationId: job.id,
+        status: job.status,
+        month,
+        year,
+        message: 'Schedule generation started'
+      });
 
-      // Save optimization metrics if available
-      if (result.optimizations && result.optimizations.length > 0) {
-        for (const optimization of result.optimizations) {
-          await pool.query(`
-            INSERT INTO schedule_optimizations (
-              generation_id, optimization_type, before_metrics, after_metrics, improvement_score
-            ) VALUES ($1, $2, $3, $4, $5)
-          `, [
-            generationId,
-            optimization.type,
-            JSON.stringify(optimization.before),
-            JSON.stringify(optimization.after),
-            optimization.score || 0
-          ]);
-        }
+    } catch (error) {
+      console.error('Error starting schedule generation:', error);
+      res.status(500).json({
+        error: 'Failed to start schedule generation',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+
+  /**
+   * Get status, progress and (once finished) the result of a generation
+   * GET /api/auto-schedule/generations/:id
+   */
+  getGeneration = async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid generation id' });
       }
 
-      // Update employee workload statistics
-      await this.updateWorkloadStats(month, year);
+      const job = await getGenerationJob(id);
+      if (!job) {
+        return res.status(404).json({ error: 'Generation not found' });
+      }
+
+      const draftResult = await pool.query(
+        'SELECT status, entries FROM schedule_drafts WHERE generation_id = $1',
+        [id]
+      );
+      const draft = draftResult.rows[0];
 
       res.json({
         success: true,
-        generationId,
-        month,
-        year,
-        schedule: result.schedule,
-        violations: result.violations || [],
-        metrics: result.metrics,
-        generationTime,
-        message: result.success
-          ? 'Schedule generated successfully'
-          : 'Schedule generated with some violations'
+        generationId: job.id,
+        month: job.month,
+        year: job.year,
+        status: job.status,
+        progress: job.progress,
+        error: job.error,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+        draftStatus: draft?.status || null,
+        // Finished jobs evicted from memory still expose their draft entries
+        ...(!job.result && draft && { schedule: draft.entries }),
+        ...(!job.result && job.scoreTrace && { scoreTrace: job.scoreTrace }),
+        ...(job.result && {
+          schedule: job.result.schedule,
+          violations: job.result.violations || [],
+          metrics: job.result.metrics,
+          generationTime: job.result.generationTime,
+          scoreTrace: job.result.scoreTrace || [],
+          message: job.result.success
+            ? 'Schedule generated successfully'
+            : 'Schedule generated with some violations'
+        })
       });
 
     } catch (error) {
-      console.error('Error generating schedule:', error);
+      console.error('Error fetching generation:', error);
+      res.status(500).json({
+        error: 'Failed to fetch generation',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
 
-      // Update generation status to failed if we have a generation ID
-      if (req.body?.month !== undefined && req.body?.year !== undefined) {
-        try {
-          await pool.query(`
-            UPDATE schedule_generations
-            SET status = 'failed', updated_at = CURRENT_TIMESTAMP
-            WHERE month = $1 AND year = $2
-          `, [req.body.month, req.body.year]);
-        } catch (updateError) {
-          console.error('Error updating generation status:', updateError);
+  /**
+   * Cancel a running generation
+   * POST /api/auto-schedule/generations/:id/cancel
+   */
+  cancelGeneration = async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid generation id' });
+      }
+
+      if (!cancelGenerationJob(id)) {
+        return res.status(409).json({
+          error: 'Generation is not running',
+          details: 'Only pending or in-progress generations can be cancelled'
+        });
+      }
+
+      res.json({
+        success: true,
+        generationId: id,
+        message: 'Cancellation requested'
+      });
+
+    } catch (error) {
+      console.error('Error cancelling generation:', error);
+      res.status(500).json({
+        error: 'Failed to cancel generation',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+
+  /**
+   * Compare a generated draft with the current schedule of its month
+   * GET /api/auto-schedule/generations/:id/diff
+   */
+  getDraftDiff = async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid generation id' });
+      }
+
+      // The scope of a partial regeneration is kept in the generation's options
+      const draftResult = await pool.query(`
+        SELECT d.month, d.year, d.status, d.entries, g.algorithm_config->'scope' AS scope
+        FROM schedule_drafts d
+        JOIN schedule_generations g ON g.id = d.generation_id
+        WHERE d.generation_id = $1
+      `, [id]);
+
+      if (draftResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Draft not found' });
+      }
+
+      const draft = draftResult.rows[0];
+      const current = await loadMonthEntries(pool, draft.month, draft.year);
+
+      res.json({
+        success: true,
+        generationId: id,
+        month: draft.month,
+        year: draft.year,
+        draftStatus: draft.status,
+        ...diffScheduleEntries(current, mergeDraftEntries(current, draft.entries, draft.scope || {}))
+      });
+
+    } catch (error) {
+      console.error('Error building draft diff:', error);
+      res.status(500).json({
+        error: 'Failed to build draft diff',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+
+  /**
+   * Atomically replace the month's schedule with a draft
+   * POST /api/auto-schedule/generations/:id/apply
+   */
+  applyDraft = async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid generation id' });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // The scope of a partial regeneration is kept in the generation's options
+      const draftResult = await client.query(`
+        SELECT d.month, d.year, d.status, d.entries, g.algorithm_config->'scope' AS scope
+        FROM schedule_drafts d
+        JOIN schedule_generations g ON g.id = d.generation_id
+        WHERE d.generation_id = $1
+        FOR UPDATE OF d
+      `, [id]);
+
+      if (draftResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Draft not found' });
+      }
+
+      const draft = draftResult.rows[0];
+      if (draft.status !== 'draft') {
+        await client.query('ROLLBACK');
+        return res.status(409).json({
+          error: 'Draft cannot be applied',
+          details: `Draft is already ${draft.status}`
+        });
+      }
+
+      // Snapshot of the month before apply, used by restore-previous
+      const previousEntries = await loadMonthEntries(client, draft.month, draft.year);
+      // The month may have changed since the generation: keep what was pinned since
+      // and everything outside the generation's scope
+      const appliedEntries = mergeDraftEntries(previousEntries, draft.entries, draft.scope || {});
+      await replaceMonthEntries(client, draft.month, draft.year, appliedEntries);
+
+      await client.query(`
+        UPDATE schedule_drafts
+        SET status = 'applied', previous_entries = $1, applied_at = CURRENT_TIMESTAMP
+        WHERE generation_id = $2
+      `, [JSON.stringify(previousEntries), id]);
+
+      await client.query('COMMIT');
+
+      await this.updateWorkloadStats(draft.month, draft.year);
+
+      res.json({
+        success: true,
+        generationId: id,
+        month: draft.month,
+        year: draft.year,
+        appliedEntries: appliedEntries.length,
+        message: 'Draft applied to schedule'
+      });
+
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      if (error.code === '23503') {
+        return res.status(409).json({
+          error: 'Draft cannot be applied',
+          details: 'Draft references employees or shifts that no longer exist'
+        });
+      }
+      console.error('Error applying draft:', error);
+      res.status(500).json({
+        error: 'Failed to apply draft',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    } finally {
+      client.release();
+    }
+  };
+
+  /**
+   * Explain the generator's decisions for a cell: the candidates considered for the day's shifts
+   * and their score breakdown, or why they were rejected. Uses the given generation's draft,
+   * by default the draft last applied to the month.
+   * GET /api/auto-schedule/explanations?month=&year=&day=&employee_id=&generation_id=
+   */
+  getAssignmentExplanations = async (req: Request, res: Response) => {
+    try {
+      const { month, year, day, employee_id, generation_id } = req.query;
+
+      if (month === undefined || year === undefined || day === undefined) {
+        return res.status(400).json({
+          error: 'Month, year and day are required'
+        });
+      }
+
+      const monthNum = parseInt(month as string);
+      const yearNum = parseInt(year as string);
+      const dayNum = parseInt(day as string);
+      if (isNaN(monthNum) || isNaN(yearNum) || isNaN(dayNum)) {
+        return res.status(400).json({ error: 'Invalid month, year or day' });
+      }
+
+      const draftResult = generation_id !== undefined
+        ? await pool.query(`
+          SELECT generation_id, status, applied_at, explanations
+          FROM schedule_drafts
+          WHERE generation_id = $1 AND month = $2 AND year = $3
+        `, [parseInt(generation_id as string), monthNum, yearNum])
+        : await pool.query(`
+          SELECT generation_id, status, applied_at, explanations
+          FROM schedule_drafts
+          WHERE month = $1 AND year = $2 AND status = 'applied'
+          ORDER BY applied_at DESC
+          LIMIT 1
+        `, [monthNum, yearNum]);
+
+      const draft = draftResult.rows[0];
+      // Decisions stay in generation order, the last one for a cell explains its final state
+      const explanations = (draft?.explanations || []).filter((explanation: AssignmentExplanation) =>
+        explanation.day === dayNum && (
+          !employee_id ||
+          explanation.employeeIds.includes(employee_id as string) ||
+          explanation.candidates.some(candidate => candidate.employeeId === employee_id)
+        )
+      );
+
+      res.json({
+        success: true,
+        month: monthNum,
+        year: yearNum,
+        day: dayNum,
+        generationId: draft?.generation_id ?? null,
+        draftStatus: draft?.status ?? null,
+        appliedAt: draft?.applied_at ?? null,
+        explanations
+      });
+
+    } catch (error) {
+      console.error('Error fetching assignment explanations:', error);
+      res.status(500).json({
+        error: 'Failed to fetch assignment explanations',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+
+  /**
+   * Discard a draft without touching the schedule
+   * POST /api/auto-schedule/generations/:id/discard
+   */
+  discardDraft = async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid generation id' });
+      }
+
+      const result = await pool.query(`
+        UPDATE schedule_drafts
+        SET status = 'discarded'
+        WHERE generation_id = $1 AND status = 'draft'
+        RETURNING generation_id
+      `, [id]);
+
+      if (result.rows.length === 0) {
+        const exists = await pool.query('SELECT status FROM schedule_drafts WHERE generation_id = $1', [id]);
+        if (exists.rows.length === 0) {
+          return res.status(404).json({ error: 'Draft not found' });
         }
+        return res.status(409).json({
+          error: 'Draft cannot be discarded',
+          details: `Draft is already ${exists.rows[0].status}`
+        });
       }
 
+      res.json({
+        success: true,
+        generationId: id,
+        message: 'Draft discarded'
+      });
+
+    } catch (error) {
+      console.error('Error discarding draft:', error);
       res.status(500).json({
-        error: 'Failed to generate schedule',
+        error: 'Failed to discard draft',
         details: error instanceof Error ? error.message : 'Unknown error occurred'
       });
     }
   };
 
+  /**
+   * Roll the month back to the entries it had before the last applied draft
+   * POST /api/auto-schedule/restore-previous
+   */
+  restorePreviousSchedule = async (req: Request, res: Response) => {
+    const { month, year } = req.body;
+
+    if (month === undefined || year === undefined) {
+      return res.status(400).json({
+        error: 'Month and year are required'
+      });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const draftResult = await client.query(`
+        SELECT generation_id, previous_entries
+        FROM schedule_drafts
+        WHERE month = $1 AND year = $2 AND status = 'applied'
+        ORDER BY applied_at DESC
+        LIMIT 1
+        FOR UPDATE
+      `, [month, year]);
+
+      if (draftResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'No applied generation to restore for this month' });
+      }
+
+      const draft = draftResult.rows[0];
+      const previousEntries: ScheduleEntry[] = draft.previous_entries || [];
+
+      await replaceMonthEntries(client, month, year, previousEntries);
+      await client.query(
+        "UPDATE schedule_drafts SET status = 'reverted' WHERE generation_id = $1",
+        [draft.generation_id]
+      );
+
+      await client.query('COMMIT');
+
+      await this.updateWorkloadStats(month, year);
+
+      res.json({
+        success: true,
+        generationId: draft.generation_id,
+        month,
+        year,
+        restoredEntries: previousEntries.length,
+        message: 'Previous schedule restored'
+      });
+
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      if (error.code === '23503') {
+        return res.status(409).json({
+          error: 'Previous schedule cannot be restored',
+          details: 'Snapshot references employees or shifts that no longer exist'
+        });
+      }
+      console.error('Error restoring previous schedule:', error);
+      res.status(500).json({
+        error: 'Failed to restore previous schedule',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    } finally {
+      client.release();
+    }
+  };
+
   /**
    * Get generation history and status
    * GET /api/auto-schedule/history
@@ -209,7 +747,7 @@ export class AutoScheduleController {
         });
       }
 
-      const result = await this.autoScheduler.validateSchedule({
+      const result = await new AutoScheduler().validateSchedule({
         month,
         year
       });
@@ -245,7 +783,7 @@ export class AutoScheduleController {
         });
       }
 
-      const suggestions = await this.autoScheduler.suggestImprovements({
+      const suggestions = await new AutoScheduler().suggestImprovements({
         month,
         year,
         focusAreas: focus_areas
@@ -266,6 +804,36 @@ export class AutoScheduleController {
     }
   };
 
+  /**
+   * Diagnose why the month cannot satisfy all hard rules and suggest the cheapest relaxation
+   * POST /api/auto-schedule/diagnose
+   */
+  diagnoseSchedule = async (req: Request, res: Response) => {
+    try {
+      const { month, year } = req.body;
+
+      if (month === undefined || year === undefined) {
+        return res.status(400).json({
+          error: 'Month and year are required'
+        });
+      }
+
+      const diagnosis = await new AutoScheduler().diagnoseInfeasibility({ month, year });
+
+      res.json({
+        success: true,
+        ...diagnosis
+      });
+
+    } catch (error) {
+      console.error('Error diagnosing schedule:', error);
+      res.status(500).json({
+        error: 'Failed to diagnose schedule',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+
   /**
    * Apply specific optimization to schedule
    * POST /api/auto-schedule/optimize
@@ -280,7 +848,7 @@ export class AutoScheduleController {
         });
       }
 
-      const result = await this.autoScheduler.applyOptimization({
+      const result = await new AutoScheduler().applyOptimization({
         month,
         year,
         optimizationType: optimization_type,
@@ -356,6 +924,140 @@ export class AutoScheduleController {
     }
   };
 
+  /**
+   * Get the default weights of the schedule objective
+   * GET /api/auto-schedule/objective-weights
+   */
+  getObjectiveWeights = async (req: Request, res: Response) => {
+    try {
+      res.json({
+        success: true,
+        weights: await getObjectiveWeights()
+      });
+    } catch (error) {
+      console.error('Error fetching objective weights:', error);
+      res.status(500).json({
+        error: 'Failed to fetch objective weights',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+
+  /**
+   * Save the default weights of the schedule objective
+   * PUT /api/auto-schedule/objective-weights
+   */
+  updateObjectiveWeights = async (req: Request, res: Response) => {
+    try {
+      const { weights } = req.body;
+
+      const errors = validateObjectiveWeights(weights);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          error: 'Invalid objective weights',
+          details: errors.join('; ')
+        });
+      }
+
+      // Keep only the known weights
+      const normalized = Object.fromEntries(OBJECTIVE_KEYS.map(key => [key, weights[key]]));
+
+      await pool.query(`
+        INSERT INTO app_settings (key, value, description)
+        VALUES ($1, $2, 'Веса целевой функции автогенерации графика')
+        ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value
+      `, [OBJECTIVE_WEIGHTS_KEY, JSON.stringify(normalized)]);
+
+      res.json({
+        success: true,
+        weights: normalized
+      });
+    } catch (error) {
+      console.error('Error updating objective weights:', error);
+      res.status(500).json({
+        error: 'Failed to update objective weights',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+
+  /**
+   * Get cumulative night, weekend and holiday burden per employee over a rolling window
+   * GET /api/auto-schedule/fairness?month=&year=&months=
+   */
+  getFairnessReport = async (req: Request, res: Response) => {
+    try {
+      const { month, year, months } = req.query;
+
+      if (month === undefined || year === undefined) {
+        return res.status(400).json({
+          error: 'Month and year are required'
+        });
+      }
+
+      const monthNum = parseInt(month as string);
+      const yearNum = parseInt(year as string);
+      const windowMonths = months !== undefined ? parseInt(months as string) : FAIRNESS_WINDOW_MONTHS;
+
+      if (isNaN(monthNum) || monthNum < 0 || monthNum > 11 || isNaN(yearNum)) {
+        return res.status(400).json({
+          error: 'Invalid month or year'
+        });
+      }
+      if (isNaN(windowMonths) || windowMonths < 1 || windowMonths > 24) {
+        return res.status(400).json({
+          error: 'months must be between 1 and 24'
+        });
+      }
+
+      const [ledger, employees] = await Promise.all([
+        getFairnessLedger(monthNum, yearNum, windowMonths),
+        pool.query(`
+          SELECT e.id, e.name, r.name as role_name
+          FROM employees e
+          LEFT JOIN roles r ON e.role_id = r.id
+          ORDER BY e.name
+        `)
+      ]);
+
+      const report = employees.rows.map((employee: any) => {
+        const burden = ledger.get(employee.id) || { nightShifts: 0, weekendShifts: 0, holidayShifts: 0, months: 0 };
+        return {
+          employee_id: employee.id,
+          employee_name: employee.name,
+          role_name: employee.role_name,
+          night_shifts: burden.nightShifts,
+          weekend_shifts: burden.weekendShifts,
+          holiday_shifts: burden.holidayShifts,
+          months_counted: burden.months,
+          burden_score: getBurdenScore(burden)
+        };
+      });
+
+      const averageBurden = report.length > 0
+        ? report.reduce((sum: number, row: any) => sum + row.burden_score, 0) / report.length
+        : 0;
+
+      res.json({
+        success: true,
+        month: monthNum,
+        year: yearNum,
+        months: windowMonths,
+        averageBurden,
+        employees: report
+          .map((row: any) => ({ ...row, deviation: row.burden_score - averageBurden }))
+          .sort((a: any, b: any) => b.burden_score - a.burden_score)
+      });
+
+    } catch (error) {
+      console.error('Error fetching fairness report:', error);
+      res.status(500).json({
+        error: 'Failed to fetch fairness report',
+        details: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+
   /**
    * Get available schedule templates
    * GET /api/auto-schedule/templates
@@ -429,19 +1131,24 @@ export class AutoScheduleController {
     try {
       // Get all employees
       const employees = await pool.query(`
-        SELECT id, name FROM employees
+        SELECT id, name, employment_rate, target_monthly_hours, min_weekly_hours, max_weekly_hours
+        FROM employees
       `);
 
+      const calendar = await getProductionCalendarMonth(month, year);
+      const norm = calculateMonthNorm(calendar, month, year);
+
       // Calculate stats for each employee
       for (const employee of employees.rows) {
-        const stats = await this.calculateEmployeeStats(employee.id, month, year);
+        const targetHours = getTargetMonthlyHours(contractFromRow(employee), norm);
+        const stats = await this.calculateEmployeeStats(employee.id, month, year, calendar, targetHours);
 
         await pool.query(`
           INSERT INTO employee_workload_stats (
             employee_id, month, year, total_shifts, total_hours,
             consecutive_days_max, night_shifts_count, weekend_shifts_count,
-            preference_satisfaction_rate, workload_score
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+            holiday_shifts_count, preference_satisfaction_rate, workload_score
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
           ON CONFLICT (employee_id, month, year)
           DO UPDATE SET
             total_shifts = EXCLUDED.total_shifts,
@@ -449,6 +1156,7 @@ export class AutoScheduleController {
             consecutive_days_max = EXCLUDED.consecutive_days_max,
             night_shifts_count = EXCLUDED.night_shifts_count,
             weekend_shifts_count = EXCLUDED.weekend_shifts_count,
+            holiday_shifts_count = EXCLUDED.holiday_shifts_count,
             preference_satisfaction_rate = EXCLUDED.preference_satisfaction_rate,
             workload_score = EXCLUDED.workload_score,
             updated_at = CURRENT_TIMESTAMP
@@ -459,6 +1167,7 @@ export class AutoScheduleController {
           stats.consecutiveDaysMax,
           stats.nightShiftsCount,
           stats.weekendShiftsCount,
+          stats.holidayShiftsCount,
           stats.preferenceSatisfactionRate,
           stats.workloadScore
         ]);
@@ -471,7 +1180,13 @@ export class AutoScheduleController {
   /**
    * Helper method to calculate individual employee statistics
    */
-  private calculateEmployeeStats = async (employeeId: string, month: number, year: number) => {
+  private calculateEmployeeStats = async (
+    employeeId: string,
+    month: number,
+    year: number,
+    calendar: Map<number, ProductionCalendarDay>,
+    targetHours: number
+  ) => {
     try {
       // Get employee's schedule for the month
       const scheduleResult = await pool.query(`
@@ -480,11 +1195,13 @@ export class AutoScheduleController {
           s.shift_id,
           sh.hours,
           sh.is_night,
+          sh.shift_difficulty,
           sh.name as shift_name
         FROM schedule s
         JOIN shifts sh ON s.shift_id = sh.id
         WHERE s.employee_id = $1 AND s.month = $2 AND s.year = $3
         AND s.shift_id != 'Выходной'
+        AND COALESCE(sh.max_staff, 1) > 0 -- shifts without staff (day off) are not work
         ORDER BY s.day
       `, [employeeId, month, year]);
 
@@ -494,13 +1211,20 @@ export class AutoScheduleController {
       const totalShifts = shifts.length;
       const totalHours = shifts.reduce((sum: number, shift: any) => sum + (shift.hours || 0), 0);
       const nightShiftsCount = shifts.filter((shift: any) => shift.is_night).length;
+      // Hours weighted by shift difficulty (DECIMAL comes from pg as a string)
+      const weightedHours = shifts.reduce(
+        (sum: number, shift: any) =>
+          sum + (shift.hours || 0) * (shift.shift_difficulty != null ? parseFloat(shift.shift_difficulty) : 1),
+        0
+      );
 
-      // Calculate weekend shifts
-      const weekendShiftsCount = shifts.filter((shift: any) => {
-        const date = new Date(year, month, shift.day);
-        const dayOfWeek = date.getDay();
-        return dayOfWeek === 0 || dayOfWeek === 6; // Sunday or Saturday
-      }).length;
+      // Calculate shifts on days off per the production calendar (weekends moved to working days excluded)
+      const weekendShiftsCount = shifts.filter((shift: any) =>
+        isNonWorkingDay(calendar, shift.day, month, year)
+      ).length;
+      const holidayShiftsCount = shifts.filter((shift: any) =>
+        calendar.get(shift.day)?.type === 'holiday'
+      ).length;
 
       // Calculate max consecutive days
       let consecutiveDaysMax = 0;
@@ -520,11 +1244,10 @@ export class AutoScheduleController {
       // Calculate preference satisfaction (placeholder - would need actual preference data)
       const preferenceSatisfactionRate = 85.0; // Placeholder value
 
-      // Calculate workload score (0-100)
-      const idealShiftsPerMonth = 20; // Placeholder
-      const workloadScore = Math.min(100, Math.max(0,
-        100 - Math.abs(totalShifts - idealShiftsPerMonth) * 5
-      ));
+      // Calculate workload score (0-100): deviation from the contract's target hours
+      const workloadScore = targetHours > 0
+        ? Math.min(100, Math.max(0, 100 - Math.abs(weightedHours / targetHours - 1) * 100))
+        : (weightedHours === 0 ? 100 : 0);
 
       return {
         totalShifts,
@@ -532,6 +1255,7 @@ export class AutoScheduleController {
         consecutiveDaysMax,
         nightShiftsCount,
         weekendShiftsCount,
+        holidayShiftsCount,
         preferenceSatisfactionRate,
         workloadScore
       };
@@ -544,6 +1268,7 @@ export class AutoScheduleController {
         consecutiveDaysMax: 0,
         nightShiftsCount: 0,
         weekendShiftsCount: 0,
+        holidayShiftsCount: 0,
         preferenceSatisfactionRate: 0,
         workloadScore: 0
       };
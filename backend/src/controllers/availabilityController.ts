@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import { EmployeeAvailability, EmployeeAvailabilityInput } from '../models/types';
+import { validateAvailabilityInput } from '../services/employeeAvailability';
+
+// Даты отдаются строкой YYYY-MM-DD, чтобы не зависеть от часового пояса сервера
+const AVAILABILITY_COLUMNS = `
+  id, employee_id, weekday, start_time, end_time,
+  to_char(valid_from, 'YYYY-MM-DD') AS valid_from,
+  to_char(valid_to, 'YYYY-MM-DD') AS valid_to,
+  note, created_at, updated_at
+`;
+
+// Конвертация из snake_case (БД) в camelCase (API)
+const dbToApi = (dbRow: any): EmployeeAvailability => ({
+  id: dbRow.id,
+  employeeId: dbRow.employee_id,
+  weekday: dbRow.weekday,
+  startTime: dbRow.start_time,
+  endTime: dbRow.end_time,
+  validFrom: dbRow.valid_from || undefined,
+  validTo: dbRow.valid_to || undefined,
+  note: dbRow.note || undefined,
+  created_at: dbRow.created_at,
+  updated_at: dbRow.updated_at,
+});
+
+/**
+ * GET /api/availability
+ * Получить окна доступности (опционально сотрудника: ?employeeId=X)
+ */
+export const getAvailability = async (req: Request, res: Response): Promise<void> => {
+  const { employeeId } = req.query;
+
+  try {
+    const result = typeof employeeId === 'string'
+      ? await pool.query(
+        `SELECT ${AVAILABILITY_COLUMNS} FROM employee_availability WHERE employee_id = $1 ORDER BY weekday, start_time`,
+        [employeeId]
+      )
+      : await pool.query(
+        `SELECT ${AVAILABILITY_COLUMNS} FROM employee_availability ORDER BY employee_id, weekday, start_time`
+      );
+
+    res.json(result.rows.map(dbToApi));
+  } catch (error) {
+    console.error('Error fetching availability:', error);
+    res.status(500).json({ error: 'Failed to fetch availability' });
+  }
+};
+
+/**
+ * POST /api/availability
+ * Добавить окно доступности
+ */
+export const createAvailability = async (req: Request, res: Response): Promise<void> => {
+  const { employeeId, weekday, startTime, endTime, validFrom, validTo, note }: EmployeeAvailabilityInput = req.body;
+
+  const errors = validateAvailabilityInput(req.body);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Invalid availability', details: errors });
+    return;
+  }
+
+  try {
+    const result = await pool.query(`
+      INSERT INTO employee_availability (employee_id, weekday, start_time, end_time, valid_from, valid_to, note)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING ${AVAILABILITY_COLUMNS}
+    `, [employeeId, weekday, startTime, endTime, validFrom || null, validTo || null, note || null]);
+
+    res.status(201).json(dbToApi(result.rows[0]));
+  } catch (error: any) {
+    if (error.code === '23503') {
+      res.status(400).json({ error: 'Employee not found' });
+      return;
+    }
+    console.error('Error creating availability:', error);
+    res.status(500).json({ error: 'Failed to create availability' });
+  }
+};
+
+/**
+ * PUT /api/availability/:id
+ * Заменить окно доступности (сотрудник не меняется)
+ */
+export const updateAvailability = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { weekday, startTime, endTime, validFrom, validTo, note }: Partial<EmployeeAvailabilityInput> = req.body;
+
+  const errors = validateAvailabilityInput(req.body, false);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Invalid availability', details: errors });
+    return;
+  }
+
+  try {
+    const result = await pool.query(`
+      UPDATE employee_availability
+      SET weekday = $1,
+          start_time = $2,
+          end_time = $3,
+          valid_from = $4,
+          valid_to = $5,
+          note = $6
+      WHERE id = $7
+      RETURNING ${AVAILABILITY_COLUMNS}
+    `, [weekday, startTime, endTime, validFrom || null, validTo || null, note || null, id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Availability not found' });
+      return;
+    }
+
+    res.json(dbToApi(result.rows[0]));
+  } catch (error) {
+    console.error('Error updating availability:', error);
+    res.status(500).json({ error: 'Failed to update availability' });
+  }
+};
+
+/**
+ * DELETE /api/availability/:id
+ * Удалить окно доступности
+ */
+export const deleteAvailability = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const result = await pool.query('DELETE FROM employee_availability WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Availability not found' });
+      return;
+    }
+
+    res.json({ message: 'Availability deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting availability:', error);
+    res.status(500).json({ error: 'Failed to delete availability' });
+  }
+};
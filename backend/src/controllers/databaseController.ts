@@ -13,9 +13,11 @@ export const clearDatabase = async (req: Request, res: Response) => {
       const tablesToClear = [
         'employee_preferences',      // Зависит от employees, preference_reasons
         'schedule',                  // Зависит от employees, shifts
+        'employee_availability',     // Зависит от employees
         'preference_reasons',        // Может использоваться employee_preferences
         'validation_rules',          // Независимая таблица
         'app_settings',              // Независимая таблица
+        'operating_calendar_overrides', // Независимая таблица
         'employees',                 // Может использоваться другими таблицами
         'shifts'                     // Может использоваться другими таблицами
       ];
@@ -48,9 +50,11 @@ export const clearDatabase = async (req: Request, res: Response) => {
       const resetSequences = [
         'employee_preferences_id_seq',
         'schedule_id_seq',
+        'employee_availability_id_seq',
         'preference_reasons_id_seq',
         'validation_rules_id_seq',
-        'app_settings_id_seq'
+        'app_settings_id_seq',
+        'operating_calendar_overrides_id_seq'
       ];
 
       for (const seq of resetSequences) {
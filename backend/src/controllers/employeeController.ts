@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import pool from '../config/database';
 import { Employee, EmployeeInput } from '../models/types';
+import { contractFromRow, DEFAULT_CONTRACT, validateContract } from '../services/employmentContract';
 
 /**
  * Получить всех сотрудников
@@ -13,6 +14,10 @@ export const getAllEmployees = async (req: Request, res: Response): Promise<void
         e.name,
         e.exclude_from_hours as "excludeFromHours",
         e.role_id as "roleId",
+        e.employment_rate,
+        e.target_monthly_hours,
+        e.min_weekly_hours,
+        e.max_weekly_hours,
         r.id as "role.id",
         r.name as "role.name",
         r.permissions as "role.permissions",
@@ -30,6 +35,7 @@ export const getAllEmployees = async (req: Request, res: Response): Promise<void
       name: row.name,
       excludeFromHours: row.excludeFromHours,
       roleId: row.roleId,
+      contract: contractFromRow(row),
       role: row['role.id'] ? {
         id: row['role.id'],
         name: row['role.name'],
@@ -59,6 +65,10 @@ export const getEmployeeById = async (req: Request, res: Response): Promise<void
         e.name,
         e.exclude_from_hours as "excludeFromHours",
         e.role_id as "roleId",
+        e.employment_rate,
+        e.target_monthly_hours,
+        e.min_weekly_hours,
+        e.max_weekly_hours,
         r.id as "role.id",
         r.name as "role.name",
         r.permissions as "role.permissions",
@@ -82,6 +92,7 @@ export const getEmployeeById = async (req: Request, res: Response): Promise<void
       name: row.name,
       excludeFromHours: row.excludeFromHours,
       roleId: row.roleId,
+      contract: contractFromRow(row),
       role: row['role.id'] ? {
         id: row['role.id'],
         name: row['role.name'],
@@ -104,13 +115,19 @@ export const getEmployeeById = async (req: Request, res: Response): Promise<void
  */
 export const createEmployee = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id, name, excludeFromHours, roleId }: EmployeeInput = req.body;
+    const { id, name, excludeFromHours, roleId, contract = DEFAULT_CONTRACT }: EmployeeInput = req.body;
 
     if (!id || !name) {
       res.status(400).json({ error: 'ID and name are required' });
       return;
     }
 
+    const contractErrors = validateContract(contract);
+    if (contractErrors.length > 0) {
+      res.status(400).json({ error: 'Invalid contract', details: contractErrors });
+      return;
+    }
+
     // Если указан roleId, проверяем что роль существует
     if (roleId !== undefined && roleId !== null) {
       const roleCheck = await pool.query('SELECT id FROM roles WHERE id = $1', [roleId]);
@@ -121,10 +138,17 @@ export const createEmployee = async (req: Request, res: Response): Promise<void>
     }
 
     const result = await pool.query(
-      `INSERT INTO employees (id, name, exclude_from_hours, role_id)
-       VALUES ($1, $2, $3, $4)
-       RETURNING id, name, exclude_from_hours as "excludeFromHours", role_id as "roleId"`,
-      [id, name, excludeFromHours || false, roleId || null]
+      `INSERT INTO employees (
+         id, name, exclude_from_hours, role_id,
+         employment_rate, target_monthly_hours, min_weekly_hours, max_weekly_hours
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id, name, exclude_from_hours as "excludeFromHours", role_id as "roleId",
+         employment_rate, target_monthly_hours, min_weekly_hours, max_weekly_hours`,
+      [
+        id, name, excludeFromHours || false, roleId || null,
+        contract.rate, contract.targetMonthlyHours ?? null, contract.minWeeklyHours ?? null, contract.maxWeeklyHours ?? null
+      ]
     );
 
     // Если есть роль, получаем её данные
@@ -135,6 +159,10 @@ export const createEmployee = async (req: Request, res: Response): Promise<void>
           e.name,
           e.exclude_from_hours as "excludeFromHours",
           e.role_id as "roleId",
+          e.employment_rate,
+          e.target_monthly_hours,
+          e.min_weekly_hours,
+          e.max_weekly_hours,
           r.id as "role.id",
           r.name as "role.name",
           r.permissions as "role.permissions",
@@ -153,6 +181,7 @@ export const createEmployee = async (req: Request, res: Response): Promise<void>
         name: row.name,
         excludeFromHours: row.excludeFromHours,
         roleId: row.roleId,
+        contract: contractFromRow(row),
         role: row['role.id'] ? {
           id: row['role.id'],
           name: row['role.name'],
@@ -163,7 +192,14 @@ export const createEmployee = async (req: Request, res: Response): Promise<void>
         } : undefined
       });
     } else {
-      res.status(201).json(result.rows[0]);
+      const row = result.rows[0];
+      res.status(201).json({
+        id: row.id,
+        name: row.name,
+        excludeFromHours: row.excludeFromHours,
+        roleId: row.roleId,
+        contract: contractFromRow(row)
+      });
     }
   } catch (error: any) {
     if (error.code === '23505') {
@@ -181,13 +217,22 @@ export const createEmployee = async (req: Request, res: Response): Promise<void>
 export const updateEmployee = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, excludeFromHours, roleId }: Partial<EmployeeInput> = req.body;
+    const { name, excludeFromHours, roleId, contract }: Partial<EmployeeInput> = req.body;
 
     if (!name) {
       res.status(400).json({ error: 'Name is required' });
       return;
     }
 
+    // Договор необязателен: без него сохраняется текущий
+    if (contract !== undefined) {
+      const contractErrors = validateContract(contract);
+      if (contractErrors.length > 0) {
+        res.status(400).json({ error: 'Invalid contract', details: contractErrors });
+        return;
+      }
+    }
+
     // Если указан roleId, проверяем что роль существует
     if (roleId !== undefined && roleId !== null) {
       const roleCheck = await pool.query('SELECT id FROM roles WHERE id = $1', [roleId]);
@@ -210,6 +255,15 @@ export const updateEmployee = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    if (contract !== undefined) {
+      await pool.query(
+        `UPDATE employees
+         SET employment_rate = $1, target_monthly_hours = $2, min_weekly_hours = $3, max_weekly_hours = $4
+         WHERE id = $5`,
+        [contract.rate, contract.targetMonthlyHours ?? null, contract.minWeeklyHours ?? null, contract.maxWeeklyHours ?? null, id]
+      );
+    }
+
     // Получаем полные данные с ролью
     const employeeWithRole = await pool.query(
       `SELECT
@@ -217,6 +271,10 @@ export const updateEmployee = async (req: Request, res: Response): Promise<void>
         e.name,
         e.exclude_from_hours as "excludeFromHours",
         e.role_id as "roleId",
+        e.employment_rate,
+        e.target_monthly_hours,
+        e.min_weekly_hours,
+        e.max_weekly_hours,
         r.id as "role.id",
         r.name as "role.name",
         r.permissions as "role.permissions",
@@ -235,6 +293,7 @@ export const updateEmployee = async (req: Request, res: Response): Promise<void>
       name: row.name,
       excludeFromHours: row.excludeFromHours,
       roleId: row.roleId,
+      contract: contractFromRow(row),
       role: row['role.id'] ? {
         id: row['role.id'],
         name: row['role.name'],
@@ -0,0 +1,181 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import { OperatingCalendarOverride, OperatingCalendarOverrideInput } from '../models/types';
+import {
+  getOperatingWeek,
+  isValidTime,
+  OPERATING_CALENDAR_KEY,
+  validateOperatingWeek
+} from '../services/operatingCalendar';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Дата отдаётся строкой YYYY-MM-DD, чтобы не зависеть от часового пояса сервера
+const OVERRIDE_COLUMNS = `
+  id, to_char(date, 'YYYY-MM-DD') AS date, is_closed, start_time, end_time, note, created_at, updated_at
+`;
+
+// Конвертация из snake_case (БД) в camelCase (API)
+const dbToApi = (dbRow: any): OperatingCalendarOverride => ({
+  id: dbRow.id,
+  date: dbRow.date,
+  isClosed: dbRow.is_closed,
+  startTime: dbRow.start_time || undefined,
+  endTime: dbRow.end_time || undefined,
+  note: dbRow.note || undefined,
+  created_at: dbRow.created_at,
+  updated_at: dbRow.updated_at,
+});
+
+/**
+ * Проверить тело запроса исключения
+ * Возвращает список ошибок (пустой, если всё корректно)
+ */
+const validateOverrideInput = (input: Partial<OperatingCalendarOverrideInput>): string[] => {
+  const errors: string[] = [];
+
+  if (typeof input.date !== 'string' || !DATE_PATTERN.test(input.date) || isNaN(Date.parse(input.date))) {
+    errors.push('date must be in YYYY-MM-DD format');
+  }
+  if (input.isClosed !== undefined && typeof input.isClosed !== 'boolean') {
+    errors.push('isClosed must be a boolean');
+  }
+  for (const field of ['startTime', 'endTime'] as const) {
+    const value = input[field];
+    if (value !== undefined && value !== null && value !== '' && !isValidTime(value)) {
+      errors.push(`${field} must be in HH:MM format`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * GET /api/operating-calendar
+ * Получить часы работы по дням недели (индекс 0 - воскресенье)
+ */
+export const getOperatingCalendar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ week: await getOperatingWeek() });
+  } catch (error) {
+    console.error('Error fetching operating calendar:', error);
+    res.status(500).json({ error: 'Failed to fetch operating calendar' });
+  }
+};
+
+/**
+ * PUT /api/operating-calendar
+ * Сохранить часы работы по дням недели
+ */
+export const updateOperatingCalendar = async (req: Request, res: Response): Promise<void> => {
+  const { week } = req.body;
+
+  const errors = validateOperatingWeek(week);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Invalid operating calendar', details: errors });
+    return;
+  }
+
+  // Сохраняем только известные поля
+  const normalized = week.map((day: any) => ({ open: day.open, start: day.start, end: day.end }));
+
+  try {
+    await pool.query(`
+      INSERT INTO app_settings (key, value, description)
+      VALUES ($1, $2, 'Часы работы предприятия по дням недели (0 - воскресенье)')
+      ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value
+    `, [OPERATING_CALENDAR_KEY, JSON.stringify(normalized)]);
+
+    res.json({ week: normalized });
+  } catch (error) {
+    console.error('Error updating operating calendar:', error);
+    res.status(500).json({ error: 'Failed to update operating calendar' });
+  }
+};
+
+/**
+ * GET /api/operating-calendar/overrides
+ * Получить исключения (опционально за период: ?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD)
+ */
+export const getOverrides = async (req: Request, res: Response): Promise<void> => {
+  const { startDate, endDate } = req.query;
+
+  try {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (typeof startDate === 'string' && DATE_PATTERN.test(startDate)) {
+      values.push(startDate);
+      conditions.push(`date >= $${values.length}`);
+    }
+    if (typeof endDate === 'string' && DATE_PATTERN.test(endDate)) {
+      values.push(endDate);
+      conditions.push(`date <= $${values.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await pool.query(
+      `SELECT ${OVERRIDE_COLUMNS} FROM operating_calendar_overrides ${where} ORDER BY date`,
+      values
+    );
+
+    res.json(result.rows.map(dbToApi));
+  } catch (error) {
+    console.error('Error fetching operating calendar overrides:', error);
+    res.status(500).json({ error: 'Failed to fetch operating calendar overrides' });
+  }
+};
+
+/**
+ * POST /api/operating-calendar/overrides
+ * Создать исключение на дату (существующее на эту дату заменяется)
+ */
+export const upsertOverride = async (req: Request, res: Response): Promise<void> => {
+  const { date, isClosed = false, startTime, endTime, note }: OperatingCalendarOverrideInput = req.body;
+
+  const errors = validateOverrideInput(req.body);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Invalid operating calendar override', details: errors });
+    return;
+  }
+
+  try {
+    const result = await pool.query(`
+      INSERT INTO operating_calendar_overrides (date, is_closed, start_time, end_time, note)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (date) DO UPDATE SET
+        is_closed = EXCLUDED.is_closed,
+        start_time = EXCLUDED.start_time,
+        end_time = EXCLUDED.end_time,
+        note = EXCLUDED.note
+      RETURNING ${OVERRIDE_COLUMNS}
+    `, [date, isClosed, startTime || null, endTime || null, note || null]);
+
+    res.status(201).json(dbToApi(result.rows[0]));
+  } catch (error) {
+    console.error('Error saving operating calendar override:', error);
+    res.status(500).json({ error: 'Failed to save operating calendar override' });
+  }
+};
+
+/**
+ * DELETE /api/operating-calendar/overrides/:id
+ * Удалить исключение
+ */
+export const deleteOverride = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const result = await pool.query('DELETE FROM operating_calendar_overrides WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Operating calendar override not found' });
+      return;
+    }
+
+    res.json({ message: 'Operating calendar override deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting operating calendar override:', error);
+    res.status(500).json({ error: 'Failed to delete operating calendar override' });
+  }
+};
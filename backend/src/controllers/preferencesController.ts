@@ -8,6 +8,8 @@ const dbToApi = (dbRow: any): EmployeePreference => ({
   employeeId: dbRow.employee_id,
   preferenceType: dbRow.preference_type,
   targetDate: dbRow.target_date,
+  preferenceStartDate: dbRow.preference_start_date,
+  preferenceEndDate: dbRow.preference_end_date,
   targetShiftId: dbRow.target_shift_id,
   reasonId: dbRow.reason_id,
   priority: dbRow.priority,
@@ -17,6 +19,30 @@ const dbToApi = (dbRow: any): EmployeePreference => ({
   updated_at: dbRow.updated_at,
 });
 
+/**
+ * Проверить даты пожелания: выходной требует targetDate,
+ * пожелание смены - либо targetDate, либо период (границы необязательны)
+ * Возвращает список ошибок (пустой, если всё корректно)
+ */
+const validatePreferenceDates = (input: Partial<EmployeePreferenceInput>): string[] => {
+  const errors: string[] = [];
+  const { preferenceType, targetDate, preferenceStartDate, preferenceEndDate, targetShiftId } = input;
+  const hasRange = !!preferenceStartDate || !!preferenceEndDate;
+
+  if (preferenceType === 'day_off') {
+    if (!targetDate) errors.push('targetDate is required for day_off');
+    if (hasRange) errors.push('day_off does not support a date range');
+  } else {
+    if (!targetShiftId) errors.push('targetShiftId is required for shift preferences');
+    if (targetDate && hasRange) errors.push('Use either targetDate or a date range, not both');
+  }
+  if (preferenceStartDate && preferenceEndDate && preferenceStartDate > preferenceEndDate) {
+    errors.push('preferenceStartDate cannot be later than preferenceEndDate');
+  }
+
+  return errors;
+};
+
 /**
  * GET /api/preferences
  * Получить все пожелания (с опциональными фильтрами)
@@ -113,6 +139,8 @@ export const createPreference = async (req: Request, res: Response): Promise<voi
     employeeId,
     preferenceType,
     targetDate,
+    preferenceStartDate,
+    preferenceEndDate,
     targetShiftId,
     reasonId,
     priority = 0,
@@ -125,6 +153,12 @@ export const createPreference = async (req: Request, res: Response): Promise<voi
     return;
   }
 
+  const dateErrors = validatePreferenceDates(req.body);
+  if (dateErrors.length > 0) {
+    res.status(400).json({ error: 'Invalid preference dates', details: dateErrors });
+    return;
+  }
+
   try {
     // Если указана причина, но не указан приоритет, берем приоритет из reason
     let finalPriority = priority;
@@ -136,9 +170,15 @@ export const createPreference = async (req: Request, res: Response): Promise<voi
     }
 
     const result = await pool.query(
-      `INSERT INTO employee_preferences (employee_id, preference_type, target_date, target_shift_id, reason_id, priority, status, notes)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
-      [employeeId, preferenceType, targetDate, targetShiftId, reasonId, finalPriority, status, notes]
+      `INSERT INTO employee_preferences (
+         employee_id, preference_type, target_date, preference_start_date, preference_end_date,
+         target_shift_id, reason_id, priority, status, notes
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+      [
+        employeeId, preferenceType, targetDate || null, preferenceStartDate || null, preferenceEndDate || null,
+        targetShiftId, reasonId, finalPriority, status, notes
+      ]
     );
 
     res.status(201).json(dbToApi(result.rows[0]));
@@ -161,6 +201,8 @@ export const updatePreference = async (req: Request, res: Response): Promise<voi
   const {
     preferenceType,
     targetDate,
+    preferenceStartDate,
+    preferenceEndDate,
     targetShiftId,
     reasonId,
     priority,
@@ -168,6 +210,11 @@ export const updatePreference = async (req: Request, res: Response): Promise<voi
     notes,
   }: Partial<EmployeePreferenceInput> = req.body;
 
+  if (preferenceStartDate && preferenceEndDate && preferenceStartDate > preferenceEndDate) {
+    res.status(400).json({ error: 'preferenceStartDate cannot be later than preferenceEndDate' });
+    return;
+  }
+
   try {
     const updates: string[] = [];
     const values: any[] = [];
@@ -179,7 +226,15 @@ export const updatePreference = async (req: Request, res: Response): Promise<voi
     }
     if (targetDate !== undefined) {
       updates.push(`target_date = $${paramIndex++}`);
-      values.push(targetDate);
+      values.push(targetDate || null);
+    }
+    if (preferenceStartDate !== undefined) {
+      updates.push(`preference_start_date = $${paramIndex++}`);
+      values.push(preferenceStartDate || null);
+    }
+    if (preferenceEndDate !== undefined) {
+      updates.push(`preference_end_date = $${paramIndex++}`);
+      values.push(preferenceEndDate || null);
     }
     if (targetShiftId !== undefined) {
       updates.push(`target_shift_id = $${paramIndex++}`);
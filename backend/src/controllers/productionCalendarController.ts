@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import {
+  calculateMonthNorm,
+  getProductionCalendarMonth,
+  importProductionCalendar,
+  parseProductionCalendar,
+  ProductionCalendarFormat,
+  ProductionCalendarParseError
+} from '../services/productionCalendar';
+
+const FORMATS: ProductionCalendarFormat[] = ['xml', 'json'];
+
+/**
+ * GET /api/production-calendar?month=X&year=Y
+ * Получить особые дни месяца и норму часов (месяц 0-11)
+ */
+export const getProductionCalendar = async (req: Request, res: Response): Promise<void> => {
+  const month = Number(req.query.month);
+  const year = Number(req.query.year);
+
+  if (!Number.isInteger(month) || month < 0 || month > 11 || !Number.isInteger(year)) {
+    res.status(400).json({ error: 'month (0-11) and year are required' });
+    return;
+  }
+
+  try {
+    const calendar = await getProductionCalendarMonth(month, year);
+
+    res.json({
+      month,
+      year,
+      days: [...calendar.values()].sort((a, b) => a.date.localeCompare(b.date)),
+      norm: calculateMonthNorm(calendar, month, year)
+    });
+  } catch (error) {
+    console.error('Error fetching production calendar:', error);
+    res.status(500).json({ error: 'Failed to fetch production calendar' });
+  }
+};
+
+/**
+ * GET /api/production-calendar/years
+ * Получить загруженные годы с количеством особых дней
+ */
+export const getProductionCalendarYears = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await pool.query(`
+      SELECT
+        EXTRACT(YEAR FROM date)::int AS year,
+        COUNT(*) FILTER (WHERE day_type = 'holiday')::int AS holidays,
+        COUNT(*) FILTER (WHERE day_type = 'shortened')::int AS shortened,
+        COUNT(*) FILTER (WHERE day_type = 'working')::int AS working
+      FROM production_calendar
+      GROUP BY 1
+      ORDER BY 1
+    `);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Error fetching production calendar years:', error);
+    res.status(500).json({ error: 'Failed to fetch production calendar years' });
+  }
+};
+
+/**
+ * POST /api/production-calendar/import
+ * Импортировать календарь из содержимого XML/JSON файла: { content, format? }
+ * Загруженные ранее данные за те же годы заменяются
+ */
+export const importCalendar = async (req: Request, res: Response): Promise<void> => {
+  const { content, format } = req.body;
+
+  if (typeof content !== 'string' || content.trim() === '') {
+    res.status(400).json({ error: 'content is required' });
+    return;
+  }
+  if (format !== undefined && !FORMATS.includes(format)) {
+    res.status(400).json({ error: `format must be one of: ${FORMATS.join(', ')}` });
+    return;
+  }
+
+  try {
+    const days = parseProductionCalendar(content, format);
+    if (days.length === 0) {
+      res.status(400).json({ error: 'Calendar file contains no days' });
+      return;
+    }
+
+    const years = await importProductionCalendar(days);
+
+    res.json({
+      message: 'Production calendar imported successfully',
+      years,
+      imported: days.length
+    });
+  } catch (error) {
+    if (error instanceof ProductionCalendarParseError) {
+      res.status(400).json({ error: 'Invalid production calendar file', details: [error.message] });
+      return;
+    }
+    console.error('Error importing production calendar:', error);
+    res.status(500).json({ error: 'Failed to import production calendar' });
+  }
+};
+
+/**
+ * DELETE /api/production-calendar/:year
+ * Удалить календарь за год
+ */
+export const deleteCalendarYear = async (req: Request, res: Response): Promise<void> => {
+  const year = Number(req.params.year);
+
+  if (!Number.isInteger(year)) {
+    res.status(400).json({ error: 'Invalid year' });
+    return;
+  }
+
+  try {
+    const result = await pool.query('DELETE FROM production_calendar WHERE EXTRACT(YEAR FROM date) = $1', [year]);
+
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: 'Production calendar for this year not found' });
+      return;
+    }
+
+    res.json({ message: 'Production calendar deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting production calendar:', error);
+    res.status(500).json({ error: 'Failed to delete production calendar' });
+  }
+};
@@ -188,6 +188,20 @@ export const deleteRole = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Правила этой роли после её удаления применялись бы ко всем сотрудникам
+    const rulesCheck = await pool.query(
+      'SELECT COUNT(*) as count FROM validation_rules WHERE $1 = ANY(applies_to_roles)',
+      [id]
+    );
+
+    if (parseInt(rulesCheck.rows[0].count) > 0) {
+      res.status(409).json({
+        error: 'Cannot delete role that is used by validation rules',
+        ruleCount: parseInt(rulesCheck.rows[0].count)
+      });
+      return;
+    }
+
     await pool.query('DELETE FROM roles WHERE id = $1', [id]);
 
     res.status(204).send();
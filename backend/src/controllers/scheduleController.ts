@@ -1,8 +1,10 @@
 import { Request, Response } from 'express';
 import pool from '../config/database';
-import { ScheduleEntry, ScheduleEntryInput, ValidationRule, Employee, Shift } from '../models/types';
+import { ScheduleEntry, ScheduleEntryInput } from '../models/types';
 import { validateSchedule } from '../services/scheduleValidator';
 
+const SCHEDULE_COLUMNS = 'id, employee_id as "employeeId", day, month, year, shift_id as "shiftId", is_locked as "isLocked"';
+
 /**
  * Получить весь график
  * Опционально с фильтрацией по месяцу и году
@@ -12,8 +14,7 @@ export const getAllSchedule = async (req: Request, res: Response): Promise<void>
     const { month, year } = req.query;
 
     let query = `
-      SELECT
-        id, employee_id as "employeeId", day, month, year, shift_id as "shiftId"
+      SELECT ${SCHEDULE_COLUMNS}
       FROM schedule
     `;
 
@@ -41,7 +42,7 @@ export const getScheduleById = async (req: Request, res: Response): Promise<void
   try {
     const { id } = req.params;
     const result = await pool.query<ScheduleEntry>(
-      'SELECT id, employee_id as "employeeId", day, month, year, shift_id as "shiftId" FROM schedule WHERE id = $1',
+      `SELECT ${SCHEDULE_COLUMNS} FROM schedule WHERE id = $1`,
       [id]
     );
 
@@ -62,7 +63,7 @@ export const getScheduleById = async (req: Request, res: Response): Promise<void
  */
 export const createScheduleEntry = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { employeeId, day, month, year, shiftId }: ScheduleEntryInput = req.body;
+    const { employeeId, day, month, year, shiftId, isLocked }: ScheduleEntryInput = req.body;
 
     if (!employeeId || day === undefined || month === undefined || year === undefined || !shiftId) {
       res.status(400).json({ error: 'All fields are required' });
@@ -70,8 +71,8 @@ export const createScheduleEntry = async (req: Request, res: Response): Promise<
     }
 
     const result = await pool.query<ScheduleEntry>(
-      'INSERT INTO schedule (employee_id, day, month, year, shift_id) VALUES ($1, $2, $3, $4, $5) RETURNING id, employee_id as "employeeId", day, month, year, shift_id as "shiftId"',
-      [employeeId, day, month, year, shiftId]
+      `INSERT INTO schedule (employee_id, day, month, year, shift_id, is_locked) VALUES ($1, $2, $3, $4, $5, $6) RETURNING ${SCHEDULE_COLUMNS}`,
+      [employeeId, day, month, year, shiftId, isLocked || false]
     );
 
     res.status(201).json(result.rows[0]);
@@ -97,16 +98,17 @@ export const createScheduleEntry = async (req: Request, res: Response): Promise<
 export const updateScheduleEntry = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { employeeId, day, month, year, shiftId }: ScheduleEntryInput = req.body;
+    const { employeeId, day, month, year, shiftId, isLocked }: ScheduleEntryInput = req.body;
 
     if (!employeeId || day === undefined || month === undefined || year === undefined || !shiftId) {
       res.status(400).json({ error: 'All fields are required' });
       return;
     }
 
+    // Если isLocked не передан, закрепление сохраняется
     const result = await pool.query<ScheduleEntry>(
-      'UPDATE schedule SET employee_id = $1, day = $2, month = $3, year = $4, shift_id = $5 WHERE id = $6 RETURNING id, employee_id as "employeeId", day, month, year, shift_id as "shiftId"',
-      [employeeId, day, month, year, shiftId, id]
+      `UPDATE schedule SET employee_id = $1, day = $2, month = $3, year = $4, shift_id = $5, is_locked = COALESCE($6, is_locked) WHERE id = $7 RETURNING ${SCHEDULE_COLUMNS}`,
+      [employeeId, day, month, year, shiftId, isLocked ?? null, id]
     );
 
     if (result.rows.length === 0) {
@@ -129,6 +131,37 @@ export const updateScheduleEntry = async (req: Request, res: Response): Promise<
   }
 };
 
+/**
+ * Закрепить/открепить запись графика
+ * Закреплённые записи автогенерация не изменяет
+ */
+export const setScheduleEntryLock = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { locked } = req.body;
+
+  if (typeof locked !== 'boolean') {
+    res.status(400).json({ error: 'locked (boolean) is required' });
+    return;
+  }
+
+  try {
+    const result = await pool.query<ScheduleEntry>(
+      `UPDATE schedule SET is_locked = $1 WHERE id = $2 RETURNING ${SCHEDULE_COLUMNS}`,
+      [locked, id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Schedule entry not found' });
+      return;
+    }
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Error locking schedule entry:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 /**
  * Удалить запись из графика
  */
@@ -210,7 +243,7 @@ export const bulkUpsertSchedule = async (req: Request, res: Response): Promise<v
            VALUES ($1, $2, $3, $4, $5)
            ON CONFLICT (employee_id, day, month, year)
            DO UPDATE SET shift_id = EXCLUDED.shift_id
-           RETURNING id, employee_id as "employeeId", day, month, year, shift_id as "shiftId"`,
+           RETURNING ${SCHEDULE_COLUMNS}`,
           [employeeId, day, month, year, shiftId]
         );
 
@@ -237,6 +270,7 @@ export const bulkUpsertSchedule = async (req: Request, res: Response): Promise<v
 
 /**
  * Валидировать график работы по правилам
+ * Использует тот же движок правил, что и POST /api/auto-schedule/validate
  */
 export const validateScheduleController = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -250,102 +284,23 @@ export const validateScheduleController = async (req: Request, res: Response): P
     const monthNum = parseInt(month as string);
     const yearNum = parseInt(year as string);
 
-    // Получаем график за указанный месяц
-    const scheduleResult = await pool.query<ScheduleEntry>(
-      `SELECT id, employee_id as "employeeId", day, month, year, shift_id as "shiftId"
-       FROM schedule
-       WHERE month = $1 AND year = $2`,
-      [monthNum, yearNum]
-    );
-
-    // Получаем всех сотрудников с ролями
-    const employeesResult = await pool.query<Employee>(
-      `SELECT
-        e.id,
-        e.name,
-        e.role_id as "roleId",
-        e.exclude_from_hours as "excludeFromHours",
-        r.id as "role.id",
-        r.name as "role.name",
-        r.permissions as "role.permissions",
-        r.color as "role.color",
-        r.description as "role.description",
-        r.is_system as "role.isSystem"
-      FROM employees e
-      LEFT JOIN roles r ON e.role_id = r.id`
-    );
-
-    // Преобразуем результат с JOIN в правильный формат
-    const employees = employeesResult.rows.map(row => {
-      const employee: any = {
-        id: row.id,
-        name: row.name,
-        roleId: row.roleId,
-        excludeFromHours: row.excludeFromHours,
-      };
-
-      // Если есть роль, добавляем её как объект
-      if (row.roleId && (row as any)['role.id']) {
-        employee.role = {
-          id: (row as any)['role.id'],
-          name: (row as any)['role.name'],
-          permissions: (row as any)['role.permissions'],
-          color: (row as any)['role.color'],
-          description: (row as any)['role.description'],
-          isSystem: (row as any)['role.isSystem'],
-        };
-      }
-
-      return employee;
-    });
-
-    // Получаем все смены
-    const shiftsResult = await pool.query<Shift>(
-      `SELECT id, name, abbreviation, color, hours,
-        start_time as "startTime", end_time as "endTime", is_default as "isDefault"
-       FROM shifts`
-    );
-
-    // Получаем включенные правила валидации
-    const rulesResult = await pool.query<any>(
-      `SELECT
-        id,
-        rule_type as "ruleType",
-        enabled,
-        config,
-        applies_to_roles as "appliesToRoles",
-        applies_to_employees as "appliesToEmployees",
-        enforcement_type as "enforcementType",
-        custom_message as "customMessage",
-        priority,
-        description
-       FROM validation_rules
-       WHERE enabled = true
-       ORDER BY priority ASC`
-    );
-
-    const rules: ValidationRule[] = rulesResult.rows;
-
-    // Получаем одобренные запросы выходных дней за указанный месяц
-    const approvedDayOffsResult = await pool.query(
-      `SELECT
-         employee_id as "employeeId",
-         target_date as "date"
-       FROM employee_preferences
-       WHERE preference_type = 'day_off'
-         AND status = 'approved'
-         AND EXTRACT(MONTH FROM target_date) = $1
-         AND EXTRACT(YEAR FROM target_date) = $2`,
-      [monthNum + 1, yearNum] // SQL месяцы 1-12, JavaScript 0-11
-    );
+    if (isNaN(monthNum) || isNaN(yearNum) || monthNum < 0 || monthNum > 11) {
+      res.status(400).json({ error: 'Invalid month or year' });
+      return;
+    }
 
-    // Выполняем валидацию
-    const validationResult = await validateSchedule({
+    const result = await validateSchedule({
       month: monthNum,
       year: yearNum
     });
 
-    res.json(validationResult);
+    res.json({
+      isValid: result.isValid,
+      violations: result.violations,
+      warnings: result.warnings,
+      metrics: result.metrics,
+      errorCount: result.errorCount
+    });
   } catch (error) {
     console.error('Error validating schedule:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -2,13 +2,58 @@ import { Request, Response } from 'express';
 import pool from '../config/database';
 import { Shift, ShiftInput } from '../models/types';
 
+const SHIFT_COLUMNS = `
+  id, name, abbreviation, color, hours,
+  to_char(start_time, 'HH24:MI') as "startTime",
+  to_char(end_time, 'HH24:MI') as "endTime",
+  is_default as "isDefault",
+  min_staff as "minStaff",
+  max_staff as "maxStaff",
+  required_roles as "requiredRoles",
+  is_night as "isNight",
+  coverage_priority as "coveragePriority",
+  shift_difficulty::float as "shiftDifficulty"
+`;
+
+const isNonNegativeInteger = (value: unknown): boolean =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Проверить параметры укомплектования смены
+ * Возвращает текст ошибки или null
+ */
+const validateStaffing = (input: Partial<ShiftInput>): string | null => {
+  const { minStaff, maxStaff, requiredRoles, coveragePriority, shiftDifficulty } = input;
+
+  if (minStaff !== undefined && !isNonNegativeInteger(minStaff)) {
+    return 'minStaff must be a non-negative integer';
+  }
+  if (maxStaff !== undefined && !isNonNegativeInteger(maxStaff)) {
+    return 'maxStaff must be a non-negative integer';
+  }
+  if (minStaff !== undefined && maxStaff !== undefined && maxStaff < minStaff) {
+    return 'maxStaff must be greater than or equal to minStaff';
+  }
+  if (requiredRoles !== undefined && (!Array.isArray(requiredRoles) || requiredRoles.some(role => typeof role !== 'string'))) {
+    return 'requiredRoles must be an array of role names';
+  }
+  if (coveragePriority !== undefined && !isNonNegativeInteger(coveragePriority)) {
+    return 'coveragePriority must be a non-negative integer';
+  }
+  if (shiftDifficulty !== undefined && (typeof shiftDifficulty !== 'number' || shiftDifficulty <= 0 || shiftDifficulty >= 10)) {
+    return 'shiftDifficulty must be a number between 0 and 10';
+  }
+
+  return null;
+};
+
 /**
  * Получить все смены
  */
 export const getAllShifts = async (req: Request, res: Response): Promise<void> => {
   try {
     const result = await pool.query<Shift>(
-      'SELECT id, name, abbreviation, color, hours, is_default as "isDefault" FROM shifts ORDER BY name ASC'
+      `SELECT ${SHIFT_COLUMNS} FROM shifts ORDER BY name ASC`
     );
     res.json(result.rows);
   } catch (error) {
@@ -24,7 +69,7 @@ export const getShiftById = async (req: Request, res: Response): Promise<void> =
   try {
     const { id } = req.params;
     const result = await pool.query<Shift>(
-      'SELECT id, name, abbreviation, color, hours, is_default as "isDefault" FROM shifts WHERE id = $1',
+      `SELECT ${SHIFT_COLUMNS} FROM shifts WHERE id = $1`,
       [id]
     );
 
@@ -45,16 +90,38 @@ export const getShiftById = async (req: Request, res: Response): Promise<void> =
  */
 export const createShift = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id, name, abbreviation, color, hours, isDefault }: ShiftInput = req.body;
+    const input: ShiftInput = req.body;
+    const { id, name, abbreviation, color, hours, startTime, endTime, isDefault } = input;
 
     if (!id || !name || !abbreviation || !color || hours === undefined) {
       res.status(400).json({ error: 'All fields are required' });
       return;
     }
 
+    const staffingError = validateStaffing(input);
+    if (staffingError) {
+      res.status(400).json({ error: staffingError });
+      return;
+    }
+
     const result = await pool.query<Shift>(
-      'INSERT INTO shifts (id, name, abbreviation, color, hours, is_default) VALUES ($1, $2, $3, $4, $5, $6) RETURNING id, name, abbreviation, color, hours, is_default as "isDefault"',
-      [id, name, abbreviation, color, hours, isDefault || false]
+      `INSERT INTO shifts (
+        id, name, abbreviation, color, hours, start_time, end_time, is_default,
+        min_staff, max_staff, required_roles, is_night, coverage_priority, shift_difficulty
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING ${SHIFT_COLUMNS}`,
+      [
+        id, name, abbreviation, color, hours,
+        startTime || null,
+        endTime || null,
+        isDefault || false,
+        input.minStaff ?? 1,
+        input.maxStaff ?? 10,
+        JSON.stringify(input.requiredRoles ?? []),
+        input.isNight ?? false,
+        input.coveragePriority ?? 1,
+        input.shiftDifficulty ?? 1.0
+      ]
     );
 
     res.status(201).json(result.rows[0]);
@@ -74,16 +141,48 @@ export const createShift = async (req: Request, res: Response): Promise<void> =>
 export const updateShift = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, abbreviation, color, hours, isDefault }: Partial<ShiftInput> = req.body;
+    const input: Partial<ShiftInput> = req.body;
+    const { name, abbreviation, color, hours, startTime, endTime, isDefault } = input;
 
     if (!name || !abbreviation || !color || hours === undefined) {
       res.status(400).json({ error: 'All fields are required' });
       return;
     }
 
+    const staffingError = validateStaffing(input);
+    if (staffingError) {
+      res.status(400).json({ error: staffingError });
+      return;
+    }
+
+    // Необязательные поля, не переданные клиентом, остаются без изменений
     const result = await pool.query<Shift>(
-      'UPDATE shifts SET name = $1, abbreviation = $2, color = $3, hours = $4, is_default = $5 WHERE id = $6 RETURNING id, name, abbreviation, color, hours, is_default as "isDefault"',
-      [name, abbreviation, color, hours, isDefault || false, id]
+      `UPDATE shifts SET
+        name = $1, abbreviation = $2, color = $3, hours = $4,
+        start_time = COALESCE($5, start_time),
+        end_time = COALESCE($6, end_time),
+        is_default = $7,
+        min_staff = COALESCE($8, min_staff),
+        max_staff = COALESCE($9, max_staff),
+        required_roles = COALESCE($10, required_roles),
+        is_night = COALESCE($11, is_night),
+        coverage_priority = COALESCE($12, coverage_priority),
+        shift_difficulty = COALESCE($13, shift_difficulty)
+      WHERE id = $14
+      RETURNING ${SHIFT_COLUMNS}`,
+      [
+        name, abbreviation, color, hours,
+        startTime || null,
+        endTime || null,
+        isDefault || false,
+        input.minStaff ?? null,
+        input.maxStaff ?? null,
+        input.requiredRoles !== undefined ? JSON.stringify(input.requiredRoles) : null,
+        input.isNight ?? null,
+        input.coveragePriority ?? null,
+        input.shiftDifficulty ?? null,
+        id
+      ]
     );
 
     if (result.rows.length === 0) {
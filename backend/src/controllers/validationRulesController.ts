@@ -0,0 +1,406 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import { ValidationRule, ValidationRuleInput } from '../models/types';
+import {
+  findUnknownPlaceholders,
+  isValidationRuleType,
+  MAX_RULE_WEIGHT,
+  MESSAGE_PLACEHOLDERS,
+  MIN_RULE_WEIGHT,
+  ruleRegistry,
+  validateRuleConfig
+} from '../services/ruleRegistry';
+
+const ENFORCEMENT_TYPES = ['error', 'warning'];
+
+// Правило вместе с его весом из rule_priorities
+const RULE_SELECT = `
+  SELECT vr.*, rp.weight_factor
+  FROM validation_rules vr
+  LEFT JOIN rule_priorities rp ON rp.rule_id = vr.id
+`;
+
+// Конвертация из snake_case (БД) в camelCase (API)
+const dbToApi = (dbRow: any): ValidationRule => ({
+  id: dbRow.id,
+  ruleType: dbRow.rule_type,
+  enabled: dbRow.enabled,
+  config: dbRow.config || {},
+  appliesToRoles: dbRow.applies_to_roles || [],
+  appliesToEmployees: dbRow.applies_to_employees || [],
+  enforcementType: dbRow.enforcement_type || 'warning',
+  customMessage: dbRow.custom_message || undefined,
+  priority: dbRow.priority,
+  weightFactor: dbRow.weight_factor != null ? Number(dbRow.weight_factor) : undefined,
+  description: dbRow.description || undefined,
+  created_at: dbRow.created_at,
+  updated_at: dbRow.updated_at,
+});
+
+/**
+ * Проверить тело запроса правила
+ * Возвращает список ошибок (пустой, если всё корректно)
+ */
+const validateRuleInput = (input: Partial<ValidationRuleInput>, ruleType: unknown): string[] => {
+  if (!isValidationRuleType(ruleType)) {
+    return [`Unknown rule type: ${ruleType}`];
+  }
+
+  const errors: string[] = [];
+
+  if (input.config !== undefined) {
+    errors.push(...validateRuleConfig(ruleType, input.config));
+  }
+
+  if (input.enforcementType !== undefined && !ENFORCEMENT_TYPES.includes(input.enforcementType)) {
+    errors.push(`enforcementType must be one of: ${ENFORCEMENT_TYPES.join(', ')}`);
+  }
+
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    errors.push('priority must be an integer');
+  }
+
+  if (input.weightFactor !== undefined && input.weightFactor !== null &&
+    (typeof input.weightFactor !== 'number' || input.weightFactor < MIN_RULE_WEIGHT || input.weightFactor > MAX_RULE_WEIGHT)) {
+    errors.push(`weightFactor must be a number from ${MIN_RULE_WEIGHT} to ${MAX_RULE_WEIGHT}`);
+  }
+
+  if (input.appliesToRoles !== undefined && input.appliesToRoles !== null &&
+    (!Array.isArray(input.appliesToRoles) || !input.appliesToRoles.every(id => Number.isInteger(id)))) {
+    errors.push('appliesToRoles must be an array of role IDs');
+  }
+
+  if (input.appliesToEmployees !== undefined && input.appliesToEmployees !== null && !Array.isArray(input.appliesToEmployees)) {
+    errors.push('appliesToEmployees must be an array');
+  }
+
+  if (input.customMessage !== undefined && input.customMessage !== null) {
+    if (typeof input.customMessage !== 'string') {
+      errors.push('customMessage must be a string');
+    } else {
+      const unknown = findUnknownPlaceholders(input.customMessage);
+      if (unknown.length > 0) {
+        errors.push(`customMessage has unknown placeholders: ${unknown.map(key => `{${key}}`).join(', ')}`);
+      }
+    }
+  }
+
+  return errors;
+};
+
+// Пустой массив в БД храним как NULL (= правило применяется ко всем)
+const toDbArray = <T>(value?: T[] | null): T[] | null =>
+  value && value.length > 0 ? value : null;
+
+/**
+ * Найти ID ролей, которых нет в таблице roles
+ */
+const findUnknownRoleIds = async (roleIds?: number[] | null): Promise<number[]> => {
+  if (!roleIds || roleIds.length === 0) return [];
+
+  const result = await pool.query('SELECT id FROM roles WHERE id = ANY($1::int[])', [roleIds]);
+  const known = new Set(result.rows.map(row => row.id));
+  return roleIds.filter(id => !known.has(id));
+};
+
+/**
+ * Сохранить вес правила; null удаляет запись, и действует вес типа правила.
+ * priority_level повторяет приоритет правила (в rule_priorities он обязателен и больше 0)
+ */
+const saveRuleWeight = async (ruleId: number | string, weightFactor: number | null): Promise<void> => {
+  if (weightFactor === null) {
+    await pool.query('DELETE FROM rule_priorities WHERE rule_id = $1', [ruleId]);
+    return;
+  }
+
+  await pool.query(
+    `INSERT INTO rule_priorities (rule_id, priority_level, weight_factor)
+     SELECT id, GREATEST(priority, 1), $2 FROM validation_rules WHERE id = $1
+     ON CONFLICT (rule_id) DO UPDATE SET weight_factor = EXCLUDED.weight_factor`,
+    [ruleId, weightFactor]
+  );
+};
+
+const fetchRule = async (ruleId: number | string): Promise<ValidationRule> => {
+  const result = await pool.query(`${RULE_SELECT} WHERE vr.id = $1`, [ruleId]);
+  return dbToApi(result.rows[0]);
+};
+
+/**
+ * GET /api/validation-rules
+ * Получить все правила (сортировка по приоритету)
+ */
+export const getAllRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await pool.query(`${RULE_SELECT} ORDER BY vr.priority ASC, vr.id ASC`);
+    res.json({ success: true, rules: result.rows.map(dbToApi) });
+  } catch (error) {
+    console.error('Error fetching validation rules:', error);
+    res.status(500).json({ error: 'Failed to fetch validation rules' });
+  }
+};
+
+/**
+ * GET /api/validation-rules/types
+ * Получить реестр типов правил (название, поля config, подсказка для генератора, подстановки сообщения)
+ */
+export const getRuleTypes = async (req: Request, res: Response): Promise<void> => {
+  const types = Object.entries(ruleRegistry).map(([type, definition]) => ({
+    type,
+    name: definition.name,
+    description: definition.description,
+    generatorHint: definition.generatorHint,
+    defaultWeight: definition.defaultWeight,
+    fields: Object.entries(definition.config).map(([name, field]) => ({ name, ...field })),
+    placeholders: definition.placeholders.map(name => ({ name, label: MESSAGE_PLACEHOLDERS[name] })),
+  }));
+
+  res.json({ success: true, types });
+};
+
+/**
+ * GET /api/validation-rules/:id
+ * Получить правило по ID
+ */
+export const getRuleById = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const result = await pool.query(`${RULE_SELECT} WHERE vr.id = $1`, [id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Validation rule not found' });
+      return;
+    }
+
+    res.json({ success: true, rule: dbToApi(result.rows[0]) });
+  } catch (error) {
+    console.error('Error fetching validation rule:', error);
+    res.status(500).json({ error: 'Failed to fetch validation rule' });
+  }
+};
+
+/**
+ * POST /api/validation-rules
+ * Создать новое правило
+ */
+export const createRule = async (req: Request, res: Response): Promise<void> => {
+  const {
+    ruleType,
+    enabled = true,
+    config = {},
+    appliesToRoles,
+    appliesToEmployees,
+    enforcementType = 'warning',
+    customMessage,
+    priority = 0,
+    weightFactor,
+    description,
+  }: ValidationRuleInput = req.body;
+
+  const errors = validateRuleInput(
+    { config, enforcementType, priority, weightFactor, appliesToRoles, appliesToEmployees, customMessage },
+    ruleType
+  );
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Invalid validation rule', details: errors });
+    return;
+  }
+
+  try {
+    const unknownRoles = await findUnknownRoleIds(appliesToRoles);
+    if (unknownRoles.length > 0) {
+      res.status(400).json({ error: 'Invalid validation rule', details: [`Unknown role IDs: ${unknownRoles.join(', ')}`] });
+      return;
+    }
+
+    const result = await pool.query(
+      `INSERT INTO validation_rules (
+        rule_type, enabled, config, applies_to_roles, applies_to_employees,
+        enforcement_type, custom_message, priority, description
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+      [
+        ruleType,
+        enabled,
+        JSON.stringify(config),
+        toDbArray(appliesToRoles),
+        toDbArray(appliesToEmployees),
+        enforcementType,
+        customMessage || null,
+        priority,
+        description || null
+      ]
+    );
+
+    const ruleId = result.rows[0].id;
+    if (weightFactor !== undefined && weightFactor !== null) {
+      await saveRuleWeight(ruleId, weightFactor);
+    }
+
+    res.status(201).json({ success: true, rule: await fetchRule(ruleId) });
+  } catch (error) {
+    console.error('Error creating validation rule:', error);
+    res.status(500).json({ error: 'Failed to create validation rule' });
+  }
+};
+
+/**
+ * PUT /api/validation-rules/:id
+ * Обновить правило
+ */
+export const updateRule = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const {
+    ruleType,
+    enabled,
+    config,
+    appliesToRoles,
+    appliesToEmployees,
+    enforcementType,
+    customMessage,
+    priority,
+    weightFactor,
+    description,
+  }: Partial<ValidationRuleInput> = req.body;
+
+  try {
+    const existing = await pool.query('SELECT rule_type, config FROM validation_rules WHERE id = $1', [id]);
+
+    if (existing.rows.length === 0) {
+      res.status(404).json({ error: 'Validation rule not found' });
+      return;
+    }
+
+    // При смене типа правила старый config проверяется по схеме нового типа
+    const targetType = ruleType ?? existing.rows[0].rule_type;
+    const targetConfig = config ?? (ruleType !== undefined ? existing.rows[0].config : undefined);
+
+    const errors = validateRuleInput(
+      { config: targetConfig, enforcementType, priority, weightFactor, appliesToRoles, appliesToEmployees, customMessage },
+      targetType
+    );
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Invalid validation rule', details: errors });
+      return;
+    }
+
+    const unknownRoles = await findUnknownRoleIds(appliesToRoles);
+    if (unknownRoles.length > 0) {
+      res.status(400).json({ error: 'Invalid validation rule', details: [`Unknown role IDs: ${unknownRoles.join(', ')}`] });
+      return;
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (ruleType !== undefined) {
+      updates.push(`rule_type = $${paramIndex++}`);
+      values.push(ruleType);
+    }
+    if (enabled !== undefined) {
+      updates.push(`enabled = $${paramIndex++}`);
+      values.push(enabled);
+    }
+    if (config !== undefined) {
+      updates.push(`config = $${paramIndex++}`);
+      values.push(JSON.stringify(config));
+    }
+    if (appliesToRoles !== undefined) {
+      updates.push(`applies_to_roles = $${paramIndex++}`);
+      values.push(toDbArray(appliesToRoles));
+    }
+    if (appliesToEmployees !== undefined) {
+      updates.push(`applies_to_employees = $${paramIndex++}`);
+      values.push(toDbArray(appliesToEmployees));
+    }
+    if (enforcementType !== undefined) {
+      updates.push(`enforcement_type = $${paramIndex++}`);
+      values.push(enforcementType);
+    }
+    if (customMessage !== undefined) {
+      updates.push(`custom_message = $${paramIndex++}`);
+      values.push(customMessage || null);
+    }
+    if (priority !== undefined) {
+      updates.push(`priority = $${paramIndex++}`);
+      values.push(priority);
+    }
+    if (description !== undefined) {
+      updates.push(`description = $${paramIndex++}`);
+      values.push(description || null);
+    }
+
+    if (updates.length === 0 && weightFactor === undefined) {
+      res.status(400).json({ error: 'No fields to update' });
+      return;
+    }
+
+    if (updates.length > 0) {
+      values.push(id);
+      await pool.query(`UPDATE validation_rules SET ${updates.join(', ')} WHERE id = $${paramIndex}`, values);
+    }
+
+    if (weightFactor !== undefined) {
+      await saveRuleWeight(id, weightFactor);
+    }
+
+    res.json({ success: true, rule: await fetchRule(id) });
+  } catch (error) {
+    console.error('Error updating validation rule:', error);
+    res.status(500).json({ error: 'Failed to update validation rule' });
+  }
+};
+
+/**
+ * PATCH /api/validation-rules/:id/toggle
+ * Включить/выключить правило
+ */
+export const toggleRule = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { enabled } = req.body;
+
+  if (typeof enabled !== 'boolean') {
+    res.status(400).json({ error: 'enabled (boolean) is required' });
+    return;
+  }
+
+  try {
+    const result = await pool.query(
+      'UPDATE validation_rules SET enabled = $1 WHERE id = $2 RETURNING id',
+      [enabled, id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Validation rule not found' });
+      return;
+    }
+
+    res.json({ success: true, rule: await fetchRule(id) });
+  } catch (error) {
+    console.error('Error toggling validation rule:', error);
+    res.status(500).json({ error: 'Failed to toggle validation rule' });
+  }
+};
+
+/**
+ * DELETE /api/validation-rules/:id
+ * Удалить правило
+ */
+export const deleteRule = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const result = await pool.query('DELETE FROM validation_rules WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Validation rule not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting validation rule:', error);
+    res.status(500).json({ error: 'Failed to delete validation rule' });
+  }
+};
@@ -0,0 +1,38 @@
+-- Миграция 005: Фоновые задачи генерации графика
+-- Дата: 2026-10-19
+-- Каждый запуск генерации получает собственную запись с прогрессом и журналом смены статусов
+
+-- 1. Несколько генераций на один месяц (история запусков)
+ALTER TABLE schedule_generations DROP CONSTRAINT IF EXISTS schedule_generations_month_year_key;
+
+-- 2. Новый статус "cancelled" для отменённых генераций
+ALTER TABLE schedule_generations DROP CONSTRAINT IF EXISTS schedule_generations_status_check;
+ALTER TABLE schedule_generations ADD CONSTRAINT schedule_generations_status_check
+    CHECK (status IN ('pending', 'in_progress', 'completed', 'failed', 'cancelled'));
+
+-- 3. Прогресс и время выполнения
+ALTER TABLE schedule_generations
+ADD COLUMN IF NOT EXISTS progress JSONB, -- Последний прогресс: фаза, итерация, лучшая оценка
+ADD COLUMN IF NOT EXISTS error_message TEXT, -- Причина ошибки генерации
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS finished_at TIMESTAMP;
+
+-- 4. Журнал смены статусов генерации
+CREATE TABLE IF NOT EXISTS schedule_generation_events (
+    id SERIAL PRIMARY KEY,
+    generation_id INTEGER NOT NULL REFERENCES schedule_generations(id) ON DELETE CASCADE,
+    status VARCHAR(50) NOT NULL,
+    progress JSONB,
+    message TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_generation_events_generation ON schedule_generation_events(generation_id);
+
+-- 5. Генерации, прерванные перезапуском сервера, больше не выполняются
+UPDATE schedule_generations
+SET status = 'failed',
+    error_message = 'Interrupted by server restart',
+    finished_at = CURRENT_TIMESTAMP,
+    updated_at = CURRENT_TIMESTAMP
+WHERE status IN ('pending', 'in_progress');
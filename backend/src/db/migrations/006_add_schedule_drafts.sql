@@ -0,0 +1,23 @@
+-- Миграция 006: Черновики сгенерированных графиков
+-- Дата: 2026-10-19
+-- Результат генерации сохраняется черновиком и попадает в schedule только после применения
+
+CREATE TABLE IF NOT EXISTS schedule_drafts (
+    id SERIAL PRIMARY KEY,
+    generation_id INTEGER NOT NULL UNIQUE REFERENCES schedule_generations(id) ON DELETE CASCADE,
+    month INTEGER NOT NULL, -- Месяц (0-11, JavaScript формат)
+    year INTEGER NOT NULL,
+    entries JSONB NOT NULL DEFAULT '[]'::jsonb, -- Сгенерированные записи [{employeeId, day, shiftId}]
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'applied', 'discarded', 'reverted')),
+    previous_entries JSONB, -- Записи месяца до применения (для восстановления)
+    applied_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_drafts_date ON schedule_drafts(year, month);
+CREATE INDEX IF NOT EXISTS idx_schedule_drafts_status ON schedule_drafts(status);
+
+DROP TRIGGER IF EXISTS update_schedule_drafts_updated_at ON schedule_drafts;
+CREATE TRIGGER update_schedule_drafts_updated_at BEFORE UPDATE ON schedule_drafts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,7 @@
+-- Миграция 007: Закреплённые ячейки графика
+-- Дата: 2026-10-19
+-- Закреплённые вручную записи автогенерация оставляет без изменений
+
+ALTER TABLE schedule ADD COLUMN IF NOT EXISTS is_locked BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_schedule_locked ON schedule(year, month) WHERE is_locked = true;
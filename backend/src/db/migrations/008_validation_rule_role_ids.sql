@@ -0,0 +1,46 @@
+-- Миграция 008: Привязка правил валидации к ролям по roles.id
+-- Дата: 2026-10-19
+-- applies_to_roles хранил строки старого перечисления ролей (manager, employee, ...) или названия ролей;
+-- теперь это массив ID из таблицы roles
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'validation_rules'
+          AND column_name = 'applies_to_roles'
+          AND udt_name <> '_int4'
+    ) THEN
+        ALTER TABLE validation_rules ADD COLUMN applies_to_role_ids INTEGER[];
+
+        -- Старые значения сопоставляются с системными ролями, остальные ищутся по названию или ID
+        UPDATE validation_rules vr
+        SET applies_to_role_ids = (
+            SELECT array_agg(DISTINCT r.id)
+            FROM unnest(vr.applies_to_roles) AS legacy(value)
+            JOIN roles r ON r.name = CASE legacy.value
+                    WHEN 'manager' THEN 'Управляющий'
+                    WHEN 'deputy_manager' THEN 'Заместитель управляющего'
+                    WHEN 'storekeeper' THEN 'Кладовщик'
+                    WHEN 'employee' THEN 'Сотрудник'
+                    ELSE legacy.value
+                END
+                OR r.id::text = legacy.value
+        )
+        WHERE vr.applies_to_roles IS NOT NULL;
+
+        -- Правило с ролями, которые не удалось сопоставить, отключается, а не распространяется на всех
+        UPDATE validation_rules
+        SET enabled = false
+        WHERE applies_to_roles IS NOT NULL
+          AND cardinality(applies_to_roles) > 0
+          AND applies_to_role_ids IS NULL;
+
+        ALTER TABLE validation_rules DROP COLUMN applies_to_roles;
+        ALTER TABLE validation_rules RENAME COLUMN applies_to_role_ids TO applies_to_roles;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_validation_rules_applies_to_roles ON validation_rules USING GIN(applies_to_roles);
+
+COMMENT ON COLUMN validation_rules.applies_to_roles IS 'Массив ID ролей (roles.id), к которым применяется правило (null = все роли)';
@@ -0,0 +1,35 @@
+-- Миграция 009: Календарь работы предприятия
+-- Дата: 2026-10-19
+-- Часы работы по дням недели хранятся в app_settings ('operating_calendar'),
+-- исключения на конкретные даты (закрыто, сокращённый или продлённый день) - в отдельной таблице
+
+-- 1. Часы работы по дням недели: массив из 7 элементов, индекс 0 - воскресенье
+-- По умолчанию как раньше: понедельник-суббота по business_hours, воскресенье закрыто
+INSERT INTO app_settings (key, value, description)
+SELECT
+    'operating_calendar',
+    jsonb_agg(jsonb_build_object('open', d <> 0, 'start', hours.start_time, 'end', hours.end_time) ORDER BY d)::text,
+    'Часы работы предприятия по дням недели (0 - воскресенье)'
+FROM generate_series(0, 6) AS d,
+    (SELECT
+        COALESCE((SELECT value::jsonb #>> '{}' FROM app_settings WHERE key = 'business_hours_start'), '08:00') AS start_time,
+        COALESCE((SELECT value::jsonb #>> '{}' FROM app_settings WHERE key = 'business_hours_end'), '22:00') AS end_time
+    ) AS hours
+GROUP BY hours.start_time, hours.end_time
+ON CONFLICT (key) DO NOTHING;
+
+-- 2. Исключения на конкретные даты
+CREATE TABLE IF NOT EXISTS operating_calendar_overrides (
+    id SERIAL PRIMARY KEY,
+    date DATE NOT NULL UNIQUE,
+    is_closed BOOLEAN NOT NULL DEFAULT false, -- Предприятие не работает
+    start_time VARCHAR(5), -- Часы работы в этот день (HH:MM); NULL - как в обычный день недели
+    end_time VARCHAR(5),
+    note TEXT, -- Причина: праздник, инвентаризация и т.п.
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+DROP TRIGGER IF EXISTS update_operating_calendar_overrides_updated_at ON operating_calendar_overrides;
+CREATE TRIGGER update_operating_calendar_overrides_updated_at BEFORE UPDATE ON operating_calendar_overrides
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
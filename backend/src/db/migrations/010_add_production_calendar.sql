@@ -0,0 +1,18 @@
+-- Миграция 010: Производственный календарь
+-- Дата: 2026-10-19
+-- Праздники, сокращённые предпраздничные дни и перенесённые рабочие дни из официального календаря
+
+-- 1. Дни, отличающиеся от обычной пятидневки (остальные дни: пн-пт рабочие, сб-вс выходные)
+CREATE TABLE IF NOT EXISTS production_calendar (
+    date DATE PRIMARY KEY,
+    day_type VARCHAR(20) NOT NULL CHECK (day_type IN ('holiday', 'shortened', 'working')),
+    -- holiday - нерабочий праздничный день или перенесённый выходной
+    -- shortened - предпраздничный день, сокращённый на 1 час
+    -- working - выходной, перенесённый на рабочий день
+    title TEXT, -- Название праздника
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 2. Смены в праздничные дни в статистике нагрузки
+ALTER TABLE employee_workload_stats
+ADD COLUMN IF NOT EXISTS holiday_shifts_count INTEGER DEFAULT 0;
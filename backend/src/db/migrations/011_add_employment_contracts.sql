@@ -0,0 +1,9 @@
+-- Миграция 011: Трудовые договоры сотрудников
+-- Дата: 2026-10-19
+-- Ставка, целевые часы в месяц и границы часов в неделю вместо единой нормы в 20 смен
+
+ALTER TABLE employees
+ADD COLUMN IF NOT EXISTS employment_rate DECIMAL(3,2) DEFAULT 1.0 CHECK (employment_rate > 0 AND employment_rate <= 1.5),
+ADD COLUMN IF NOT EXISTS target_monthly_hours DECIMAL(5,1) CHECK (target_monthly_hours >= 0), -- NULL - норма месяца × ставка
+ADD COLUMN IF NOT EXISTS min_weekly_hours DECIMAL(4,1) CHECK (min_weekly_hours >= 0),
+ADD COLUMN IF NOT EXISTS max_weekly_hours DECIMAL(4,1) CHECK (max_weekly_hours >= 0);
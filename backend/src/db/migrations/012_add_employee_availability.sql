@@ -0,0 +1,24 @@
+-- Миграция 012: Регулярная доступность сотрудников по дням недели
+-- Дата: 2026-10-19
+-- Если у сотрудника есть записи, действующие на дату, он доступен только в указанные окна;
+-- без записей сотрудник доступен всегда
+
+CREATE TABLE IF NOT EXISTS employee_availability (
+    id SERIAL PRIMARY KEY,
+    employee_id VARCHAR(255) NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 - воскресенье
+    start_time VARCHAR(5) NOT NULL, -- HH:MM
+    end_time VARCHAR(5) NOT NULL,   -- HH:MM; раньше start_time - окно до следующих суток
+    valid_from DATE, -- NULL - без ограничения
+    valid_to DATE,
+    note TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (valid_from IS NULL OR valid_to IS NULL OR valid_from <= valid_to)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_availability_employee ON employee_availability(employee_id);
+
+DROP TRIGGER IF EXISTS update_employee_availability_updated_at ON employee_availability;
+CREATE TRIGGER update_employee_availability_updated_at BEFORE UPDATE ON employee_availability
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,8 @@
+-- Миграция 013: Объяснения назначений автогенерации
+-- Дата: 2026-10-19
+-- Для каждого решения генератора сохраняются рассмотренные кандидаты, разбивка их оценки
+-- и причины отказа; незаполненные позиции тоже попадают в список
+
+ALTER TABLE schedule_drafts
+ADD COLUMN IF NOT EXISTS explanations JSONB NOT NULL DEFAULT '[]'::jsonb;
+-- [{day, shiftId, source, employeeIds, unfilled, candidates: [{employeeId, selected, score?, rejection?}], note?}]
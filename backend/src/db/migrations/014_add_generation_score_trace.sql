@@ -0,0 +1,8 @@
+-- Миграция 014: Ход оптимизации генерации
+-- Дата: 2026-10-19
+-- Метаэвристика записывает оценку графика по итерациям, чтобы было видно,
+-- как быстро поиск сходится и стоит ли увеличивать бюджет итераций или время
+
+ALTER TABLE schedule_generations
+ADD COLUMN IF NOT EXISTS score_trace JSONB NOT NULL DEFAULT '[]'::jsonb;
+-- [{iteration, elapsedMs, score, bestScore}]
@@ -34,6 +34,14 @@ export interface RoleInput {
   description?: string;
 }
 
+// Трудовой договор сотрудника
+export interface EmploymentContract {
+  rate: number;                 // Ставка: 1 - полная, 0.5 - половина ставки
+  targetMonthlyHours?: number;  // Целевые часы в месяц (не задано - норма месяца × ставка)
+  minWeeklyHours?: number;
+  maxWeeklyHours?: number;
+}
+
 // Сотрудник с ролью
 export interface Employee {
   id: string;
@@ -41,6 +49,7 @@ export interface Employee {
   roleId?: number;                  // Ссылка на роль
   role?: Role;                      // Объект роли (при JOIN запросах)
   excludeFromHours?: boolean;
+  contract: EmploymentContract;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -50,6 +59,31 @@ export interface EmployeeInput {
   name: string;
   roleId?: number;
   excludeFromHours?: boolean;
+  contract?: EmploymentContract;
+}
+
+// Регулярная доступность сотрудника
+export interface EmployeeAvailability {
+  id: number;
+  employeeId: string;
+  weekday: number;    // 0 - воскресенье (как Date.getDay())
+  startTime: string;  // HH:MM
+  endTime: string;    // HH:MM; раньше startTime - окно до следующих суток
+  validFrom?: string; // YYYY-MM-DD, не задано - без ограничения
+  validTo?: string;
+  note?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface EmployeeAvailabilityInput {
+  employeeId: string;
+  weekday: number;
+  startTime: string;
+  endTime: string;
+  validFrom?: string | null;
+  validTo?: string | null;
+  note?: string | null;
 }
 
 // LEGACY: старые типы для обратной совместимости (будут удалены позже)
@@ -64,6 +98,12 @@ export interface Shift {
   startTime?: string; // HH:MM формат
   endTime?: string;   // HH:MM формат
   isDefault?: boolean;
+  minStaff?: number;          // Минимум сотрудников на смене
+  maxStaff?: number;          // Максимум сотрудников на смене
+  requiredRoles?: string[];   // Названия обязательных ролей
+  isNight?: boolean;          // Ночная смена
+  coveragePriority?: number;  // Приоритет покрытия (больше = важнее)
+  shiftDifficulty?: number;   // Сложность смены для балансировки нагрузки
   created_at?: Date;
   updated_at?: Date;
 }
@@ -77,6 +117,12 @@ export interface ShiftInput {
   startTime?: string;
   endTime?: string;
   isDefault?: boolean;
+  minStaff?: number;
+  maxStaff?: number;
+  requiredRoles?: string[];
+  isNight?: boolean;
+  coveragePriority?: number;
+  shiftDifficulty?: number;
 }
 
 export interface ScheduleEntry {
@@ -86,6 +132,7 @@ export interface ScheduleEntry {
   month: number;
   year: number;
   shiftId: string;
+  isLocked?: boolean; // Закреплено вручную, автогенерация не меняет
   created_at?: Date;
   updated_at?: Date;
 }
@@ -96,6 +143,7 @@ export interface ScheduleEntryInput {
   month: number;
   year: number;
   shiftId: string;
+  isLocked?: boolean;
 }
 
 // Настройки приложения
@@ -114,6 +162,47 @@ export interface AppSettingInput {
   description?: string;
 }
 
+// Календарь работы предприятия
+export interface OperatingDay {
+  open: boolean;
+  start: string; // HH:MM
+  end: string;   // HH:MM
+}
+
+export interface OperatingCalendarOverride {
+  id: number;
+  date: string; // YYYY-MM-DD
+  isClosed: boolean;
+  startTime?: string; // Не задано - часы обычного дня недели
+  endTime?: string;
+  note?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface OperatingCalendarOverrideInput {
+  date: string;
+  isClosed?: boolean;
+  startTime?: string | null;
+  endTime?: string | null;
+  note?: string | null;
+}
+
+// Производственный календарь
+export type ProductionDayType = 'holiday' | 'shortened' | 'working';
+
+export interface ProductionCalendarDay {
+  date: string; // YYYY-MM-DD
+  type: ProductionDayType;
+  title?: string;
+}
+
+export interface MonthNorm {
+  workingDays: number;
+  shortenedDays: number;
+  normHours: number; // Норма часов при 40-часовой неделе
+}
+
 // Правила валидации
 export type ValidationRuleType =
   | 'max_consecutive_shifts'
@@ -133,7 +222,12 @@ export type ValidationRuleType =
   | 'max_consecutive_work_days'
   | 'max_consecutive_days_off'
   | 'employee_day_off'
-  | 'approved_day_off_requests';
+  | 'approved_day_off_requests'
+  | 'min_rest_between_shifts'
+  | 'required_roles_per_shift'
+  | 'max_shifts_per_week'
+  | 'max_hours_per_week'
+  | 'max_hours_per_month';
 
 export type EnforcementType = 'warning' | 'error' | 'info';
 
@@ -142,11 +236,12 @@ export interface ValidationRule {
   ruleType: ValidationRuleType;
   enabled: boolean;
   config: Record<string, any>; // JSON object
-  appliesToRoles?: EmployeeRole[];
+  appliesToRoles?: number[]; // Array of role IDs (roles.id)
   appliesToEmployees?: string[]; // Array of employee IDs
   enforcementType?: EnforcementType;
   customMessage?: string;
   priority: number;
+  weightFactor?: number; // Вес нарушения из rule_priorities; без него действует вес типа правила
   description?: string;
   created_at?: Date;
   updated_at?: Date;
@@ -156,11 +251,12 @@ export interface ValidationRuleInput {
   ruleType: ValidationRuleType;
   enabled: boolean;
   config: Record<string, any>;
-  appliesToRoles?: EmployeeRole[];
+  appliesToRoles?: number[]; // Array of role IDs (roles.id)
   appliesToEmployees?: string[];
   enforcementType?: EnforcementType;
   customMessage?: string;
   priority?: number;
+  weightFactor?: number | null; // null - вернуть вес типа правила
   description?: string;
 }
 
@@ -191,6 +287,8 @@ export interface EmployeePreference {
   employeeId: string;
   preferenceType: PreferenceType;
   targetDate?: string; // ISO date string
+  preferenceStartDate?: string; // Период пожелания смены без targetDate (не задано - без ограничения)
+  preferenceEndDate?: string;
   targetShiftId?: string;
   reasonId?: number;
   priority: number;
@@ -204,6 +302,8 @@ export interface EmployeePreferenceInput {
   employeeId: string;
   preferenceType: PreferenceType;
   targetDate?: string;
+  preferenceStartDate?: string;
+  preferenceEndDate?: string;
   targetShiftId?: string;
   reasonId?: number;
   priority?: number;
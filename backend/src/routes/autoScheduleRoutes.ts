@@ -10,9 +10,30 @@ const autoScheduleController = new AutoScheduleController();
  * Implements the AutoSched system endpoints
  */
 
-// Generate schedule for a specific month/year
+// Start background generation for a specific month/year
 router.post('/generate', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.generateSchedule);
 
+// Get status, progress and result of a background generation
+router.get('/generations/:id', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.getGeneration);
+
+// Cancel a running generation
+router.post('/generations/:id/cancel', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.cancelGeneration);
+
+// Compare a generated draft with the current schedule
+router.get('/generations/:id/diff', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.getDraftDiff);
+
+// Replace the month's schedule with a generated draft
+router.post('/generations/:id/apply', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.applyDraft);
+
+// Discard a generated draft
+router.post('/generations/:id/discard', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.discardDraft);
+
+// Explain the generator's decisions for a cell of the applied (or a given) draft
+router.get('/explanations', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.getAssignmentExplanations);
+
+// Restore the schedule that was in place before the last applied draft
+router.post('/restore-previous', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.restorePreviousSchedule);
+
 // Get generation history and status
 router.get('/history', authenticateToken, requirePermission('view_statistics'), autoScheduleController.getGenerationHistory);
 
@@ -22,12 +43,22 @@ router.post('/validate', authenticateToken, requirePermission('manage_schedule')
 // Get suggested improvements for current schedule
 router.post('/suggest-improvements', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.suggestImprovements);
 
+// Find conflicting rules, staffing levels and day-offs that make the month infeasible
+router.post('/diagnose', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.diagnoseSchedule);
+
 // Apply specific optimization to schedule
 router.post('/optimize', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.optimizeSchedule);
 
 // Get employee workload statistics
 router.get('/workload-stats', authenticateToken, requirePermission('view_statistics'), autoScheduleController.getWorkloadStats);
 
+// Get cumulative night/weekend/holiday burden over recent months
+router.get('/fairness', authenticateToken, requirePermission('view_statistics'), autoScheduleController.getFairnessReport);
+
+// Get and save the default weights of the schedule objective
+router.get('/objective-weights', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.getObjectiveWeights);
+router.put('/objective-weights', authenticateToken, requirePermission('manage_settings'), autoScheduleController.updateObjectiveWeights);
+
 // Get available schedule templates
 router.get('/templates', authenticateToken, requirePermission('manage_schedule'), autoScheduleController.getScheduleTemplates);
 
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import {
+  getAvailability,
+  createAvailability,
+  updateAvailability,
+  deleteAvailability,
+} from '../controllers/availabilityController';
+
+const router = Router();
+
+router.get('/', getAvailability);
+router.post('/', createAvailability);
+router.put('/:id', updateAvailability);
+router.delete('/:id', deleteAvailability);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import {
+  getOperatingCalendar,
+  updateOperatingCalendar,
+  getOverrides,
+  upsertOverride,
+  deleteOverride,
+} from '../controllers/operatingCalendarController';
+
+const router = Router();
+
+router.get('/', getOperatingCalendar);
+router.put('/', updateOperatingCalendar);
+
+router.get('/overrides', getOverrides);
+router.post('/overrides', upsertOverride);
+router.delete('/overrides/:id', deleteOverride);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import {
+  getProductionCalendar,
+  getProductionCalendarYears,
+  importCalendar,
+  deleteCalendarYear,
+} from '../controllers/productionCalendarController';
+
+const router = Router();
+
+router.get('/', getProductionCalendar);
+router.get('/years', getProductionCalendarYears);
+router.post('/import', importCalendar);
+router.delete('/:year', deleteCalendarYear);
+
+export default router;
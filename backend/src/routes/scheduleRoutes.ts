@@ -7,7 +7,8 @@ import {
   deleteScheduleEntry,
   deleteScheduleByDateAndEmployee,
   bulkUpsertSchedule,
-  validateScheduleController
+  validateScheduleController,
+  setScheduleEntryLock
 } from '../controllers/scheduleController';
 
 const router = Router();
@@ -42,6 +43,12 @@ router.post('/', createScheduleEntry);
  */
 router.put('/:id', updateScheduleEntry);
 
+/**
+ * @route   PATCH /api/schedule/:id/lock
+ * @desc    Закрепить/открепить запись (автогенерация не меняет закреплённые записи)
+ */
+router.patch('/:id/lock', setScheduleEntryLock);
+
 /**
  * @route   DELETE /api/schedule/:id
  * @desc    Удалить запись из графика
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import {
+  getAllRules,
+  getRuleTypes,
+  getRuleById,
+  createRule,
+  updateRule,
+  toggleRule,
+  deleteRule,
+} from '../controllers/validationRulesController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// Изменение правил доступно только при наличии права manage_validation_rules
+const canManageRules = [authenticateToken, requirePermission('manage_validation_rules')];
+
+router.get('/', getAllRules);
+router.get('/types', getRuleTypes);
+router.get('/:id', getRuleById);
+router.post('/', ...canManageRules, createRule);
+router.put('/:id', ...canManageRules, updateRule);
+router.patch('/:id/toggle', ...canManageRules, toggleRule);
+router.delete('/:id', ...canManageRules, deleteRule);
+
+export default router;
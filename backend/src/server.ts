@@ -14,6 +14,10 @@ import preferenceReasonsRoutes from './routes/preferenceReasonsRoutes';
 import roleRoutes from './routes/roleRoutes';
 import databaseRoutes from './routes/databaseRoutes';
 import autoScheduleRoutes from './routes/autoScheduleRoutes';
+import validationRulesRoutes from './routes/validationRulesRoutes';
+import operatingCalendarRoutes from './routes/operatingCalendarRoutes';
+import productionCalendarRoutes from './routes/productionCalendarRoutes';
+import availabilityRoutes from './routes/availabilityRoutes';
 
 // Загрузка переменных окружения
 dotenv.config();
@@ -72,6 +76,10 @@ app.use('/api/preference-reasons', preferenceReasonsRoutes);
 app.use('/api/roles', roleRoutes);
 app.use('/api/database', databaseRoutes);
 app.use('/api/auto-schedule', autoScheduleRoutes);
+app.use('/api/validation-rules', validationRulesRoutes);
+app.use('/api/operating-calendar', operatingCalendarRoutes);
+app.use('/api/production-calendar', productionCalendarRoutes);
+app.use('/api/availability', availabilityRoutes);
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -97,6 +105,10 @@ app.get('/', (req: Request, res: Response) => {
       roles: '/api/roles',
       database: '/api/database',
       autoSchedule: '/api/auto-schedule',
+      validationRules: '/api/validation-rules',
+      operatingCalendar: '/api/operating-calendar',
+      productionCalendar: '/api/production-calendar',
+      availability: '/api/availability',
       health: '/health'
     }
   });
@@ -1,4 +1,32 @@
 import pool from '../config/database';
+import { EmploymentContract, MonthNorm, ProductionCalendarDay, ValidationRuleType } from '../models/types';
+import {
+  getRuleTypesByHint,
+  isValidationRuleType,
+  renderMessageTemplate,
+  ruleRegistry,
+  RuleScoreScope
+} from './ruleRegistry';
+import { getMonthOperatingHours, OperatingHours } from './operatingCalendar';
+import { calculateMonthNorm, getProductionCalendarMonth, isNonWorkingDay } from './productionCalendar';
+import { contractFromRow, getTargetMonthlyHours } from './employmentContract';
+import { AvailabilityWindow, fitsAvailability, getMonthAvailability } from './employeeAvailability';
+import { getBurdenScore, getFairnessLedger } from './fairnessLedger';
+import {
+  CapacityDay,
+  CapacityEmployee,
+  ConflictCause,
+  diagnoseFeasibility,
+  FeasibilityModel,
+  InfeasibilityDiagnosis,
+  LimitKind
+} from './infeasibilityDiagnosis';
+import {
+  DEFAULT_OBJECTIVE_WEIGHTS,
+  getObjectiveWeights,
+  OBJECTIVE_KEYS,
+  ObjectiveWeights
+} from './objectiveWeights';
 
 /**
  * AutoScheduler - Core algorithm for intelligent schedule generation
@@ -11,12 +39,56 @@ export interface ScheduleGenerationOptions {
   options?: {
     generationId?: number;
     algorithm?: 'greedy' | 'constraint' | 'hybrid';
-    optimizationFocus?: 'coverage' | 'balance' | 'preferences';
+    optimizationFocus?: OptimizationFocus;
+    objectiveWeights?: Partial<ObjectiveWeights>; // Overrides the saved default weights
     maxIterations?: number;
     timeoutMs?: number;
+    scope?: GenerationScope;
+    onProgress?: (progress: GenerationProgress) => void;
+    signal?: AbortSignal;
   };
 }
 
+export type OptimizationFocus = 'coverage' | 'balance' | 'preferences';
+
+/**
+ * Part of the month to regenerate; assignments outside of it are kept as they are
+ */
+export interface GenerationScope {
+  startDay?: number;
+  endDay?: number;
+  employeeIds?: string[];
+}
+
+/**
+ * Whether a cell belongs to the part of the month a generation regenerates
+ */
+export const isInGenerationScope = (scope: GenerationScope, employeeId: string, day: number): boolean => {
+  const { startDay, endDay, employeeIds } = scope;
+  if (startDay !== undefined && day < startDay) return false;
+  if (endDay !== undefined && day > endDay) return false;
+  if (employeeIds && employeeIds.length > 0 && !employeeIds.includes(employeeId)) return false;
+  return true;
+};
+
+export type GenerationPhase = 'loading' | 'scheduling' | 'optimizing' | 'validating';
+
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  iteration: number;
+  bestScore: number | null;
+}
+
+/**
+ * Thrown when a running generation is cancelled through its AbortSignal
+ */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Schedule generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
 export interface ValidationResult {
   isValid: boolean;
   violations: RuleViolation[];
@@ -31,12 +103,26 @@ export interface ScheduleResult {
   violations: RuleViolation[];
   metrics: ScheduleMetrics;
   optimizations?: OptimizationResult[];
+  explanations?: AssignmentExplanation[];
+  scoreTrace?: ScoreTracePoint[];
+}
+
+/**
+ * Score of the schedule during the metaheuristic search; iterations count from the start of the run
+ */
+export interface ScoreTracePoint {
+  iteration: number;
+  elapsedMs: number;
+  score: number;     // Schedule the search is at
+  bestScore: number; // Best schedule found so far
 }
 
 export interface ScheduleEntry {
   employeeId: string;
   day: number;
   shiftId: string;
+  locked?: boolean; // Pinned by a manager, generation keeps it as is
+  fixed?: boolean;  // Not to be changed by this run (pinned or outside the regenerated scope)
   violation?: string;
 }
 
@@ -46,10 +132,97 @@ export interface RuleViolation {
   employeeId?: string;
   day?: number;
   shiftId?: string;
+  actual?: number; // Measured value that broke the rule (streak length, head count, hours...)
+  limit?: number;  // Value allowed by the rule config
   message: string;
   priority: number;
+  weight: number; // Weight of the rule in the schedule score
+}
+
+/**
+ * Parts of an employee's score for a shift, as used to rank candidates
+ */
+export interface ScoreBreakdown {
+  base: number;
+  preference: number;    // Preferred (+) or avoided (-) shift, weighted by the preference
+  balance: number;       // Hours so far against the contract target
+  weeklyMinimum: number; // Week still below the contract minimum
+  fairness: number;      // Night, weekend and holiday rotation
+  role: number;          // Shift asks for the employee's role
+  consecutive: number;   // Penalty for a long streak of work days
+  total: number;
+}
+
+export interface CandidateExplanation {
+  employeeId: string;
+  selected: boolean;
+  score?: ScoreBreakdown; // Set for employees who could take the shift
+  rejection?: string;     // Why the employee could not take it
+}
+
+/**
+ * Reasoning behind one staffing decision: who was considered for a day/shift and who got it.
+ * Decisions are recorded in order, so the last one mentioning a cell explains its final state.
+ */
+export interface AssignmentExplanation {
+  day: number;
+  shiftId: string;
+  source: 'greedy' | 'constraint' | 'optimizer';
+  employeeIds: string[]; // Assigned by this decision
+  unfilled: number;      // Positions left empty
+  candidates: CandidateExplanation[];
+  note?: string;
+}
+
+// Score parts are stored with one decimal, enough to compare candidates
+const roundBreakdown = (breakdown: ScoreBreakdown): ScoreBreakdown =>
+  Object.fromEntries(
+    Object.entries(breakdown).map(([key, value]) => [key, Math.round(value * 10) / 10])
+  ) as unknown as ScoreBreakdown;
+
+const standardDeviation = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / values.length);
+};
+
+/**
+ * Change an optimizer may make to the schedule
+ */
+interface ScheduleMove {
+  apply: (schedule: ScheduleEntry[]) => ScheduleEntry[];
+  entries: ScheduleEntry[]; // Entries the move creates or changes, explained once it is kept
+  removed: ScheduleEntry[]; // Entries of the schedule the move replaces
+  note: string;
+}
+
+/**
+ * Schedule score split into parts that depend on one employee or one day, so that
+ * a move is rescored only for the employees and days it touches
+ */
+interface ScoreState {
+  schedule: ScheduleEntry[];
+  byEmployee: Map<string, ScheduleEntry[]>;
+  byDay: Map<number, ScheduleEntry[]>;
+  // Weighted violations of the employee, day and month-wide rules (see RuleScoreScope)
+  employeePenalty: Map<string, number>;
+  dayPenalty: Map<number, number>;
+  monthPenalty: number;
+  // Objective terms before weighting
+  employeeTerms: Map<string, EmployeeObjectiveTerms>;
+  dayCoverage: Map<number, number>;
+  score: number;
+}
+
+interface EmployeeObjectiveTerms {
+  hours: number;
+  burden: number;      // Night, weekend and holiday shifts of this month
+  preferences: number;
 }
 
+// Structured data of a violation, used to fill the rule's custom message template
+type ViolationData = Pick<RuleViolation, 'employeeId' | 'day' | 'shiftId' | 'actual' | 'limit'>;
+
 export interface ScheduleMetrics {
   totalShifts: number;
   coveragePercentage: number;
@@ -74,8 +247,9 @@ export interface EmployeeData {
   roleName: string;
   rolePermissions: any;
   excludeFromHours: boolean;
+  contract: EmploymentContract;
   preferences: EmployeePreference[];
-  availability: EmployeeAvailability[];
+  availability: Map<number, AvailabilityWindow[]>; // day -> windows; days without entries are unrestricted
 }
 
 export interface ShiftData {
@@ -98,19 +272,18 @@ export interface EmployeePreference {
   id: string;
   employeeId?: string;
   preferenceType: string;
-  targetDate: Date;
+  targetDate?: Date;      // Single-day preference (always set for day_off)
+  startDate?: string;     // YYYY-MM-DD; shift preferences without targetDate apply
+  endDate?: string;       // from startDate to endDate, a missing bound is open-ended
   targetShiftId?: string;
   status: string;
   priority: number;
+  reasonPriority?: number; // Priority of the preference reason, higher is more important
+  weight?: number;         // Multiplier for preference bonuses and penalties, 1 when missing
 }
 
-export interface EmployeeAvailability {
-  employeeId: string;
-  date: Date;
-  isAvailable: boolean;
-  preferredShifts?: string[];
-  avoidedShifts?: string[];
-}
+// Approved day-off request of the month being generated
+type DayOffRequest = EmployeePreference & { targetDate: Date };
 
 export interface ValidationRule {
   id: number;
@@ -119,11 +292,97 @@ export interface ValidationRule {
   config: any;
   enforcementType: 'error' | 'warning';
   priority: number;
-  appliesToRoles: string[];
+  appliesToRoles: number[]; // roles.id
   appliesToEmployees: string[];
   description: string;
+  customMessage?: string; // Template with {employee}, {day}, {date}, {shift}, {actual}, {limit}
+  weight: number;         // rule_priorities.weight_factor, or the rule type's default weight
+}
+
+/**
+ * Search budget of a run (timeoutMs, maxIterations as evaluated moves) and the part of it
+ * allotted to the current phase
+ */
+interface SearchBudget {
+  startedAt: number;
+  deadline: number;
+  maxIterations: number;
+  iterationsUsed: number;
+  phaseStartedAt: number;
+  phaseDeadline: number;
+  phaseIterations: number;
+  phaseIterationsLeft: number;
+}
+
+// Internal CSP variable: one staffing position on a given day/shift
+interface CspSlot {
+  day: number;
+  shift: ShiftData;
+  requiredRole?: string;
+  requiresManager?: boolean;
+  domain: EmployeeData[];
 }
 
+// Rules that can be checked on a partial schedule: adding an assignment can only add violations
+const CSP_INCREMENTAL_RULES: string[] = getRuleTypesByHint('incremental');
+const COVERAGE_RULES: string[] = getRuleTypesByHint('coverage');
+
+// Validators of the day rules also take the days to check (all days of the month if omitted)
+type RuleValidator = (
+  rule: ValidationRule,
+  schedule: ScheduleEntry[],
+  month: number,
+  year: number,
+  days?: number[]
+) => RuleViolation[];
+
+// How far (in days) an assignment can affect other days through incremental rules
+const CSP_PROPAGATION_WINDOW = 7;
+const CSP_MAX_BACKTRACKS = 50000;
+
+// Days of the neighbouring months loaded as read-only context for streak and rest rules
+const BOUNDARY_CONTEXT_DAYS = 14;
+
+// Long-running phases hand control back to the event loop at least this often
+const YIELD_INTERVAL_MS = 50;
+
+// Score penalty for a violation of a rule with weight 1
+const VIOLATION_PENALTY = 100;
+
+// Objective terms before weighting: an hour of a filled required position (times the shift's
+// coverage priority), a point of spread in hours (% of the contract target) and in unpleasant
+// shifts, and the extra share an overtime hour costs on top of a regular one. An hour of
+// coverage is worth more than an overtime hour costs (1 + OVERTIME_SURCHARGE), so with equal
+// weights staffing a required position always pays for itself whatever the shift's length
+const COVERAGE_HOUR_SCORE = 2;
+const HOURS_SPREAD_PENALTY = 2;
+const BURDEN_SPREAD_PENALTY = 10;
+const OVERTIME_SURCHARGE = 0.5;
+
+// Accepted moves per focus optimizer run
+const FOCUS_OPTIMIZER_MAX_MOVES = 200;
+// Most and least loaded employees the balance optimizer moves shifts between
+const BALANCE_CANDIDATES = 3;
+
+// Search budget of a run when the options do not set one, and its upper limits
+const DEFAULT_MAX_ITERATIONS = 2000;
+const DEFAULT_TIMEOUT_MS = 30000;
+export const MAX_SEARCH_ITERATIONS = 100000;
+export const MAX_SEARCH_TIMEOUT_MS = 300000;
+// Share of what is left of the budget the scheduling phase (CSP or hybrid annealing) gets
+// when the optimizing phase searches too; whatever it does not use carries over
+const SCHEDULING_BUDGET_SHARE = 0.5;
+// Simulated annealing: a move losing T points is accepted with probability 1/e; the
+// temperature cools geometrically from the start to the end value as the budget is used
+const ANNEALING_START_TEMPERATURE = 50;
+const ANNEALING_END_TEMPERATURE = 0.5;
+// Tries to build a random move before the search gives up on the schedule
+const RANDOM_MOVE_ATTEMPTS = 50;
+// Score trace: a point every TRACE_INTERVAL iterations and on every new best; once
+// MAX_TRACE_POINTS is reached every other point is dropped
+const TRACE_INTERVAL = 10;
+const MAX_TRACE_POINTS = 500;
+
 /**
  * Main AutoScheduler class
  */
@@ -132,6 +391,42 @@ export class AutoScheduler {
   private shifts: ShiftData[] = [];
   private validationRules: ValidationRule[] = [];
   private daysInMonth: number = 0;
+  private month: number = 0;
+  private year: number = 0;
+  private onProgress?: (progress: GenerationProgress) => void;
+  private abortSignal?: AbortSignal;
+  private lastYieldAt: number = 0;
+  private currentPhase?: GenerationPhase;
+  private scope: GenerationScope = {};
+  // Work shifts of the adjacent months, days relative to the current month
+  // (previous month: ..., -1, 0; next month: daysInMonth + 1, ...)
+  private boundaryContext: ScheduleEntry[] = [];
+  // Opening hours per day of the month; days missing from the map are closed
+  private operatingHours = new Map<number, OperatingHours>();
+  // Working days and norm hours of the month from the production calendar
+  private monthNorm?: MonthNorm;
+  private productionCalendar = new Map<number, ProductionCalendarDay>();
+  // Night, weekend and holiday burden of the previous months per employee; employees
+  // without history get the team average so they are neither spared nor singled out
+  private pastBurden = new Map<string, number>();
+  // Staffing decisions of the current run, in the order they were made
+  private explanations: AssignmentExplanation[] = [];
+  // Weights of the schedule objective: saved defaults, overridden per generation
+  private objectiveWeights: ObjectiveWeights = DEFAULT_OBJECTIVE_WEIGHTS;
+  // Focus optimizer runs of the current generation
+  private optimizations: OptimizationResult[] = [];
+  // One budget for all searches of the run, split between the phases
+  private searchBudget: SearchBudget = {
+    startedAt: 0,
+    deadline: 0,
+    maxIterations: 0,
+    iterationsUsed: 0,
+    phaseStartedAt: 0,
+    phaseDeadline: 0,
+    phaseIterations: 0,
+    phaseIterationsLeft: 0
+  };
+  private scoreTrace: ScoreTracePoint[] = [];
 
   /**
    * Generate schedule for specified month/year
@@ -139,13 +434,28 @@ export class AutoScheduler {
   async generateSchedule(params: ScheduleGenerationOptions): Promise<ScheduleResult> {
     const { month, year, options = {} } = params;
     const startTime = Date.now();
+    this.onProgress = options.onProgress;
+    this.abortSignal = options.signal;
+    this.lastYieldAt = Date.now();
+    this.currentPhase = undefined;
+    this.scope = options.scope || {};
+    this.explanations = [];
+    this.optimizations = [];
+    this.scoreTrace = [];
+    this.resetSearchBudget(
+      options.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+      options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      startTime
+    );
 
     try {
       // Load data
+      await this.checkpoint('loading', 0, null);
       await this.loadData(month, year);
+      this.objectiveWeights = { ...this.objectiveWeights, ...options.objectiveWeights };
 
-      // Initialize empty schedule
-      let schedule: ScheduleEntry[] = [];
+      // Start from pinned cells and everything outside the regenerated scope
+      let schedule: ScheduleEntry[] = await this.getFixedEntries(month, year);
 
       // Get approved day-offs and mark them as fixed constraints
       const approvedDayOffs = await this.getApprovedDayOffs(month, year);
@@ -155,24 +465,34 @@ export class AutoScheduler {
 
       // Phase 2: Main scheduling algorithm
       const algorithm = options.algorithm || 'hybrid';
+      // A hybrid run is annealed in this phase, so without a focus the optimizing phase
+      // has nothing left to search and the whole budget goes here
+      const annealed = algorithm === 'hybrid';
+      this.startBudgetPhase(annealed && !options.optimizationFocus ? 1 : SCHEDULING_BUDGET_SHARE);
+      await this.checkpoint('scheduling', 0, null);
 
       switch (algorithm) {
         case 'greedy':
           schedule = this.greedySchedule(schedule, month, year, approvedDayOffs);
           break;
         case 'constraint':
-          schedule = this.constraintSatisfactionSchedule(schedule, month, year, approvedDayOffs);
+          schedule = await this.constraintSatisfactionSchedule(
+            schedule, month, year, approvedDayOffs, Math.max(0, this.searchBudget.phaseDeadline - Date.now())
+          );
           break;
         case 'hybrid':
         default:
-          schedule = this.hybridSchedule(schedule, month, year, approvedDayOffs);
+          schedule = await this.hybridSchedule(schedule, month, year, approvedDayOffs);
           break;
       }
 
-      // Phase 3: Optimize and balance
-      schedule = this.optimizeSchedule(schedule, month, year, options.optimizationFocus);
+      // Phase 3: Optimize and balance with the rest of the budget
+      this.startBudgetPhase(1);
+      await this.checkpoint('optimizing', 0, null);
+      schedule = await this.optimizeSchedule(schedule, month, year, options.optimizationFocus, annealed);
 
       // Phase 4: Validate final schedule
+      await this.checkpoint('validating', 0, null);
       const validationResult = await this.validateScheduleIntegrity(schedule, month, year);
 
       const totalTime = Date.now() - startTime;
@@ -180,15 +500,46 @@ export class AutoScheduler {
 
       return {
         success: validationResult.errorCount === 0,
-        schedule,
+        // The merged month is returned; the fixed marker is internal to the run
+        schedule: schedule.map(({ fixed, ...entry }) => entry),
         violations: validationResult.violations,
         metrics,
-        optimizations: []
+        optimizations: this.optimizations,
+        explanations: this.explanations,
+        scoreTrace: this.scoreTrace
       };
 
     } catch (error) {
-      console.error('Error in generateSchedule:', error);
+      if (!(error instanceof GenerationCancelledError)) {
+        console.error('Error in generateSchedule:', error);
+      }
       throw error;
+    } finally {
+      this.onProgress = undefined;
+      this.abortSignal = undefined;
+      this.scope = {};
+    }
+  }
+
+  /**
+   * Report progress, stop if the run was cancelled and periodically yield
+   * to the event loop so a long search does not block other requests
+   */
+  private async checkpoint(phase: GenerationPhase, iteration: number, bestScore: number | null): Promise<void> {
+    if (this.abortSignal?.aborted) {
+      throw new GenerationCancelledError();
+    }
+
+    const phaseChanged = phase !== this.currentPhase;
+    this.currentPhase = phase;
+    if (!phaseChanged && Date.now() - this.lastYieldAt < YIELD_INTERVAL_MS) return;
+
+    this.onProgress?.({ phase, iteration, bestScore });
+    await new Promise<void>(resolve => setImmediate(resolve));
+    this.lastYieldAt = Date.now();
+
+    if (this.abortSignal?.aborted) {
+      throw new GenerationCancelledError();
     }
   }
 
@@ -223,6 +574,160 @@ export class AutoScheduler {
     }
   }
 
+  /**
+   * Find the rules, staffing levels and approved day-offs that make the month infeasible,
+   * and the cheapest change that resolves them
+   */
+  async diagnoseInfeasibility(params: { month: number; year: number }): Promise<InfeasibilityDiagnosis> {
+    const { month, year } = params;
+
+    await this.loadData(month, year);
+    return diagnoseFeasibility(this.buildFeasibilityModel(month, year));
+  }
+
+  /**
+   * Capacity model of the whole month: open positions per day and what each employee may work
+   */
+  private buildFeasibilityModel(month: number, year: number): FeasibilityModel {
+    const hardRules = this.validationRules.filter(r => r.enforcementType === 'error');
+    const managerMinimum = this.getManagerMinimum();
+    const staffedShifts = this.shifts.filter(shift => shift.id !== 'Выходной' && shift.minStaff > 0);
+    const roleRequirements = hardRules
+      .filter(r => r.ruleType === 'required_roles_per_shift' && r.config.role)
+      .map(r => ({ role: r.config.role as string, count: r.config.min_count || 1 }));
+
+    const days: CapacityDay[] = [];
+    const openShifts = new Map<number, ShiftData[]>();
+
+    for (let day = 1; day <= this.daysInMonth; day++) {
+      const shiftsToCover = staffedShifts.filter(shift => this.isShiftOpen(shift, day));
+      openShifts.set(day, shiftsToCover);
+
+      const roleDemand = new Map<string, number>();
+      const shiftPositions = shiftsToCover.map(shift => {
+        const requirements = [
+          ...roleRequirements,
+          ...shift.requiredRoles
+            .filter(role => !roleRequirements.some(req => req.role === role))
+            .map(role => ({ role, count: 1 }))
+        ];
+        requirements.forEach(req => roleDemand.set(req.role, (roleDemand.get(req.role) || 0) + req.count));
+
+        return {
+          shiftId: shift.id,
+          positions: Math.max(
+            shift.minStaff,
+            this.getCoverageMinimum(shift, day, month, year, shiftsToCover),
+            requirements.reduce((sum, req) => sum + req.count, 0)
+          )
+        };
+      });
+
+      days.push({
+        day,
+        shiftPositions,
+        roleDemand: [...roleDemand.entries()].map(([role, count]) => ({ role, count })),
+        managerDemand: managerMinimum * shiftsToCover.length
+      });
+    }
+
+    const minimumOf = (values: number[]) => (values.length > 0 ? Math.min(...values) : undefined);
+
+    const employees: CapacityEmployee[] = this.getSchedulableEmployees().map(employee => {
+      const workableDays: number[] = [];
+      const dayOffDays: number[] = [];
+
+      for (let day = 1; day <= this.daysInMonth; day++) {
+        const canWork = !this.isDayOffByRules(employee, day, month, year) &&
+          (openShifts.get(day) || []).some(shift => this.isAvailableFor(employee, day, shift));
+        if (!canWork) continue;
+
+        if (this.hasApprovedDayOff(employee, day, month, year)) {
+          dayOffDays.push(day);
+        } else {
+          workableDays.push(day);
+        }
+      }
+
+      const rulesOf = (type: string) => hardRules.filter(r => r.ruleType === type && this.ruleAppliesTo(r, employee));
+      const limits: Partial<Record<LimitKind, number>> = {
+        consecutive_days: this.getConsecutiveDaysLimit(employee),
+        weekly_shifts: minimumOf(rulesOf('max_shifts_per_week').map(r => r.config.max || 5)),
+        weekly_hours: minimumOf([
+          ...rulesOf('max_hours_per_week').map(r => r.config.max_hours || 40),
+          ...(employee.contract.maxWeeklyHours !== undefined ? [employee.contract.maxWeeklyHours] : [])
+        ]),
+        monthly_hours: minimumOf(rulesOf('max_hours_per_month').map(r =>
+          this.getMonthlyHoursLimit(r, r.config.max_hours || 160, employee)
+        ))
+      };
+
+      return {
+        id: employee.id,
+        name: employee.name,
+        roleName: employee.roleName,
+        isManager: this.isManager(employee),
+        workableDays,
+        dayOffDays,
+        // Streak at the end of the previous month
+        initialStreak: this.calculateConsecutiveDays(employee.id, 1, []),
+        limits
+      };
+    });
+
+    const ruleCause = (rule: ValidationRule): ConflictCause => ({
+      type: 'rule',
+      ruleId: rule.id,
+      description: rule.description || rule.ruleType
+    });
+
+    const staffingSources: ConflictCause[] = [
+      ...staffedShifts.map(shift => ({
+        type: 'staffing' as const,
+        shiftId: shift.id,
+        description: `Смена «${shift.name}»: минимум ${shift.minStaff} сотр.`
+      })),
+      ...hardRules
+        .filter(r => COVERAGE_RULES.includes(r.ruleType) || r.ruleType === 'required_roles_per_shift')
+        .map(ruleCause)
+    ];
+
+    const consecutiveRules = this.validationRules.filter(r =>
+      r.ruleType === 'max_consecutive_work_days' || r.ruleType === 'max_consecutive_shifts'
+    );
+    const limitSources: Partial<Record<LimitKind, ConflictCause[]>> = {
+      consecutive_days: consecutiveRules.length > 0
+        ? consecutiveRules.map(ruleCause)
+        : [{ type: 'limit', description: 'Не более 5 рабочих дней подряд (по умолчанию)' }]
+    };
+    const addLimitSources = (kind: LimitKind, causes: ConflictCause[]) => {
+      if (causes.length > 0) limitSources[kind] = causes;
+    };
+    addLimitSources('weekly_shifts', hardRules.filter(r => r.ruleType === 'max_shifts_per_week').map(ruleCause));
+    addLimitSources('weekly_hours', [
+      ...hardRules.filter(r => r.ruleType === 'max_hours_per_week').map(ruleCause),
+      ...this.employees
+        .filter(emp => emp.contract.maxWeeklyHours !== undefined)
+        .map(emp => ({
+          type: 'contract' as const,
+          employeeId: emp.id,
+          description: `${emp.name}: по договору не более ${emp.contract.maxWeeklyHours} ч в неделю`
+        }))
+    ]);
+    addLimitSources('monthly_hours', hardRules.filter(r => r.ruleType === 'max_hours_per_month').map(ruleCause));
+
+    const workShiftHours = staffedShifts.map(shift => shift.hours).filter(hours => hours > 0);
+
+    return {
+      shiftHours: workShiftHours.length > 0 ? Math.min(...workShiftHours) : 8,
+      weekOf: day => this.getWeekStart(day),
+      employees,
+      days,
+      staffingSources,
+      limitSources
+    };
+  }
+
   /**
    * Suggest improvements for existing schedule
    */
@@ -281,13 +786,17 @@ export class AutoScheduler {
     optimizationType: string;
     constraints: any;
   }): Promise<{ improvements: any; newViolations: RuleViolation[]; metrics: ScheduleMetrics }> {
-    const { month, year, optimizationType, constraints } = params;
+    const { month, year, optimizationType } = params;
 
     await this.loadData(month, year);
+    this.explanations = [];
+    this.optimizations = [];
+    // Optimization on demand has no budget options, only the default time limit
+    this.resetSearchBudget(MAX_SEARCH_ITERATIONS, DEFAULT_TIMEOUT_MS);
 
-    // Get current schedule
+    // Get current schedule; pinned cells are kept as they are
     const scheduleResult = await pool.query(`
-      SELECT employee_id, day, shift_id
+      SELECT employee_id, day, shift_id, is_locked
       FROM schedule
       WHERE month = $1 AND year = $2
       ORDER BY employee_id, day
@@ -296,7 +805,9 @@ export class AutoScheduler {
     let schedule: ScheduleEntry[] = scheduleResult.rows.map(row => ({
       employeeId: row.employee_id,
       day: row.day,
-      shiftId: row.shift_id
+      shiftId: row.shift_id,
+      locked: row.is_locked || false,
+      fixed: row.is_locked || false
     }));
 
     const beforeMetrics = this.calculateScheduleMetrics(schedule, month, year);
@@ -304,13 +815,13 @@ export class AutoScheduler {
     // Apply optimization based on type
     switch (optimizationType) {
       case 'balance':
-        schedule = this.applyBalanceOptimization(schedule, month, year, constraints);
+        schedule = await this.applyBalanceOptimization(schedule, month, year);
         break;
       case 'preferences':
-        schedule = this.applyPreferenceOptimization(schedule, month, year, constraints);
+        schedule = await this.applyPreferenceOptimization(schedule, month, year);
         break;
       case 'coverage':
-        schedule = this.applyCoverageOptimization(schedule, month, year, constraints);
+        schedule = await this.applyCoverageOptimization(schedule, month, year);
         break;
       default:
         throw new Error(`Unknown optimization type: ${optimizationType}`);
@@ -343,6 +854,10 @@ export class AutoScheduler {
           e.name,
           e.role_id,
           e.exclude_from_hours,
+          e.employment_rate,
+          e.target_monthly_hours,
+          e.min_weekly_hours,
+          e.max_weekly_hours,
           r.name as role_name,
           r.permissions as role_permissions
         FROM employees e
@@ -357,8 +872,9 @@ export class AutoScheduler {
         roleName: row.role_name || 'Unknown',
         rolePermissions: row.role_permissions || {},
         excludeFromHours: row.exclude_from_hours || false,
+        contract: contractFromRow(row),
         preferences: [],
-        availability: []
+        availability: new Map()
       }));
 
       // Load shifts
@@ -370,7 +886,13 @@ export class AutoScheduler {
           color,
           hours,
           start_time,
-          end_time
+          end_time,
+          min_staff,
+          max_staff,
+          required_roles,
+          is_night,
+          coverage_priority,
+          shift_difficulty
         FROM shifts
         ORDER BY name
       `);
@@ -383,29 +905,33 @@ export class AutoScheduler {
         hours: row.hours,
         startTime: row.start_time,
         endTime: row.end_time,
-        minStaff: 1, // Default values
-        maxStaff: 10, // Default values
-        requiredRoles: [], // Default empty array
-        isNight: row.name && (row.name.toLowerCase().includes('ночь') || row.name.toLowerCase().includes('night')),
-        coveragePriority: 1,
-        shiftDifficulty: 1.0
+        minStaff: row.min_staff ?? 1,
+        maxStaff: row.max_staff ?? 10,
+        requiredRoles: Array.isArray(row.required_roles) ? row.required_roles : [],
+        isNight: row.is_night || false,
+        coveragePriority: row.coverage_priority ?? 1,
+        // pg returns DECIMAL columns as strings
+        shiftDifficulty: row.shift_difficulty != null ? parseFloat(row.shift_difficulty) : 1.0
       }));
 
       // Load validation rules
       const rulesResult = await pool.query(`
         SELECT
-          id,
-          rule_type,
-          enabled,
-          config,
-          enforcement_type,
-          priority,
-          applies_to_roles,
-          applies_to_employees,
-          description
-        FROM validation_rules
-        WHERE enabled = true
-        ORDER BY priority
+          vr.id,
+          vr.rule_type,
+          vr.enabled,
+          vr.config,
+          vr.enforcement_type,
+          vr.priority,
+          vr.applies_to_roles,
+          vr.applies_to_employees,
+          vr.description,
+          vr.custom_message,
+          rp.weight_factor
+        FROM validation_rules vr
+        LEFT JOIN rule_priorities rp ON rp.rule_id = vr.id
+        WHERE vr.enabled = true
+        ORDER BY vr.priority
       `);
 
       this.validationRules = rulesResult.rows.map((row: any) => ({
@@ -417,7 +943,11 @@ export class AutoScheduler {
         priority: row.priority,
         appliesToRoles: row.applies_to_roles || [],
         appliesToEmployees: row.applies_to_employees || [],
-        description: row.description
+        description: row.description,
+        customMessage: row.custom_message || undefined,
+        weight: row.weight_factor != null
+          ? Number(row.weight_factor)
+          : ruleRegistry[row.rule_type as ValidationRuleType]?.defaultWeight ?? 1
       }));
 
       // Load employee preferences
@@ -427,17 +957,26 @@ export class AutoScheduler {
           ep.employee_id,
           ep.preference_type,
           ep.target_date,
+          to_char(ep.preference_start_date, 'YYYY-MM-DD') AS start_date,
+          to_char(ep.preference_end_date, 'YYYY-MM-DD') AS end_date,
           ep.target_shift_id,
           ep.status,
-          ep.priority
+          ep.priority,
+          pr.priority AS reason_priority
         FROM employee_preferences ep
+        LEFT JOIN preference_reasons pr ON pr.id = ep.reason_id
         WHERE ep.status = 'approved'
         AND (
           (EXTRACT(MONTH FROM ep.target_date) = $1 AND EXTRACT(YEAR FROM ep.target_date) = $2)
-          OR ep.preference_type = 'preferred_shift'
-          OR ep.preference_type = 'avoid_shift'
+          OR (
+            ep.preference_type IN ('preferred_shift', 'avoid_shift')
+            AND ep.target_date IS NULL
+            AND (ep.preference_start_date IS NULL OR ep.preference_start_date <= $4)
+            AND (ep.preference_end_date IS NULL OR ep.preference_end_date >= $3)
+          )
         )
-      `, [month + 1, year]); // JavaScript months are 0-based, SQL months are 1-based
+      `, [month + 1, year, this.toDateString(1, month, year), this.toDateString(new Date(year, month + 1, 0).getDate(), month, year)]);
+      // JavaScript months are 0-based, SQL months are 1-based
 
       // Group preferences by employee
       const preferencesMap = new Map<string, EmployeePreference[]>();
@@ -449,20 +988,36 @@ export class AutoScheduler {
         preferencesMap.get(employeeId)!.push({
           id: row.id.toString(),
           preferenceType: row.preference_type,
-          targetDate: row.target_date,
+          targetDate: row.target_date || undefined,
+          startDate: row.start_date || undefined,
+          endDate: row.end_date || undefined,
           targetShiftId: row.target_shift_id,
           status: row.status,
           priority: row.priority,
+          reasonPriority: row.reason_priority ?? undefined,
           employeeId: row.employee_id
         });
       });
+      this.assignPreferenceWeights(Array.from(preferencesMap.values()).flat());
+
+      const availability = await getMonthAvailability(month, year);
 
       this.employees.forEach(emp => {
         emp.preferences = preferencesMap.get(emp.id) || [];
+        emp.availability = availability.get(emp.id) || new Map();
       });
 
       // Calculate days in month
       this.daysInMonth = new Date(year, month + 1, 0).getDate();
+      this.month = month;
+      this.year = year;
+
+      this.boundaryContext = await this.loadBoundaryContext(month, year);
+      this.operatingHours = await getMonthOperatingHours(month, year);
+      this.productionCalendar = await getProductionCalendarMonth(month, year);
+      this.monthNorm = calculateMonthNorm(this.productionCalendar, month, year);
+      this.pastBurden = await this.loadPastBurden(month, year);
+      this.objectiveWeights = await getObjectiveWeights();
 
     } catch (error) {
       console.error('Error loading data:', error);
@@ -470,7 +1025,190 @@ export class AutoScheduler {
     }
   }
 
-  private async getApprovedDayOffs(month: number, year: number): Promise<EmployeePreference[]> {
+  /**
+   * Burden of the fairness window before the generated month
+   */
+  private async loadPastBurden(month: number, year: number): Promise<Map<string, number>> {
+    const prev = new Date(year, month - 1, 1);
+    const ledger = await getFairnessLedger(prev.getMonth(), prev.getFullYear());
+
+    const known = this.employees.filter(emp => ledger.has(emp.id));
+    const average = known.length > 0
+      ? known.reduce((sum, emp) => sum + getBurdenScore(ledger.get(emp.id)!), 0) / known.length
+      : 0;
+
+    return new Map(this.employees.map(emp => {
+      const burden = ledger.get(emp.id);
+      return [emp.id, burden ? getBurdenScore(burden) : average];
+    }));
+  }
+
+  /**
+   * Load work shifts at the end of the previous month and the start of the next one
+   */
+  private async loadBoundaryContext(month: number, year: number): Promise<ScheduleEntry[]> {
+    const prev = new Date(year, month - 1, 1);
+    const next = new Date(year, month + 1, 1);
+    const prevDaysInMonth = new Date(year, month, 0).getDate();
+
+    const result = await pool.query(`
+      SELECT s.employee_id, s.day, s.month, s.shift_id
+      FROM schedule s
+      JOIN shifts sh ON sh.id = s.shift_id
+      WHERE COALESCE(sh.max_staff, 1) > 0
+        AND s.shift_id <> 'Выходной'
+        AND (
+          (s.month = $1 AND s.year = $2 AND s.day > $3)
+          OR (s.month = $4 AND s.year = $5 AND s.day <= $6)
+        )
+    `, [
+      prev.getMonth(), prev.getFullYear(), prevDaysInMonth - BOUNDARY_CONTEXT_DAYS,
+      next.getMonth(), next.getFullYear(), BOUNDARY_CONTEXT_DAYS
+    ]);
+
+    return result.rows.map((row: any) => ({
+      employeeId: row.employee_id,
+      day: row.month === prev.getMonth() ? row.day - prevDaysInMonth : this.daysInMonth + row.day,
+      shiftId: row.shift_id,
+      fixed: true
+    }));
+  }
+
+  /**
+   * Schedule of the month together with the neighbouring months' context
+   */
+  private withBoundaryContext(schedule: ScheduleEntry[]): ScheduleEntry[] {
+    return this.boundaryContext.length > 0 ? [...this.boundaryContext, ...schedule] : schedule;
+  }
+
+  private isInMonth(day: number): boolean {
+    return day >= 1 && day <= this.daysInMonth;
+  }
+
+  private isInScope(employeeId: string, day: number): boolean {
+    return isInGenerationScope(this.scope, employeeId, day);
+  }
+
+  /**
+   * Days the current run may assign shifts on
+   */
+  private getGenerationDays(month: number, year: number): number[] {
+    const { startDay, endDay } = this.scope;
+    return this.getWorkingDays(month, year).filter(day =>
+      (startDay === undefined || day >= startDay) && (endDay === undefined || day <= endDay)
+    );
+  }
+
+  /**
+   * Employees the current run may assign shifts to
+   */
+  private getSchedulableEmployees(): EmployeeData[] {
+    const { employeeIds } = this.scope;
+    return this.employees.filter(emp =>
+      !emp.excludeFromHours && (!employeeIds || employeeIds.length === 0 || employeeIds.includes(emp.id))
+    );
+  }
+
+  /**
+   * Days an employee is kept free by employee_day_off rules
+   */
+  private isDayOffByRules(employee: EmployeeData, day: number, month: number, year: number): boolean {
+    return this.validationRules.some(rule =>
+      rule.ruleType === 'employee_day_off' &&
+      this.ruleAppliesTo(rule, employee) &&
+      this.isRuleDayOff(rule, day, month, year)
+    );
+  }
+
+  /**
+   * Staff a shift needs on a day according to hard coverage rules.
+   * Day-wide minimums are split evenly across the shifts to cover.
+   */
+  private getCoverageMinimum(
+    shift: ShiftData,
+    day: number,
+    month: number,
+    year: number,
+    shiftsToCover: ShiftData[]
+  ): number {
+    const shareOf = (total: number) => Math.ceil(total / Math.max(1, shiftsToCover.length));
+    let minimum = 0;
+
+    for (const rule of this.validationRules) {
+      if (rule.enforcementType !== 'error' || !COVERAGE_RULES.includes(rule.ruleType)) continue;
+
+      switch (rule.ruleType) {
+        case 'min_employees_per_shift':
+          minimum = Math.max(minimum, rule.config.min || 1);
+          break;
+        case 'manager_requirements':
+          minimum = Math.max(minimum, rule.config.min_managers ?? 1);
+          break;
+        case 'required_coverage':
+          minimum = Math.max(minimum, shareOf(rule.config.min_employees ?? 1));
+          break;
+        case 'coverage_by_day':
+          if (this.isCoverageDay(rule, day, month, year)) {
+            minimum = Math.max(minimum, shareOf(rule.config.min_employees ?? 1));
+          }
+          break;
+        case 'coverage_by_time': {
+          if (!this.isCoverageTimeDay(rule, day, month, year)) break;
+          const shiftHours = this.getShiftHours(shift);
+          if (this.getTimeRanges(rule).some(range => range.hours.some(hour => shiftHours.includes(hour)))) {
+            minimum = Math.max(minimum, rule.config.min_employees ?? 1);
+          }
+          break;
+        }
+        // required_roles_per_shift is planned as role-restricted positions
+      }
+    }
+
+    return minimum;
+  }
+
+  /**
+   * Longest work streak allowed for an employee by the consecutive-days rules that apply to them
+   */
+  private getConsecutiveDaysLimit(employee: EmployeeData): number {
+    const limits = this.validationRules
+      .filter(r =>
+        (r.ruleType === 'max_consecutive_work_days' || r.ruleType === 'max_consecutive_shifts') &&
+        this.ruleAppliesTo(r, employee)
+      )
+      .map(r => r.config.max_days || 5);
+
+    return limits.length > 0 ? Math.min(...limits) : 5;
+  }
+
+  private getManagerMinimum(): number {
+    return Math.max(0, ...this.validationRules
+      .filter(r => r.enforcementType === 'error' && r.ruleType === 'manager_requirements')
+      .map(r => r.config.min_managers ?? 1));
+  }
+
+  /**
+   * Existing entries the run must keep: pinned cells and everything outside the scope
+   */
+  private async getFixedEntries(month: number, year: number): Promise<ScheduleEntry[]> {
+    const result = await pool.query(`
+      SELECT employee_id, day, shift_id, is_locked
+      FROM schedule
+      WHERE month = $1 AND year = $2
+    `, [month, year]);
+
+    return result.rows
+      .filter((row: any) => row.is_locked || !this.isInScope(row.employee_id, row.day))
+      .map((row: any) => ({
+        employeeId: row.employee_id,
+        day: row.day,
+        shiftId: row.shift_id,
+        locked: row.is_locked || false,
+        fixed: true
+      }));
+  }
+
+  private async getApprovedDayOffs(month: number, year: number): Promise<DayOffRequest[]> {
     const result = await pool.query(`
       SELECT
         ep.id,
@@ -496,7 +1234,7 @@ export class AutoScheduler {
 
   private applyHardConstraints(
     schedule: ScheduleEntry[],
-    approvedDayOffs: EmployeePreference[],
+    approvedDayOffs: DayOffRequest[],
     month: number,
     year: number
   ): ScheduleEntry[] {
@@ -504,10 +1242,13 @@ export class AutoScheduler {
     for (const dayOff of approvedDayOffs) {
       const day = new Date(dayOff.targetDate).getDate();
       const dayOffShift = this.shifts.find(s => s.id === 'Выходной');
+      const employeeId = dayOff.employeeId || '';
+      const isFixed = !this.isInScope(employeeId, day) ||
+        schedule.some(s => s.fixed && s.employeeId === employeeId && s.day === day);
 
-      if (dayOffShift) {
+      if (dayOffShift && !isFixed) {
         schedule.push({
-          employeeId: dayOff.employeeId || '',
+          employeeId,
           day,
           shiftId: dayOffShift.id
         });
@@ -521,13 +1262,14 @@ export class AutoScheduler {
     schedule: ScheduleEntry[],
     month: number,
     year: number,
-    approvedDayOffs: EmployeePreference[]
+    approvedDayOffs: DayOffRequest[]
   ): ScheduleEntry[] {
     // Greedy algorithm implementation
     // This is a simplified version - in production would be more sophisticated
 
-    const availableEmployees = this.employees.filter(emp => !emp.excludeFromHours);
-    const workingDays = this.getWorkingDays(month, year);
+    const availableEmployees = this.getSchedulableEmployees();
+    const workingDays = this.getGenerationDays(month, year);
+    const managerMinimum = this.getManagerMinimum();
 
     for (const day of workingDays) {
       const dayOffEmployees = approvedDayOffs
@@ -535,21 +1277,25 @@ export class AutoScheduler {
         .map(doff => doff.employeeId || '');
 
       const availableForDay = availableEmployees.filter(emp =>
-        !dayOffEmployees.includes(emp.id)
+        !dayOffEmployees.includes(emp.id) && !this.isDayOffByRules(emp, day, month, year)
       );
 
-      // For each shift that needs to be covered
-      const shiftsToCover = this.shifts.filter(shift =>
-        shift.id !== 'Выходной' && shift.minStaff > 0
-      );
+      // For each shift that needs to be covered, most important shifts first
+      const shiftsToCover = this.shifts
+        .filter(shift => shift.id !== 'Выходной' && shift.minStaff > 0 && this.isShiftOpen(shift, day))
+        .sort((a, b) => b.coveragePriority - a.coveragePriority);
 
       for (const shift of shiftsToCover) {
-        const neededStaff = shift.minStaff;
+        // Never staff a shift beyond its configured maximum
+        const neededStaff = Math.min(
+          Math.max(shift.minStaff, this.getCoverageMinimum(shift, day, month, year, shiftsToCover)),
+          shift.maxStaff
+        );
         const assignedToShift = schedule.filter(s =>
           s.day === day && s.shiftId === shift.id
-        ).length;
+        );
 
-        const staffNeeded = Math.max(0, neededStaff - assignedToShift);
+        const staffNeeded = Math.max(0, neededStaff - assignedToShift.length);
 
         if (staffNeeded > 0) {
           // Select best candidates for this shift
@@ -562,9 +1308,54 @@ export class AutoScheduler {
             year
           );
 
-          for (let i = 0; i < Math.min(staffNeeded, candidates.length); i++) {
+          // Required roles are covered first, the rest goes to the best remaining candidates
+          const selected: EmployeeData[] = [];
+          const coveredRoles = new Set(assignedToShift.map(s =>
+            this.employees.find(emp => emp.id === s.employeeId)?.roleName
+          ));
+
+          for (const role of shift.requiredRoles) {
+            if (selected.length >= staffNeeded || coveredRoles.has(role)) continue;
+
+            const match = candidates.find(c => c.roleName === role && !selected.includes(c));
+            if (match) {
+              selected.push(match);
+              coveredRoles.add(role);
+            }
+          }
+
+          // Then the managers hard manager_requirements rules ask for
+          let managers = assignedToShift.filter(s =>
+            this.isManager(this.employees.find(emp => emp.id === s.employeeId))
+          ).length + selected.filter(emp => this.isManager(emp)).length;
+
+          for (const candidate of candidates) {
+            if (selected.length >= staffNeeded || managers >= managerMinimum) break;
+            if (this.isManager(candidate) && !selected.includes(candidate)) {
+              selected.push(candidate);
+              managers++;
+            }
+          }
+
+          for (const candidate of candidates) {
+            if (selected.length >= staffNeeded) break;
+            if (!selected.includes(candidate)) {
+              selected.push(candidate);
+            }
+          }
+
+          this.explanations.push({
+            day,
+            shiftId: shift.id,
+            source: 'greedy',
+            employeeIds: selected.map(emp => emp.id),
+            unfilled: staffNeeded - selected.length,
+            candidates: this.explainCandidates(availableEmployees, selected, day, shift, schedule, month, year)
+          });
+
+          for (const employee of selected) {
             schedule.push({
-              employeeId: candidates[i].id,
+              employeeId: employee.id,
               day,
               shiftId: shift.id
             });
@@ -576,468 +1367,1767 @@ export class AutoScheduler {
     return schedule;
   }
 
-  private constraintSatisfactionSchedule(
+  /**
+   * Constraint satisfaction search over day/shift staffing positions.
+   * Error rules are hard constraints, warning rules only affect value ordering.
+   * Uses MRV variable ordering, forward checking and backtracking; if no complete
+   * assignment is found before the deadline, the deepest partial one is completed greedily.
+   */
+  private async constraintSatisfactionSchedule(
     schedule: ScheduleEntry[],
     month: number,
     year: number,
-    approvedDayOffs: EmployeePreference[]
-  ): ScheduleEntry[] {
-    // Constraint satisfaction programming approach
-    // This would implement CSP with backtracking and constraint propagation
+    approvedDayOffs: DayOffRequest[],
+    timeoutMs: number = 30000
+  ): Promise<ScheduleEntry[]> {
+    const deadline = Date.now() + timeoutMs;
+    const incrementalRules = this.validationRules.filter(r => CSP_INCREMENTAL_RULES.includes(r.ruleType));
+    const hardRules = incrementalRules.filter(r => r.enforcementType === 'error');
+    const softRules = incrementalRules.filter(r => r.enforcementType !== 'error');
+
+    // Positions that cannot be filled by anyone are dropped up front,
+    // otherwise the search would thrash until the deadline
+    const allSlots = this.buildCspSlots(schedule, month, year, approvedDayOffs);
+    const slots = allSlots.filter(slot => slot.domain.length > 0);
+
+    const current = [...schedule];
+    const assigned = new Set<CspSlot>();
+    // Decision of every assigned slot, replaced on backtracking. current works as a stack,
+    // so its first `depth` entries are the schedule the decision was made on.
+    const decisions = new Map<CspSlot, { employee: EmployeeData; depth: number; rejections: Map<string, string> }>();
+    let best = [...schedule];
+    let backtracks = 0;
+    let nodes = 0;
+
+    const isOutOfBudget = () => Date.now() > deadline || backtracks > CSP_MAX_BACKTRACKS;
+
+    const search = async (): Promise<boolean> => {
+      if (isOutOfBudget()) return false;
+      await this.checkpoint('scheduling', ++nodes, null);
+
+      const unassigned = slots.filter(slot => !assigned.has(slot));
+      if (unassigned.length === 0) return true;
+
+      // MRV: smallest domain first, then role-restricted positions, then more important shifts
+      const slot = unassigned.reduce((a, b) => {
+        if (a.domain.length !== b.domain.length) return a.domain.length < b.domain.length ? a : b;
+        const aRestricted = !!a.requiredRole || !!a.requiresManager;
+        const bRestricted = !!b.requiredRole || !!b.requiresManager;
+        if (aRestricted !== bRestricted) return aRestricted ? a : b;
+        if (a.shift.coveragePriority !== b.shift.coveragePriority) {
+          return a.shift.coveragePriority > b.shift.coveragePriority ? a : b;
+        }
+        return a.day <= b.day ? a : b;
+      });
 
-    // For now, fallback to greedy algorithm
-    return this.greedySchedule(schedule, month, year, approvedDayOffs);
-  }
+      // Least-penalty value first: soft rule violations, then the usual employee score
+      const candidates = slot.domain
+        .map(employee => {
+          const entry = { employeeId: employee.id, day: slot.day, shiftId: slot.shift.id };
+          const softPenalty = this.countNewViolations(softRules, entry, current, month, year) * 100;
+          const score = this.calculateEmployeeScore(employee, slot.day, slot.shift, current, month, year);
+          return { employee, entry, cost: softPenalty - score };
+        })
+        .sort((a, b) => a.cost - b.cost);
+
+      const rejections = new Map<string, string>();
+
+      for (const { employee, entry } of candidates) {
+        if (this.exceedsContractWeeklyHours(employee, slot.day, slot.shift, current)) {
+          rejections.set(employee.id, 'Превышение недельных часов по договору');
+          continue;
+        }
+        if (this.countNewViolations(hardRules, entry, current, month, year) > 0) {
+          rejections.set(employee.id, 'Нарушит обязательное правило');
+          continue;
+        }
 
-  private hybridSchedule(
-    schedule: ScheduleEntry[],
-    month: number,
-    year: number,
-    approvedDayOffs: EmployeePreference[]
-  ): ScheduleEntry[] {
-    // Hybrid approach: start with greedy, then apply constraint optimization
-    schedule = this.greedySchedule(schedule, month, year, approvedDayOffs);
+        decisions.set(slot, { employee, depth: current.length, rejections: new Map(rejections) });
+        current.push(entry);
+        assigned.add(slot);
+        if (current.length > best.length) best = [...current];
 
-    // Apply local optimization
-    schedule = this.localSearchOptimization(schedule, month, year);
+        const pruned = this.propagateAssignment(slot, employee, unassigned, hardRules, current, month, year);
 
-    return schedule;
-  }
+        if (pruned.consistent && await search()) return true;
 
-  private selectBestCandidates(
-    employees: EmployeeData[],
-    day: number,
-    shift: ShiftData,
-    currentSchedule: ScheduleEntry[],
-    month: number,
-    year: number
-  ): EmployeeData[] {
-    const candidates = employees.filter(emp => {
-      // Check if employee already has a shift this day
-      const hasShiftToday = currentSchedule.some(s =>
-        s.employeeId === emp.id && s.day === day && s.shiftId !== 'Выходной'
-      );
-      if (hasShiftToday) return false;
+        // Undo assignment and restore pruned domains
+        for (const { slot: prunedSlot, domain } of pruned.restore) {
+          prunedSlot.domain = domain;
+        }
+        current.pop();
+        assigned.delete(slot);
+        decisions.delete(slot);
+        backtracks++;
 
-      // Check consecutive days constraint
-      const consecutiveDays = this.calculateConsecutiveDays(emp.id, day, currentSchedule);
-      if (consecutiveDays >= 5) return false; // Hard constraint
+        if (isOutOfBudget()) return false;
+      }
 
-      // Check if shift type is preferred/avoided
-      const preference = emp.preferences.find(p =>
-        p.preferenceType === 'preferred_shift' && p.targetShiftId === shift.id
-      );
-      const avoidance = emp.preferences.find(p =>
-        p.preferenceType === 'avoid_shift' && p.targetShiftId === shift.id
-      );
+      return false;
+    };
 
-      return !avoidance; // Don't assign avoided shifts
-    });
+    // Positions nobody could take are reported as unfilled
+    const unfilled = allSlots
+      .filter(slot => slot.domain.length === 0)
+      .map(slot => this.explainCspSlot(slot, [], schedule, new Map(), month, year));
+
+    if (await search()) {
+      const explained = allSlots
+        .filter(slot => decisions.has(slot))
+        .sort((a, b) => decisions.get(a)!.depth - decisions.get(b)!.depth)
+        .map(slot => {
+          const { employee, depth, rejections } = decisions.get(slot)!;
+          return this.explainCspSlot(slot, [employee], current.slice(0, depth), rejections, month, year);
+        });
+      this.explanations.push(...explained, ...unfilled);
+      return current;
+    }
 
-    // Sort candidates by preference score
-    return candidates.sort((a, b) => {
-      const scoreA = this.calculateEmployeeScore(a, day, shift, currentSchedule, month, year);
-      const scoreB = this.calculateEmployeeScore(b, day, shift, currentSchedule, month, year);
-      return scoreB - scoreA; // Higher score first
-    });
+    // No complete assignment within budget: keep the deepest partial one and fill the rest greedily
+    // (decisions of the partial assignment are not kept, the greedy pass explains the month)
+    this.explanations.push(...unfilled);
+    return this.greedySchedule(best, month, year, approvedDayOffs);
   }
 
-  private calculateEmployeeScore(
-    employee: EmployeeData,
-    day: number,
-    shift: ShiftData,
+  /**
+   * Explain a CSP slot: domain members are scored, everybody else gets the reason
+   * they were left out of the domain or failed a check during the search
+   */
+  private explainCspSlot(
+    slot: CspSlot,
+    selected: EmployeeData[],
+    schedule: ScheduleEntry[],
+    rejections: Map<string, string>,
+    month: number,
+    year: number
+  ): AssignmentExplanation {
+    const slotRejections = new Map(rejections);
+    for (const employee of this.getSchedulableEmployees()) {
+      if (slot.domain.includes(employee) || slotRejections.has(employee.id)) continue;
+
+      const reason = this.getRejectionReason(employee, slot.day, slot.shift, schedule, month, year)
+        || (slot.requiredRole && employee.roleName !== slot.requiredRole ? `Позиция для роли «${slot.requiredRole}»` : null)
+        || (slot.requiresManager && !this.isManager(employee) ? 'Позиция для управляющего' : null)
+        || 'Исключён при проверке обязательных правил';
+      slotRejections.set(employee.id, reason);
+    }
+
+    return {
+      day: slot.day,
+      shiftId: slot.shift.id,
+      source: 'constraint',
+      employeeIds: selected.map(emp => emp.id),
+      unfilled: selected.length > 0 ? 0 : 1,
+      candidates: this.explainCandidates(
+        this.getSchedulableEmployees(), selected, slot.day, slot.shift, schedule, month, year, slotRejections
+      ),
+      note: slot.requiredRole
+        ? `Позиция для роли «${slot.requiredRole}»`
+        : slot.requiresManager ? 'Позиция для управляющего' : undefined
+    };
+  }
+
+  /**
+   * Build CSP variables: one slot per required staffing position.
+   * Required count honours shift.minStaff and hard coverage rules;
+   * hard required_roles_per_shift and shift.requiredRoles turn some positions
+   * into role-restricted ones, hard manager_requirements into manager-only ones.
+   */
+  private buildCspSlots(
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number,
+    approvedDayOffs: DayOffRequest[]
+  ): CspSlot[] {
+    const slots: CspSlot[] = [];
+    const availableEmployees = this.getSchedulableEmployees();
+    const hardRules = this.validationRules.filter(r => r.enforcementType === 'error');
+    const managerMinimum = this.getManagerMinimum();
+
+    const roleRequirements = hardRules
+      .filter(r => r.ruleType === 'required_roles_per_shift' && r.config.role)
+      .map(r => ({ role: r.config.role as string, count: r.config.min_count || 1 }));
+
+    const staffedShifts = this.shifts.filter(shift =>
+      shift.id !== 'Выходной' && shift.minStaff > 0
+    );
+
+    for (const day of this.getGenerationDays(month, year)) {
+      const shiftsToCover = staffedShifts.filter(shift => this.isShiftOpen(shift, day));
+
+      const dayOffEmployees = approvedDayOffs
+        .filter(doff => new Date(doff.targetDate).getDate() === day)
+        .map(doff => doff.employeeId || '');
+
+      const busyEmployees = schedule
+        .filter(s => s.day === day)
+        .map(s => s.employeeId);
+
+      const availableForDay = availableEmployees.filter(emp =>
+        !dayOffEmployees.includes(emp.id) &&
+        !busyEmployees.includes(emp.id) &&
+        !this.isDayOffByRules(emp, day, month, year)
+      );
+
+      for (const shift of shiftsToCover) {
+        const availableForShift = availableForDay.filter(emp => this.isAvailableFor(emp, day, shift));
+        const shiftRoleRequirements = [
+          ...roleRequirements,
+          ...shift.requiredRoles
+            .filter(role => !roleRequirements.some(req => req.role === role))
+            .map(role => ({ role, count: 1 }))
+        ];
+        const roleSlots = shiftRoleRequirements.reduce((sum, req) => sum + req.count, 0);
+        const positions = Math.max(
+          shift.minStaff,
+          this.getCoverageMinimum(shift, day, month, year, shiftsToCover),
+          roleSlots
+        );
+
+        // Positions already taken by pinned entries are not searched again
+        const existing = schedule.filter(s => s.day === day && s.shiftId === shift.id);
+        const existingRoles = existing.map(s => this.employees.find(emp => emp.id === s.employeeId)?.roleName);
+        const openPositions = positions - existing.length;
+
+        let created = 0;
+        for (const req of shiftRoleRequirements) {
+          const missing = req.count - existingRoles.filter(role => role === req.role).length;
+          for (let i = 0; i < missing; i++) {
+            slots.push({
+              day,
+              shift,
+              requiredRole: req.role,
+              domain: availableForShift.filter(emp => emp.roleName === req.role)
+            });
+            created++;
+          }
+        }
+
+        const existingManagers = existing.filter(s =>
+          this.isManager(this.employees.find(emp => emp.id === s.employeeId))
+        ).length;
+        for (let i = existingManagers; i < managerMinimum && created < openPositions; i++, created++) {
+          slots.push({
+            day,
+            shift,
+            requiresManager: true,
+            domain: availableForShift.filter(emp => this.isManager(emp))
+          });
+        }
+
+        for (; created < openPositions; created++) {
+          slots.push({ day, shift, domain: [...availableForShift] });
+        }
+      }
+    }
+
+    return slots;
+  }
+
+  /**
+   * Forward checking after assigning an employee to a slot:
+   * - the employee cannot take another slot on the same day
+   * - nearby slots where the employee would now break a hard rule lose that value
+   * Returns the previous domains so the caller can undo on backtrack.
+   */
+  private propagateAssignment(
+    slot: CspSlot,
+    employee: EmployeeData,
+    unassigned: CspSlot[],
+    hardRules: ValidationRule[],
+    current: ScheduleEntry[],
+    month: number,
+    year: number
+  ): { consistent: boolean; restore: Array<{ slot: CspSlot; domain: EmployeeData[] }> } {
+    const restore: Array<{ slot: CspSlot; domain: EmployeeData[] }> = [];
+
+    for (const other of unassigned) {
+      if (other === slot || !other.domain.includes(employee)) continue;
+      if (Math.abs(other.day - slot.day) > CSP_PROPAGATION_WINDOW) continue;
+
+      const conflicts = other.day === slot.day || this.countNewViolations(
+        hardRules,
+        { employeeId: employee.id, day: other.day, shiftId: other.shift.id },
+        current,
+        month,
+        year
+      ) > 0;
+
+      if (conflicts) {
+        restore.push({ slot: other, domain: other.domain });
+        other.domain = other.domain.filter(emp => emp !== employee);
+
+        // Domain wipeout: this branch cannot lead to a complete assignment
+        if (other.domain.length === 0) {
+          return { consistent: false, restore };
+        }
+      }
+    }
+
+    return { consistent: true, restore };
+  }
+
+  /**
+   * Count violations a single new entry would add for the given rules.
+   * Only entries of the same employee or the same day can be affected, so rules run on that subset.
+   */
+  private countNewViolations(
+    rules: ValidationRule[],
+    entry: ScheduleEntry,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): number {
+    if (rules.length === 0) return 0;
+
+    const relevant = schedule.filter(s =>
+      s.employeeId === entry.employeeId || s.day === entry.day
+    );
+    const withEntry = [...relevant, entry];
+
+    let added = 0;
+    for (const rule of rules) {
+      added += this.validateRule(rule, withEntry, month, year).length
+        - this.validateRule(rule, relevant, month, year).length;
+    }
+
+    return added;
+  }
+
+  private async hybridSchedule(
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number,
+    approvedDayOffs: DayOffRequest[]
+  ): Promise<ScheduleEntry[]> {
+    // Hybrid approach: start with greedy, then apply constraint optimization
+    schedule = this.greedySchedule(schedule, month, year, approvedDayOffs);
+
+    // Improve the greedy schedule within this phase's share of the search budget
+    schedule = await this.annealingOptimization(schedule, month, year, 'scheduling');
+
+    return schedule;
+  }
+
+  private selectBestCandidates(
+    employees: EmployeeData[],
+    day: number,
+    shift: ShiftData,
+    currentSchedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): EmployeeData[] {
+    const candidates = employees.filter(emp =>
+      !this.getRejectionReason(emp, day, shift, currentSchedule, month, year)
+    );
+
+    // Sort candidates by preference score
+    return candidates.sort((a, b) => {
+      const scoreA = this.calculateEmployeeScore(a, day, shift, currentSchedule, month, year);
+      const scoreB = this.calculateEmployeeScore(b, day, shift, currentSchedule, month, year);
+      return scoreB - scoreA; // Higher score first
+    });
+  }
+
+  /**
+   * Why an employee cannot take a shift on a day, or null if they can
+   */
+  private getRejectionReason(
+    employee: EmployeeData,
+    day: number,
+    shift: ShiftData,
+    currentSchedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): string | null {
+    // Check if employee already has a shift this day
+    const hasShiftToday = currentSchedule.some(s =>
+      s.employeeId === employee.id && s.day === day && s.shiftId !== 'Выходной'
+    );
+    if (hasShiftToday) return 'Уже работает в этот день';
+
+    if (this.hasApprovedDayOff(employee, day, month, year)) return 'Одобренный запрос выходного';
+    if (this.isDayOffByRules(employee, day, month, year)) return 'Выходной по правилу';
+    if (!this.isAvailableFor(employee, day, shift)) return 'Смена вне окон доступности';
+
+    // Check consecutive days constraint
+    const consecutiveDays = this.calculateConsecutiveDays(employee.id, day, currentSchedule);
+    const limit = this.getConsecutiveDaysLimit(employee);
+    if (consecutiveDays >= limit) return `Уже ${consecutiveDays} рабочих дней подряд (не более ${limit})`;
+
+    if (this.exceedsContractWeeklyHours(employee, day, shift, currentSchedule)) {
+      return 'Превышение недельных часов по договору';
+    }
+
+    // Don't assign avoided shifts
+    const avoidance = employee.preferences.find(p =>
+      p.preferenceType === 'avoid_shift' && p.targetShiftId === shift.id && this.preferenceAppliesOn(p, day)
+    );
+    if (avoidance) return 'Пожелание не ставить в эту смену';
+
+    return null;
+  }
+
+  /**
+   * Candidates of a decision: selected employees first, then the others by score,
+   * employees who could not take the shift last with their reason
+   */
+  private explainCandidates(
+    employees: EmployeeData[],
+    selected: EmployeeData[],
+    day: number,
+    shift: ShiftData,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number,
+    rejections: Map<string, string> = new Map()
+  ): CandidateExplanation[] {
+    const candidates: CandidateExplanation[] = employees.map(employee => {
+      const isSelected = selected.includes(employee);
+      const rejection = isSelected
+        ? null
+        : rejections.get(employee.id) ?? this.getRejectionReason(employee, day, shift, schedule, month, year);
+
+      return rejection
+        ? { employeeId: employee.id, selected: false, rejection }
+        : {
+          employeeId: employee.id,
+          selected: isSelected,
+          score: roundBreakdown(this.getScoreBreakdown(employee, day, shift, schedule, month, year))
+        };
+    });
+
+    const rank = (c: CandidateExplanation) => (c.selected ? 0 : c.score ? 1 : 2);
+    return candidates.sort((a, b) =>
+      rank(a) - rank(b) || (b.score?.total ?? 0) - (a.score?.total ?? 0)
+    );
+  }
+
+  private calculateEmployeeScore(
+    employee: EmployeeData,
+    day: number,
+    shift: ShiftData,
     currentSchedule: ScheduleEntry[],
     month: number,
     year: number
   ): number {
-    let score = 0;
+    return this.getScoreBreakdown(employee, day, shift, currentSchedule, month, year).total;
+  }
 
-    // Base score
-    score += 10;
+  private getScoreBreakdown(
+    employee: EmployeeData,
+    day: number,
+    shift: ShiftData,
+    currentSchedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): ScoreBreakdown {
+    const breakdown: ScoreBreakdown = {
+      base: 10,
+      preference: 0,
+      balance: 0,
+      weeklyMinimum: 0,
+      fairness: 0,
+      role: 0,
+      consecutive: 0,
+      total: 0
+    };
 
-    // Preference bonus
+    // Preference bonus, stronger for more important reasons
     const preference = employee.preferences.find(p =>
-      p.preferenceType === 'preferred_shift' && p.targetShiftId === shift.id
+      p.preferenceType === 'preferred_shift' && p.targetShiftId === shift.id && this.preferenceAppliesOn(p, day)
     );
     if (preference) {
-      score += 20;
+      breakdown.preference += 20 * (preference.weight ?? 1);
     }
 
     // Avoidance penalty
     const avoidance = employee.preferences.find(p =>
-      p.preferenceType === 'avoid_shift' && p.targetShiftId === shift.id
+      p.preferenceType === 'avoid_shift' && p.targetShiftId === shift.id && this.preferenceAppliesOn(p, day)
     );
     if (avoidance) {
-      score -= 50; // Heavy penalty
+      breakdown.preference -= 50 * (avoidance.weight ?? 1); // Heavy penalty
+    }
+
+    // Workload balance against the contract target (harder shifts weigh more):
+    // employees far below their target hours come first, those above it are pushed back
+    const currentHours = currentSchedule
+      .filter(s => s.employeeId === employee.id && this.isWorkShift(s.shiftId))
+      .reduce((sum, s) => {
+        const assigned = this.shifts.find(sh => sh.id === s.shiftId);
+        return sum + (assigned?.hours || 0) * (assigned?.shiftDifficulty ?? 1);
+      }, 0);
+    const targetHours = this.getTargetHours(employee);
+    if (targetHours > 0) {
+      breakdown.balance = (1 - currentHours / targetHours) * 40;
+    } else {
+      breakdown.balance = -40;
+    }
+
+    // Weeks below the contract minimum need this employee
+    const { minWeeklyHours } = employee.contract;
+    if (minWeeklyHours !== undefined) {
+      const weekHours = this.getWeeklyHours(employee.id, currentSchedule).get(this.getWeekStart(day)) || 0;
+      if (weekHours < minWeeklyHours) {
+        breakdown.weeklyMinimum = 15;
+      }
     }
 
-    // Workload balance
-    const currentShifts = currentSchedule.filter(s =>
-      s.employeeId === employee.id && s.shiftId !== 'Выходной'
-    ).length;
-    const idealShifts = 20; // Target shifts per month
-    const workloadPenalty = Math.abs(currentShifts - idealShifts) * 2;
-    score -= workloadPenalty;
+    // Rotate night, weekend and holiday shifts: employees who carried more of them
+    // over the fairness window and this month so far come last
+    if (this.getShiftBurden(shift, day) > 0) {
+      breakdown.fairness = -this.getRelativeBurden(employee.id, currentSchedule) * 5;
+    }
 
     // Role requirements
     if (shift.requiredRoles.includes(employee.roleName)) {
-      score += 15;
+      breakdown.role = 15;
     }
 
     // Consecutive days penalty
     const consecutiveDays = this.calculateConsecutiveDays(employee.id, day, currentSchedule);
     if (consecutiveDays >= 4) {
-      score -= (consecutiveDays - 3) * 10;
+      breakdown.consecutive = -(consecutiveDays - 3) * 10;
     }
 
-    return score;
+    breakdown.total = breakdown.base + breakdown.preference + breakdown.balance +
+      breakdown.weeklyMinimum + breakdown.fairness + breakdown.role + breakdown.consecutive;
+    return breakdown;
+  }
+
+  /**
+   * Unpleasantness of a shift on a day, matching getBurdenScore: night and day-off shifts
+   * count 1, a holiday shift counts once more
+   */
+  private getShiftBurden(shift: ShiftData | undefined, day: number): number {
+    if (!shift || !this.isWorkShift(shift.id)) return 0;
+
+    let burden = shift.isNight ? 1 : 0;
+    if (isNonWorkingDay(this.productionCalendar, day, this.month, this.year)) burden++;
+    if (this.productionCalendar.get(day)?.type === 'holiday') burden++;
+    return burden;
+  }
+
+  /**
+   * Employee's burden (past window plus this month) minus the team average
+   */
+  private getRelativeBurden(employeeId: string, schedule: ScheduleEntry[]): number {
+    const current = new Map<string, number>();
+    for (const entry of schedule) {
+      const burden = this.getShiftBurden(this.shifts.find(sh => sh.id === entry.shiftId), entry.day);
+      if (burden > 0) current.set(entry.employeeId, (current.get(entry.employeeId) || 0) + burden);
+    }
+
+    const total = (id: string) => (this.pastBurden.get(id) || 0) + (current.get(id) || 0);
+    const average = this.employees.reduce((sum, emp) => sum + total(emp.id), 0) / (this.employees.length || 1);
+    return total(employeeId) - average;
   }
 
+  /**
+   * Number of work days around currentDay (excluding it) that would join one streak,
+   * including shifts already scheduled in the neighbouring months
+   */
   private calculateConsecutiveDays(
     employeeId: string,
     currentDay: number,
     schedule: ScheduleEntry[]
   ): number {
+    const workDays = new Set(
+      this.withBoundaryContext(schedule)
+        .filter(s => s.employeeId === employeeId && s.shiftId !== 'Выходной')
+        .map(s => s.day)
+    );
+
     let consecutive = 0;
 
     // Check backwards from current day
-    for (let day = currentDay - 1; day >= 1; day--) {
-      const hasShift = schedule.some(s =>
-        s.employeeId === employeeId &&
-        s.day === day &&
-        s.shiftId !== 'Выходной'
-      );
-      if (hasShift) {
-        consecutive++;
-      } else {
-        break;
-      }
+    for (let day = currentDay - 1; workDays.has(day); day--) {
+      consecutive++;
+    }
+
+    // Check forwards (pinned shifts, next month)
+    for (let day = currentDay + 1; workDays.has(day); day++) {
+      consecutive++;
     }
 
     return consecutive;
   }
 
+  /**
+   * Days the store is open according to the operating calendar
+   */
   private getWorkingDays(month: number, year: number): number[] {
-    const workingDays: number[] = [];
     const daysInMonth = new Date(year, month + 1, 0).getDate();
+    return Array.from({ length: daysInMonth }, (_, i) => i + 1).filter(day => this.operatingHours.has(day));
+  }
 
-    for (let day = 1; day <= daysInMonth; day++) {
-      const date = new Date(year, month, day);
-      const dayOfWeek = date.getDay();
+  /**
+   * A shift runs on a day if the store is open and the shift overlaps the opening hours;
+   * shifts without times run whenever the store is open
+   */
+  private isShiftOpen(shift: ShiftData, day: number): boolean {
+    const hours = this.operatingHours.get(day);
+    if (!hours) return false;
 
-      // Consider Monday-Saturday as working days (can be customized)
-      if (dayOfWeek !== 0) { // Not Sunday
-        workingDays.push(day);
-      }
-    }
+    const shiftHours = this.getShiftHours(shift);
+    if (shiftHours.length === 0) return true;
 
-    return workingDays;
+    const openHours = this.getHourSpan(this.parseTime(hours.start), this.parseTime(hours.end));
+    return shiftHours.some(hour => openHours.includes(hour));
   }
 
-  private optimizeSchedule(
+  private async optimizeSchedule(
     schedule: ScheduleEntry[],
     month: number,
     year: number,
-    focus?: string
-  ): ScheduleEntry[] {
+    focus: OptimizationFocus | undefined,
+    annealed: boolean
+  ): Promise<ScheduleEntry[]> {
     // Apply optimization based on focus
     switch (focus) {
       case 'balance':
-        return this.applyBalanceOptimization(schedule, month, year, {});
+        return this.applyBalanceOptimization(schedule, month, year);
       case 'preferences':
-        return this.applyPreferenceOptimization(schedule, month, year, {});
+        return this.applyPreferenceOptimization(schedule, month, year);
       case 'coverage':
-        return this.applyCoverageOptimization(schedule, month, year, {});
+        return this.applyCoverageOptimization(schedule, month, year);
       default:
-        return this.localSearchOptimization(schedule, month, year);
+        // A hybrid schedule has been annealed in the scheduling phase already
+        return annealed ? schedule : this.annealingOptimization(schedule, month, year, 'optimizing');
+    }
+  }
+
+  /**
+   * Simulated annealing over random moves. A worse schedule is accepted with a probability
+   * that falls as the temperature cools, so the search can leave local optima; it runs until
+   * the iteration or time budget of the phase is used up and returns the best schedule found
+   */
+  private async annealingOptimization(
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number,
+    phase: GenerationPhase
+  ): Promise<ScheduleEntry[]> {
+    let current = this.createScoreState(schedule, month, year);
+    let best = current;
+    const startScore = current.score;
+    // Move that created each entry, to explain the changes kept in the best schedule
+    const notes = new Map<ScheduleEntry, string>();
+
+    this.traceScore(current.score, best.score, true);
+
+    while (this.hasSearchBudget()) {
+      await this.checkpoint(phase, this.searchBudget.iterationsUsed, best.score);
+
+      const move = this.randomMove(current.schedule, month, year);
+      if (!move) break;
+      this.spendIteration();
+
+      const candidate = this.scoreMove(current, move, month, year);
+      const delta = candidate.score - current.score;
+
+      if (delta >= 0 || Math.random() < Math.exp(delta / this.getTemperature())) {
+        move.entries.forEach(entry => notes.set(entry, move.note));
+        current = candidate;
+      }
+
+      const improved = current.score > best.score;
+      if (improved) best = current;
+      this.traceScore(current.score, best.score, improved);
+    }
+
+    this.traceScore(current.score, best.score, true);
+    this.explainAnnealing(schedule, best.schedule, notes, startScore, best.score);
+
+    return best.schedule;
+  }
+
+  /**
+   * Random change of the schedule: reassign a shift to someone who is off, swap work days
+   * of two employees, move a shift to the employee's day off or swap shifts of the same day.
+   * Returns null if no move could be built
+   */
+  private randomMove(schedule: ScheduleEntry[], month: number, year: number): ScheduleMove | null {
+    const movable = schedule.filter(entry => this.isMovable(entry));
+    if (movable.length === 0) return null;
+
+    const pick = <T>(items: T[]): T | undefined => items[Math.floor(Math.random() * items.length)];
+    const nameOf = (employeeId: string) => this.employees.find(emp => emp.id === employeeId)?.name || employeeId;
+    const isOff = (employeeId: string, day: number) =>
+      this.isInScope(employeeId, day) && !schedule.some(s => s.employeeId === employeeId && s.day === day);
+
+    for (let attempt = 0; attempt < RANDOM_MOVE_ATTEMPTS; attempt++) {
+      const entry = pick(movable)!;
+      const shift = this.shifts.find(sh => sh.id === entry.shiftId);
+      if (!shift) continue;
+
+      let move: ScheduleMove | null = null;
+
+      switch (Math.floor(Math.random() * 4)) {
+        case 0: {
+          const receiver = pick(this.getSchedulableEmployees());
+          if (!receiver || !isOff(receiver.id, entry.day)) break;
+
+          move = this.replaceMove(
+            [[entry, { ...entry, employeeId: receiver.id }]],
+            `Метаэвристика: смена передана от сотрудника ${nameOf(entry.employeeId)}`
+          );
+          break;
+        }
+        case 1: {
+          // Each employee takes the other's shift on a day they are off
+          const other = pick(movable)!;
+          if (other.employeeId === entry.employeeId || other.day === entry.day) break;
+          if (!isOff(entry.employeeId, other.day) || !isOff(other.employeeId, entry.day)) break;
+
+          move = this.replaceMove(
+            [[entry, { ...entry, employeeId: other.employeeId }], [other, { ...other, employeeId: entry.employeeId }]],
+            `Метаэвристика: обмен рабочими днями между ${nameOf(entry.employeeId)} и ${nameOf(other.employeeId)}`
+          );
+          break;
+        }
+        case 2: {
+          const day = 1 + Math.floor(Math.random() * this.daysInMonth);
+          if (!isOff(entry.employeeId, day) || !this.isShiftOpen(shift, day)) break;
+
+          move = this.replaceMove(
+            [[entry, { ...entry, day }]],
+            `Метаэвристика: перенос выходного, смена перенесена с ${entry.day}-го числа`
+          );
+          break;
+        }
+        default: {
+          const other = pick(movable.filter(s =>
+            s.day === entry.day && s.shiftId !== entry.shiftId && s.employeeId !== entry.employeeId
+          ));
+          if (!other) break;
+
+          move = this.replaceMove(
+            [[entry, { ...entry, shiftId: other.shiftId }], [other, { ...other, shiftId: entry.shiftId }]],
+            `Метаэвристика: обмен сменами между ${nameOf(entry.employeeId)} и ${nameOf(other.employeeId)}`
+          );
+        }
+      }
+
+      if (move && this.keepsHardConstraints(move, schedule, month, year)) return move;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether every cell a move fills passes the checks greedy and CSP enforce (approved and
+   * rule days off, availability, days in a row, contract weekly hours, avoided shifts),
+   * against the schedule after the move without the cell itself
+   */
+  private keepsHardConstraints(move: ScheduleMove, schedule: ScheduleEntry[], month: number, year: number): boolean {
+    const after = move.apply(schedule);
+
+    return move.entries.every(entry => {
+      const employee = this.employees.find(emp => emp.id === entry.employeeId);
+      const shift = this.shifts.find(sh => sh.id === entry.shiftId);
+      if (!employee || !shift) return false;
+
+      const others = after.filter(s => s !== entry);
+      return this.getRejectionReason(employee, entry.day, shift, others, month, year) === null;
+    });
+  }
+
+  private resetSearchBudget(maxIterations: number, timeoutMs: number, startedAt = Date.now()): void {
+    this.searchBudget = {
+      startedAt,
+      deadline: startedAt + timeoutMs,
+      maxIterations,
+      iterationsUsed: 0,
+      phaseStartedAt: startedAt,
+      phaseDeadline: startedAt + timeoutMs,
+      phaseIterations: maxIterations,
+      phaseIterationsLeft: maxIterations
+    };
+  }
+
+  /**
+   * Allot a share of what is left of the run's time and moves to the next phase
+   */
+  private startBudgetPhase(share: number): void {
+    const budget = this.searchBudget;
+    const now = Date.now();
+
+    budget.phaseStartedAt = now;
+    budget.phaseDeadline = now + Math.max(0, budget.deadline - now) * share;
+    budget.phaseIterations = Math.ceil((budget.maxIterations - budget.iterationsUsed) * share);
+    budget.phaseIterationsLeft = budget.phaseIterations;
+  }
+
+  private hasSearchBudget(): boolean {
+    return this.searchBudget.phaseIterationsLeft > 0 && Date.now() < this.searchBudget.phaseDeadline;
+  }
+
+  private spendIteration(): void {
+    this.searchBudget.phaseIterationsLeft--;
+    this.searchBudget.iterationsUsed++;
+  }
+
+  /**
+   * Annealing temperature for the share of the phase's budget already used
+   */
+  private getTemperature(): number {
+    const { phaseStartedAt, phaseDeadline, phaseIterations, phaseIterationsLeft } = this.searchBudget;
+    const progress = Math.min(1, Math.max(
+      phaseIterations > 0 ? 1 - phaseIterationsLeft / phaseIterations : 1,
+      (Date.now() - phaseStartedAt) / Math.max(1, phaseDeadline - phaseStartedAt)
+    ));
+
+    return ANNEALING_START_TEMPERATURE *
+      Math.pow(ANNEALING_END_TEMPERATURE / ANNEALING_START_TEMPERATURE, progress);
+  }
+
+  /**
+   * Add a point to the score trace; without `force` only every TRACE_INTERVAL iterations
+   */
+  private traceScore(score: number, bestScore: number, force: boolean): void {
+    const { startedAt, iterationsUsed: iteration } = this.searchBudget;
+    if (!force && iteration % TRACE_INTERVAL !== 0) return;
+
+    const point: ScoreTracePoint = {
+      iteration,
+      elapsedMs: Date.now() - startedAt,
+      score: Math.round(score * 10) / 10,
+      bestScore: Math.round(bestScore * 10) / 10
+    };
+
+    // One point per iteration, the latest one wins
+    if (this.scoreTrace[this.scoreTrace.length - 1]?.iteration === iteration) {
+      this.scoreTrace[this.scoreTrace.length - 1] = point;
+    } else {
+      this.scoreTrace.push(point);
+    }
+
+    if (this.scoreTrace.length > MAX_TRACE_POINTS) {
+      const last = this.scoreTrace.length - 1;
+      this.scoreTrace = this.scoreTrace.filter((_, index) => index % 2 === 0 || index === last);
     }
   }
 
-  private localSearchOptimization(
-    schedule: ScheduleEntry[],
-    month: number,
-    year: number
-  ): ScheduleEntry[] {
-    // Local search with swaps and moves
-    let improved = true;
-    let iterations = 0;
-    const maxIterations = 100;
+  /**
+   * Explain the entries of the best schedule the search created; changes it later undid
+   * are not recorded
+   */
+  private explainAnnealing(
+    initial: ScheduleEntry[],
+    best: ScheduleEntry[],
+    notes: Map<ScheduleEntry, string>,
+    beforeScore: number,
+    afterScore: number
+  ): void {
+    const keyOf = (entry: ScheduleEntry) => `${entry.employeeId}:${entry.day}:${entry.shiftId}`;
+    const initialKeys = new Set(initial.map(keyOf));
+
+    for (const entry of best) {
+      const note = notes.get(entry);
+      if (!note || initialKeys.has(keyOf(entry))) continue;
+
+      this.explanations.push({
+        day: entry.day,
+        shiftId: entry.shiftId,
+        source: 'optimizer',
+        employeeIds: [entry.employeeId],
+        unfilled: 0,
+        candidates: [],
+        note: `${note}: оценка графика ${Math.round(beforeScore)} → ${Math.round(afterScore)}`
+      });
+    }
+  }
+
+  /**
+   * Schedule objective: rule violations plus the objective terms scaled by their weights
+   */
+  private calculateScheduleScore(
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): number {
+    return this.createScoreState(schedule, month, year).score;
+  }
+
+  /**
+   * Score a whole schedule, keeping its parts per employee and per day
+   */
+  private createScoreState(schedule: ScheduleEntry[], month: number, year: number): ScoreState {
+    const byEmployee = new Map<string, ScheduleEntry[]>();
+    const byDay = new Map<number, ScheduleEntry[]>();
+    for (const entry of schedule) {
+      if (!byEmployee.has(entry.employeeId)) byEmployee.set(entry.employeeId, []);
+      if (!byDay.has(entry.day)) byDay.set(entry.day, []);
+      byEmployee.get(entry.employeeId)!.push(entry);
+      byDay.get(entry.day)!.push(entry);
+    }
+
+    const days = this.getCheckedDays();
+
+    return this.withScore({
+      schedule,
+      byEmployee,
+      byDay,
+      employeePenalty: this.getEmployeePenalties(schedule, this.employees.map(emp => emp.id), month, year),
+      dayPenalty: this.getDayPenalties(schedule, days, month, year),
+      monthPenalty: this.getMonthPenalty(schedule, month, year),
+      employeeTerms: new Map(this.employees.map(emp => [emp.id, this.getEmployeeTerms(emp, byEmployee.get(emp.id) || [])])),
+      dayCoverage: new Map(days.map(day => [day, this.getDayCoverage(day, byDay.get(day) || [])]))
+    });
+  }
+
+  /**
+   * Score the schedule after a move, rescoring only the employees and days it touches
+   */
+  private scoreMove(state: ScoreState, move: ScheduleMove, month: number, year: number): ScoreState {
+    const removed = new Set(move.removed);
+    const touched = [...move.removed, ...move.entries];
+    const employeeIds = [...new Set(touched.map(entry => entry.employeeId))];
+    const days = [...new Set(touched.map(entry => entry.day))];
+
+    const byEmployee = new Map(state.byEmployee);
+    for (const employeeId of employeeIds) {
+      byEmployee.set(employeeId, [
+        ...(byEmployee.get(employeeId) || []).filter(entry => !removed.has(entry)),
+        ...move.entries.filter(entry => entry.employeeId === employeeId)
+      ]);
+    }
+
+    const byDay = new Map(state.byDay);
+    for (const day of days) {
+      byDay.set(day, [
+        ...(byDay.get(day) || []).filter(entry => !removed.has(entry)),
+        ...move.entries.filter(entry => entry.day === day)
+      ]);
+    }
+
+    const schedule = move.apply(state.schedule);
+    const employeePenalty = new Map(state.employeePenalty);
+    const employeeTerms = new Map(state.employeeTerms);
+    const dayPenalty = new Map(state.dayPenalty);
+    const dayCoverage = new Map(state.dayCoverage);
+
+    const employeeSchedule = employeeIds.flatMap(employeeId => byEmployee.get(employeeId) || []);
+    this.getEmployeePenalties(employeeSchedule, employeeIds, month, year)
+      .forEach((penalty, employeeId) => employeePenalty.set(employeeId, penalty));
+
+    for (const employeeId of employeeIds) {
+      const employee = this.employees.find(emp => emp.id === employeeId);
+      if (employee) employeeTerms.set(employeeId, this.getEmployeeTerms(employee, byEmployee.get(employeeId) || []));
+    }
+
+    const daySchedule = days.flatMap(day => byDay.get(day) || []);
+    this.getDayPenalties(daySchedule, days, month, year)
+      .forEach((penalty, day) => dayPenalty.set(day, penalty));
+
+    for (const day of days) {
+      dayCoverage.set(day, this.getDayCoverage(day, byDay.get(day) || []));
+    }
+
+    return this.withScore({
+      schedule,
+      byEmployee,
+      byDay,
+      employeePenalty,
+      dayPenalty,
+      monthPenalty: this.getMonthPenalty(schedule, month, year),
+      employeeTerms,
+      dayCoverage
+    });
+  }
+
+  /**
+   * Total the parts: violation penalties against the weighted objective terms
+   */
+  private withScore(parts: Omit<ScoreState, 'score'>): ScoreState {
+    const sum = (values: Iterable<number>) => [...values].reduce((total, value) => total + value, 0);
+    // Penalty for violations, weighted per rule so that breaking a staffing or manager
+    // requirement costs far more than exceeding a recommendation
+    let score = -(sum(parts.employeePenalty.values()) + sum(parts.dayPenalty.values()) + parts.monthPenalty);
+
+    const objective = this.getObjectiveScores(parts);
+    for (const key of OBJECTIVE_KEYS) {
+      score += this.objectiveWeights[key] * objective[key];
+    }
+
+    return { ...parts, score };
+  }
+
+  /**
+   * Weighted violations of the employee rules over the entries of the given employees,
+   * per employee; each rule is narrowed to those employees so nobody else is checked
+   */
+  private getEmployeePenalties(
+    schedule: ScheduleEntry[],
+    employeeIds: string[],
+    month: number,
+    year: number
+  ): Map<string, number> {
+    const penalties = new Map(employeeIds.map(employeeId => [employeeId, 0]));
+
+    for (const rule of this.getScoredRules('employee')) {
+      const employees = this.getRuleEmployees(rule).filter(emp => penalties.has(emp.id));
+      if (employees.length === 0) continue;
+
+      const narrowed = { ...rule, appliesToEmployees: employees.map(emp => emp.id) };
+      for (const violation of this.validateRule(narrowed, schedule, month, year)) {
+        if (!violation.employeeId || !penalties.has(violation.employeeId)) continue;
+        penalties.set(violation.employeeId, penalties.get(violation.employeeId)! + VIOLATION_PENALTY * violation.weight);
+      }
+    }
+
+    return penalties;
+  }
+
+  /**
+   * Weighted violations of the day rules over the entries of the given days, per day
+   */
+  private getDayPenalties(
+    schedule: ScheduleEntry[],
+    days: number[],
+    month: number,
+    year: number
+  ): Map<number, number> {
+    const penalties = new Map(days.map(day => [day, 0]));
+
+    for (const rule of this.getScoredRules('day')) {
+      for (const violation of this.validateRule(rule, schedule, month, year, days)) {
+        if (violation.day === undefined || !penalties.has(violation.day)) continue;
+        penalties.set(violation.day, penalties.get(violation.day)! + VIOLATION_PENALTY * violation.weight);
+      }
+    }
+
+    return penalties;
+  }
+
+  /**
+   * Weighted violations of the rules that depend on the whole month
+   */
+  private getMonthPenalty(schedule: ScheduleEntry[], month: number, year: number): number {
+    return this.getScoredRules('month')
+      .flatMap(rule => this.validateRule(rule, schedule, month, year))
+      .reduce((sum, violation) => sum + VIOLATION_PENALTY * violation.weight, 0);
+  }
+
+  private getScoredRules(scope: RuleScoreScope): ValidationRule[] {
+    return this.validationRules.filter(rule =>
+      isValidationRuleType(rule.ruleType) && ruleRegistry[rule.ruleType].scoreScope === scope
+    );
+  }
+
+  /**
+   * Objective terms before weighting; higher is better, so fairness and cost are not positive
+   */
+  private getObjectiveScores(parts: Pick<ScoreState, 'employeeTerms' | 'dayCoverage'>): ObjectiveWeights {
+    // Fairness and cost: hours against each contract's target, unpleasant shifts
+    // including the previous months
+    const hourShares: number[] = [];
+    let totalHours = 0;
+    let overtimeHours = 0;
+    let preferences = 0;
+
+    for (const employee of this.employees) {
+      const terms = parts.employeeTerms.get(employee.id);
+      const employeeHours = terms?.hours || 0;
+      const targetHours = this.getTargetHours(employee);
+      totalHours += employeeHours;
+      preferences += terms?.preferences || 0;
+
+      if (employee.excludeFromHours || targetHours <= 0) continue;
+      hourShares.push((employeeHours / targetHours) * 100);
+      overtimeHours += Math.max(0, employeeHours - targetHours);
+    }
+
+    const burdens = this.employees.map(emp =>
+      (this.pastBurden.get(emp.id) || 0) + (parts.employeeTerms.get(emp.id)?.burden || 0)
+    );
+    const fairness = -(standardDeviation(hourShares) * HOURS_SPREAD_PENALTY +
+      standardDeviation(burdens) * BURDEN_SPREAD_PENALTY);
+
+    return {
+      coverage: [...parts.dayCoverage.values()].reduce((sum, value) => sum + value, 0),
+      fairness,
+      preferences,
+      cost: -(totalHours + overtimeHours * OVERTIME_SURCHARGE)
+    };
+  }
+
+  /**
+   * Hours, unpleasant shifts and kept preferences of an employee's entries
+   */
+  private getEmployeeTerms(employee: EmployeeData, entries: ScheduleEntry[]): EmployeeObjectiveTerms {
+    let hours = 0;
+    let burden = 0;
+
+    for (const entry of entries) {
+      if (!this.isWorkShift(entry.shiftId)) continue;
+      const shift = this.shifts.find(sh => sh.id === entry.shiftId);
+      hours += shift?.hours || 0;
+      burden += this.getShiftBurden(shift, entry.day);
+    }
+
+    return { hours, burden, preferences: this.getPreferenceScore(employee, entries) };
+  }
+
+  /**
+   * Coverage of a day: hours of the required positions filled, staffing above minStaff
+   * does not count
+   */
+  private getDayCoverage(day: number, entries: ScheduleEntry[]): number {
+    if (!this.isInMonth(day) || !this.operatingHours.has(day)) return 0;
+
+    let coverage = 0;
+    for (const shift of this.shifts) {
+      if (!this.isWorkShift(shift.id) || shift.minStaff <= 0 || !this.isShiftOpen(shift, day)) continue;
+
+      const assigned = entries.filter(entry => entry.shiftId === shift.id).length;
+      coverage += Math.min(assigned, shift.minStaff) * Math.max(1, shift.hours) *
+        shift.coveragePriority * COVERAGE_HOUR_SCORE;
+    }
+
+    return coverage;
+  }
+
+  /**
+   * Preference satisfaction of an employee: a bonus for every day a preferred shift is
+   * worked inside the preference's window and a penalty for every day an avoided one is,
+   * scaled by the preference weight, so that each kept day counts
+   */
+  private getPreferenceScore(employee: EmployeeData, entries: ScheduleEntry[]): number {
+    let score = 0;
+
+    for (const preference of employee.preferences) {
+      const matching = entries.filter(s =>
+        s.shiftId === preference.targetShiftId && this.preferenceAppliesOn(preference, s.day)
+      );
+
+      const weight = preference.weight ?? 1;
+
+      if (preference.preferenceType === 'preferred_shift') {
+        score += matching.length * 10 * weight;
+      }
+
+      if (preference.preferenceType === 'avoid_shift') {
+        score -= matching.length * 10 * weight;
+      }
+    }
+
+    return score;
+  }
+
+  private async validateScheduleIntegrity(
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): Promise<ValidationResult> {
+    const violations = this.validateAgainstRules(schedule, month, year);
+    const errors = violations.filter(v => v.severity === 'error');
+    const warnings = violations.filter(v => v.severity === 'warning');
+
+    const metrics = this.calculateScheduleMetrics(schedule, month, year);
+
+    return {
+      isValid: errors.length === 0,
+      violations,
+      warnings,
+      metrics,
+      errorCount: errors.length
+    };
+  }
+
+  private validateAgainstRules(
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+
+    for (const rule of this.validationRules) {
+      const ruleViolations = this.validateRule(rule, schedule, month, year);
+      violations.push(...ruleViolations);
+    }
+
+    return violations;
+  }
+
+  // One validator per rule type of the registry; the Record type keeps the two in sync
+  private readonly ruleValidators: Record<ValidationRuleType, RuleValidator> = {
+    max_consecutive_shifts: (rule, schedule, month, year) => this.validateMaxConsecutiveWorkDays(rule, schedule, month, year),
+    min_employees_per_shift: (...args) => this.validateMinEmployeesPerShift(...args),
+    max_employees_per_shift: (...args) => this.validateMaxEmployeesPerShift(...args),
+    max_employees_per_shift_type: (...args) => this.validateMaxEmployeesPerShiftType(...args),
+    required_coverage: (...args) => this.validateRequiredCoverage(...args),
+    manager_requirements: (...args) => this.validateManagerRequirements(...args),
+    max_total_hours: (rule, schedule, month, year) => this.validateMaxTotalHours(rule, schedule, month, year),
+    max_hours_without_managers: (...args) => this.validateMaxHoursWithoutManagers(...args),
+    employee_hours_limit: (rule, schedule, month, year) => this.validateEmployeeHoursLimit(rule, schedule, month, year),
+    recommended_work_days: (rule, schedule, month, year) => this.validateMaxConsecutiveWorkDays(rule, schedule, month, year),
+    required_work_days: (rule, schedule, month, year) => this.validateRequiredWorkDays(rule, schedule, month, year),
+    coverage_by_time: (...args) => this.validateCoverageByTime(...args),
+    coverage_by_day: (...args) => this.validateCoverageByDay(...args),
+    shift_type_limit_per_day: (...args) => this.validateShiftTypeLimitPerDay(...args),
+    max_consecutive_work_days: (rule, schedule, month, year) => this.validateMaxConsecutiveWorkDays(rule, schedule, month, year),
+    max_consecutive_days_off: (rule, schedule, month, year) => this.validateMaxConsecutiveDaysOff(rule, schedule, month, year),
+    employee_day_off: (rule, schedule, month, year) => this.validateEmployeeDayOff(rule, schedule, month, year),
+    approved_day_off_requests: (rule, schedule, month, year) => this.validateApprovedDayOffRequests(rule, schedule, month, year),
+    min_rest_between_shifts: (rule, schedule, month, year) => this.validateMinRestBetweenShifts(rule, schedule, month, year),
+    required_roles_per_shift: (...args) => this.validateRequiredRolesPerShift(...args),
+    max_shifts_per_week: (rule, schedule, month, year) => this.validateMaxShiftsPerWeek(rule, schedule, month, year),
+    max_hours_per_week: (rule, schedule, month, year) => this.validateMaxHoursPerWeek(rule, schedule, month, year),
+    max_hours_per_month: (rule, schedule, month, year) => this.validateMaxHoursPerMonth(rule, schedule, month, year)
+  };
+
+  private validateRule(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number,
+    days?: number[]
+  ): RuleViolation[] {
+    if (!isValidationRuleType(rule.ruleType)) {
+      console.warn(`Unknown rule type: ${rule.ruleType}`);
+      return [];
+    }
+
+    return this.ruleValidators[rule.ruleType](rule, schedule, month, year, days);
+  }
+
+  private getCheckedDays(days?: number[]): number[] {
+    return days ?? Array.from({ length: this.daysInMonth }, (_, i) => i + 1);
+  }
+
+  private validateMaxConsecutiveWorkDays(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+    // recommended_work_days stores the limit as max_consecutive_days
+    const maxDays = rule.config.max_days || rule.config.max_consecutive_days || 5;
+
+    for (const employee of this.getRuleEmployees(rule)) {
+      const employeeSchedule = this.withBoundaryContext(schedule)
+        .filter(s => s.employeeId === employee.id && s.shiftId !== 'Выходной')
+        .sort((a, b) => a.day - b.day);
+
+      // Split into streaks of consecutive days; streaks may start or end in the neighbouring months
+      const streaks: number[][] = [];
+      for (const entry of employeeSchedule) {
+        const streak = streaks[streaks.length - 1];
+        if (streak && entry.day === streak[streak.length - 1] + 1) {
+          streak.push(entry.day);
+        } else if (!streak || entry.day !== streak[streak.length - 1]) {
+          streaks.push([entry.day]);
+        }
+      }
+
+      for (const streak of streaks) {
+        if (streak.length <= maxDays) continue;
+
+        // Days beyond the limit are flagged; if they all fall into the next month,
+        // the last day of this month that leads into them is flagged instead
+        let flaggedDays = streak.slice(maxDays).filter(day => this.isInMonth(day));
+        if (flaggedDays.length === 0) {
+          const lastInMonth = streak.filter(day => this.isInMonth(day)).pop();
+          flaggedDays = lastInMonth !== undefined && streak[streak.length - 1] > this.daysInMonth
+            ? [lastInMonth]
+            : [];
+        }
+
+        for (const day of flaggedDays) {
+          violations.push(this.createViolation(rule, {
+            employeeId: employee.id,
+            day,
+            actual: streak.length,
+            limit: maxDays
+          }, `${employee.name} работает более ${maxDays} дней подряд`));
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private validateMinEmployeesPerShift(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number,
+    days?: number[]
+  ): RuleViolation[] {
+    const ruleSchedule = this.getRuleSchedule(rule, schedule);
+    const violations: RuleViolation[] = [];
+    const minEmployees = rule.config.min || 1;
+
+    // Group ruleSchedule by day and shift
+    const shiftCoverage = new Map<string, number>();
+
+    for (const entry of ruleSchedule) {
+      if (entry.shiftId === 'Выходной') continue;
+
+      const key = `${entry.day}-${entry.shiftId}`;
+      shiftCoverage.set(key, (shiftCoverage.get(key) || 0) + 1);
+    }
+
+    // Check each day/shift combination the store is open for
+    for (const day of this.getCheckedDays(days)) {
+      for (const shift of this.shifts) {
+        if (shift.id === 'Выходной' || !this.isShiftOpen(shift, day)) continue;
+
+        const key = `${day}-${shift.id}`;
+        const employeeCount = shiftCoverage.get(key) || 0;
+
+        if (employeeCount < minEmployees) {
+          violations.push(this.createViolation(rule, {
+            day,
+            shiftId: shift.id,
+            actual: employeeCount,
+            limit: minEmployees
+          }, `Смена "${shift.name}" ${day} числа имеет только ${employeeCount} сотрудника(ов), требуется минимум ${minEmployees}`));
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private validateMaxEmployeesPerShift(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number,
+    days?: number[]
+  ): RuleViolation[] {
+    const ruleSchedule = this.getRuleSchedule(rule, schedule);
+    const violations: RuleViolation[] = [];
+    const maxEmployees = rule.config.max || 10;
+
+    // Group ruleSchedule by day and shift
+    const shiftCoverage = new Map<string, number>();
+
+    for (const entry of ruleSchedule) {
+      if (entry.shiftId === 'Выходной') continue;
+
+      const key = `${entry.day}-${entry.shiftId}`;
+      shiftCoverage.set(key, (shiftCoverage.get(key) || 0) + 1);
+    }
+
+    // Check each day/shift combination
+    for (const day of this.getCheckedDays(days)) {
+      for (const shift of this.shifts) {
+        if (shift.id === 'Выходной') continue;
+
+        const key = `${day}-${shift.id}`;
+        const employeeCount = shiftCoverage.get(key) || 0;
+
+        if (employeeCount > maxEmployees) {
+          violations.push(this.createViolation(rule, {
+            day,
+            shiftId: shift.id,
+            actual: employeeCount,
+            limit: maxEmployees
+          }, `Смена "${shift.name}" ${day} числа имеет ${employeeCount} сотрудника(ов), максимум разрешено ${maxEmployees}`));
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private validateMaxHoursPerWeek(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+    const configuredMax = rule.config.max_hours || 40;
+
+    for (const employee of this.getRuleEmployees(rule)) {
+      const { minWeeklyHours, maxWeeklyHours } = employee.contract;
+      const maxHours = Math.min(configuredMax, maxWeeklyHours ?? Infinity);
+      const weeklyHours = this.getWeeklyHours(employee.id, schedule);
+
+      // Check each week
+      for (const hours of weeklyHours.values()) {
+        if (hours > maxHours) {
+          violations.push(this.createViolation(rule, {
+            employeeId: employee.id,
+            actual: hours,
+            limit: maxHours
+          }, `${employee.name} работает ${hours} часов в неделю, максимум разрешено ${maxHours}`));
+        }
+      }
+
+      // The contract minimum is only checked for weeks that lie entirely within the month
+      if (minWeeklyHours === undefined) continue;
+      for (let weekStart = this.getWeekStart(1); weekStart <= this.daysInMonth; weekStart += 7) {
+        if (weekStart < 1 || weekStart + 6 > this.daysInMonth) continue;
+
+        const hours = weeklyHours.get(weekStart) || 0;
+        if (hours < minWeeklyHours) {
+          violations.push(this.createViolation(rule, {
+            employeeId: employee.id,
+            day: weekStart,
+            actual: hours,
+            limit: minWeeklyHours
+          }, `${employee.name} работает ${hours} часов в неделю, по договору минимум ${minWeeklyHours}`));
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private validateApprovedDayOffRequests(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+
+    for (const employee of this.getRuleEmployees(rule)) {
+      for (const preference of employee.preferences) {
+        if (preference.preferenceType !== 'day_off' || !preference.targetDate) continue;
+
+        const prefDate = new Date(preference.targetDate);
+        if (prefDate.getMonth() !== month || prefDate.getFullYear() !== year) continue;
+
+        const day = prefDate.getDate();
+        const hasDayOff = schedule.some(s =>
+          s.employeeId === employee.id &&
+          s.day === day &&
+          s.shiftId === 'Выходной'
+        );
+
+        if (!hasDayOff) {
+          violations.push(this.createViolation(rule, {
+            employeeId: employee.id,
+            day
+          }, `${employee.name} должен иметь выходной ${day} числа (утвержденная заявка)`));
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private validateMinRestBetweenShifts(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+    const minRestHours = rule.config.hours || 12;
+
+    for (const employee of this.getRuleEmployees(rule)) {
+      const employeeSchedule = this.withBoundaryContext(schedule)
+        .filter(s => s.employeeId === employee.id && s.shiftId !== 'Выходной')
+        .sort((a, b) => a.day - b.day);
+
+      for (let i = 0; i < employeeSchedule.length - 1; i++) {
+        const currentShift = employeeSchedule[i];
+        const nextShift = employeeSchedule[i + 1];
+
+        if (currentShift.day + 1 !== nextShift.day) continue; // Not consecutive days
+
+        // Pairs across the boundary are reported on the day that belongs to this month
+        const reportDay = this.isInMonth(nextShift.day) ? nextShift.day : currentShift.day;
+        if (!this.isInMonth(reportDay)) continue;
+
+        const currentShiftObj = this.shifts.find(s => s.id === currentShift.shiftId);
+        const nextShiftObj = this.shifts.find(s => s.id === nextShift.shiftId);
+
+        if (!currentShiftObj?.endTime || !nextShiftObj?.startTime) continue;
+
+        // Parse times
+        const currentEndTime = this.parseTime(currentShiftObj.endTime);
+        const nextStartTime = this.parseTime(nextShiftObj.startTime);
+
+        // Calculate rest hours
+        const restHours = currentEndTime < nextStartTime
+          ? nextStartTime - currentEndTime
+          : (24 - currentEndTime) + nextStartTime;
+
+        if (restHours < minRestHours) {
+          violations.push(this.createViolation(rule, {
+            employeeId: employee.id,
+            day: reportDay,
+            actual: restHours,
+            limit: minRestHours
+          }, `${employee.name} имеет только ${restHours}ч отдыха между сменами, минимум ${minRestHours}ч`));
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private validateRequiredRolesPerShift(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number,
+    days?: number[]
+  ): RuleViolation[] {
+    const ruleSchedule = this.getRuleSchedule(rule, schedule);
+    const violations: RuleViolation[] = [];
+    const requiredRole = rule.config.role;
+    const minCount = rule.config.min_count || 1;
+
+    if (!requiredRole) return violations;
+
+    // Check each day/shift combination the store is open for
+    for (const day of this.getCheckedDays(days)) {
+      for (const shift of this.shifts) {
+        if (shift.id === 'Выходной' || !this.isShiftOpen(shift, day)) continue;
+
+        const dayShiftEmployees = ruleSchedule.filter(s =>
+          s.day === day && s.shiftId === shift.id
+        );
+
+        const employeesWithRole = dayShiftEmployees.filter(s => {
+          const employee = this.employees.find(e => e.id === s.employeeId);
+          return employee?.roleName === requiredRole;
+        });
 
-    while (improved && iterations < maxIterations) {
-      improved = false;
-      iterations++;
-
-      // Try swaps between employees
-      for (let i = 0; i < schedule.length; i++) {
-        for (let j = i + 1; j < schedule.length; j++) {
-          const entry1 = schedule[i];
-          const entry2 = schedule[j];
-
-          // Only try swaps on the same day
-          if (entry1.day !== entry2.day) continue;
-          if (entry1.shiftId === entry2.shiftId) continue;
-
-          // Test if swap improves overall score
-          const beforeScore = this.calculateScheduleScore(schedule, month, year);
-
-          // Perform swap
-          const tempShiftId = entry1.shiftId;
-          schedule[i] = { ...entry1, shiftId: entry2.shiftId };
-          schedule[j] = { ...entry2, shiftId: tempShiftId };
-
-          const afterScore = this.calculateScheduleScore(schedule, month, year);
-
-          if (afterScore > beforeScore) {
-            improved = true;
-          } else {
-            // Revert swap
-            schedule[i] = { ...schedule[i], shiftId: tempShiftId };
-            schedule[j] = { ...schedule[j], shiftId: entry2.shiftId };
-          }
+        if (employeesWithRole.length < minCount) {
+          violations.push(this.createViolation(rule, {
+            day,
+            shiftId: shift.id,
+            actual: employeesWithRole.length,
+            limit: minCount
+          }, `Смена "${shift.name}" ${day} числа требует минимум ${minCount} сотрудника(ов) с ролью "${requiredRole}"`));
         }
       }
     }
 
-    return schedule;
+    return violations;
   }
 
-  private calculateScheduleScore(
+  private validateMaxShiftsPerWeek(
+    rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
     year: number
-  ): number {
-    let score = 0;
+  ): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+    const maxShifts = rule.config.max || 5;
 
-    // Penalty for violations
-    const violations = this.validateAgainstRules(schedule, month, year);
-    score -= violations.length * 100;
+    for (const employee of this.getRuleEmployees(rule)) {
+      const employeeSchedule = schedule.filter(s =>
+        s.employeeId === employee.id && s.shiftId !== 'Выходной'
+      );
 
-    // Bonus for preference satisfaction
-    for (const employee of this.employees) {
-      for (const preference of employee.preferences) {
-        const day = new Date(preference.targetDate).getDate();
-        const employeeSchedule = schedule.filter(s => s.employeeId === employee.id);
+      // Group by weeks
+      const weeklyShifts = new Map<number, number>();
 
-        if (preference.preferenceType === 'preferred_shift') {
-          const hasPreferredShift = employeeSchedule.some(s =>
-            s.day === day && s.shiftId === preference.targetShiftId
-          );
-          if (hasPreferredShift) score += 10;
-        }
+      for (const entry of employeeSchedule) {
+        const date = new Date(year, month, entry.day);
+        const weekStart = new Date(date.setDate(date.getDate() - date.getDay()));
+        const weekKey = weekStart.getTime();
 
-        if (preference.preferenceType === 'avoid_shift') {
-          const hasAvoidedShift = employeeSchedule.some(s =>
-            s.day === day && s.shiftId === preference.targetShiftId
-          );
-          if (!hasAvoidedShift) score += 10;
+        weeklyShifts.set(weekKey, (weeklyShifts.get(weekKey) || 0) + 1);
+      }
+
+      // Check each week
+      for (const [weekKey, shifts] of weeklyShifts) {
+        if (shifts > maxShifts) {
+          violations.push(this.createViolation(rule, {
+            employeeId: employee.id,
+            actual: shifts,
+            limit: maxShifts
+          }, `${employee.name} работает ${shifts} смен в неделю, максимум разрешено ${maxShifts}`));
         }
       }
     }
 
-    return score;
+    return violations;
   }
 
-  private async validateScheduleIntegrity(
+  private validateMaxHoursPerMonth(
+    rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
     year: number
-  ): Promise<ValidationResult> {
-    const violations = this.validateAgainstRules(schedule, month, year);
-    const errors = violations.filter(v => v.severity === 'error');
-    const warnings = violations.filter(v => v.severity === 'warning');
+  ): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+    for (const employee of this.getRuleEmployees(rule)) {
+      const maxHours = this.getMonthlyHoursLimit(rule, rule.config.max_hours || 160, employee);
+      const employeeSchedule = schedule.filter(s =>
+        s.employeeId === employee.id && s.shiftId !== 'Выходной'
+      );
 
-    const metrics = this.calculateScheduleMetrics(schedule, month, year);
+      let totalHours = 0;
+      for (const entry of employeeSchedule) {
+        const shift = this.shifts.find(s => s.id === entry.shiftId);
+        totalHours += shift?.hours || 0;
+      }
 
-    return {
-      isValid: errors.length === 0,
-      violations,
-      warnings,
-      metrics,
-      errorCount: errors.length
-    };
+      if (totalHours > maxHours) {
+        violations.push(this.createViolation(rule, {
+          employeeId: employee.id,
+          actual: totalHours,
+          limit: maxHours
+        }, `${employee.name} работает ${totalHours} часов в месяц, максимум разрешено ${maxHours}`));
+      }
+    }
+
+    return violations;
   }
 
-  private validateAgainstRules(
+  private validateMaxEmployeesPerShiftType(
+    rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
-    year: number
+    year: number,
+    days?: number[]
+  ): RuleViolation[] {
+    const shift = this.shifts.find(s => s.id === rule.config.shift_id);
+    if (!shift) return [];
+
+    return this.validateShiftDayLimit(rule, schedule, shift, rule.config.max ?? 0, days);
+  }
+
+  private validateShiftTypeLimitPerDay(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number,
+    days?: number[]
   ): RuleViolation[] {
     const violations: RuleViolation[] = [];
+    const limits: Record<string, unknown> = rule.config.shift_limits || {};
 
-    for (const rule of this.validationRules) {
-      const ruleViolations = this.validateRule(rule, schedule, month, year);
-      violations.push(...ruleViolations);
+    for (const [shiftId, max] of Object.entries(limits)) {
+      const shift = this.shifts.find(s => s.id === shiftId);
+      if (!shift || typeof max !== 'number') continue;
+
+      violations.push(...this.validateShiftDayLimit(rule, schedule, shift, max, days));
     }
 
     return violations;
   }
 
-  private validateRule(
+  private validateShiftDayLimit(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
-    month: number,
-    year: number
+    shift: ShiftData,
+    max: number,
+    days?: number[]
   ): RuleViolation[] {
+    const ruleSchedule = this.getRuleSchedule(rule, schedule);
     const violations: RuleViolation[] = [];
 
-    switch (rule.ruleType) {
-      case 'max_consecutive_work_days':
-        violations.push(...this.validateMaxConsecutiveWorkDays(rule, schedule, month, year));
-        break;
-      case 'min_employees_per_shift':
-        violations.push(...this.validateMinEmployeesPerShift(rule, schedule, month, year));
-        break;
-      case 'max_employees_per_shift':
-        violations.push(...this.validateMaxEmployeesPerShift(rule, schedule, month, year));
-        break;
-      case 'max_hours_per_week':
-        violations.push(...this.validateMaxHoursPerWeek(rule, schedule, month, year));
-        break;
-      case 'approved_day_off_requests':
-        violations.push(...this.validateApprovedDayOffRequests(rule, schedule, month, year));
-        break;
-      case 'min_rest_between_shifts':
-        violations.push(...this.validateMinRestBetweenShifts(rule, schedule, month, year));
-        break;
-      case 'required_roles_per_shift':
-        violations.push(...this.validateRequiredRolesPerShift(rule, schedule, month, year));
-        break;
-      case 'max_shifts_per_week':
-        violations.push(...this.validateMaxShiftsPerWeek(rule, schedule, month, year));
-        break;
-      case 'max_hours_per_month':
-        violations.push(...this.validateMaxHoursPerMonth(rule, schedule, month, year));
-        break;
-      // Add more rule validations as needed
-      default:
-        console.warn(`Unknown rule type: ${rule.ruleType}`);
-        break;
+    for (const day of this.getCheckedDays(days)) {
+      const employeeCount = ruleSchedule.filter(s => s.day === day && s.shiftId === shift.id).length;
+
+      if (employeeCount > max) {
+        violations.push(this.createViolation(rule, {
+          day,
+          shiftId: shift.id,
+          actual: employeeCount,
+          limit: max
+        }, `Смена "${shift.name}" ${day} числа имеет ${employeeCount} сотрудника(ов), для этой смены максимум ${max}`));
+      }
     }
 
     return violations;
   }
 
-  private validateMaxConsecutiveWorkDays(
+  private validateRequiredCoverage(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
-    year: number
+    year: number,
+    days?: number[]
   ): RuleViolation[] {
+    const ruleSchedule = this.getRuleSchedule(rule, schedule);
     const violations: RuleViolation[] = [];
-    const maxDays = rule.config.max_days || 5;
-
-    for (const employee of this.employees) {
-      const employeeSchedule = schedule
-        .filter(s => s.employeeId === employee.id && s.shiftId !== 'Выходной')
-        .sort((a, b) => a.day - b.day);
-
-      let consecutiveDays = 0;
-      let lastDay = 0;
-
-      for (const entry of employeeSchedule) {
-        if (entry.day === lastDay + 1) {
-          consecutiveDays++;
-        } else {
-          consecutiveDays = 1;
-        }
+    const minEmployees = rule.config.min_employees ?? 1;
 
-        if (consecutiveDays > maxDays) {
-          violations.push({
-            ruleType: rule.ruleType,
-            severity: rule.enforcementType,
-            employeeId: employee.id,
-            day: entry.day,
-            message: `${employee.name} работает более ${maxDays} дней подряд`,
-            priority: rule.priority
-          });
-        }
+    for (const day of this.getCheckedDays(days).filter(day => this.operatingHours.has(day))) {
+      const employeeCount = this.countWorkingOnDay(ruleSchedule, day);
 
-        lastDay = entry.day;
+      if (employeeCount < minEmployees) {
+        violations.push(this.createViolation(rule, {
+          day,
+          actual: employeeCount,
+          limit: minEmployees
+        }, `${day} числа работает ${employeeCount} сотрудника(ов), требуется минимум ${minEmployees}`));
       }
     }
 
     return violations;
   }
 
-  private validateMinEmployeesPerShift(
+  private validateCoverageByDay(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
-    year: number
+    year: number,
+    days?: number[]
   ): RuleViolation[] {
+    const ruleSchedule = this.getRuleSchedule(rule, schedule);
     const violations: RuleViolation[] = [];
-    const minEmployees = rule.config.min || 1;
-
-    // Group schedule by day and shift
-    const shiftCoverage = new Map<string, number>();
-
-    for (const entry of schedule) {
-      if (entry.shiftId === 'Выходной') continue;
-
-      const key = `${entry.day}-${entry.shiftId}`;
-      shiftCoverage.set(key, (shiftCoverage.get(key) || 0) + 1);
-    }
+    const minEmployees = rule.config.min_employees ?? 1;
 
-    // Check each day/shift combination
-    for (let day = 1; day <= this.daysInMonth; day++) {
-      for (const shift of this.shifts) {
-        if (shift.id === 'Выходной') continue;
+    for (const day of this.getCheckedDays(days)) {
+      if (!this.operatingHours.has(day) || !this.isCoverageDay(rule, day, month, year)) continue;
 
-        const key = `${day}-${shift.id}`;
-        const employeeCount = shiftCoverage.get(key) || 0;
+      const employeeCount = this.countWorkingOnDay(ruleSchedule, day);
 
-        if (employeeCount < minEmployees) {
-          violations.push({
-            ruleType: rule.ruleType,
-            severity: rule.enforcementType,
-            day,
-            shiftId: shift.id,
-            message: `Смена "${shift.name}" ${day} числа имеет только ${employeeCount} сотрудника(ов), требуется минимум ${minEmployees}`,
-            priority: rule.priority
-          });
-        }
+      if (employeeCount < minEmployees) {
+        violations.push(this.createViolation(rule, {
+          day,
+          actual: employeeCount,
+          limit: minEmployees
+        }, `${day} числа работает ${employeeCount} сотрудника(ов), требуется минимум ${minEmployees}`));
       }
     }
 
     return violations;
   }
 
-  private validateMaxEmployeesPerShift(
+  private validateCoverageByTime(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
-    year: number
+    year: number,
+    days?: number[]
   ): RuleViolation[] {
+    const ruleSchedule = this.getRuleSchedule(rule, schedule);
     const violations: RuleViolation[] = [];
-    const maxEmployees = rule.config.max || 10;
+    const minEmployees = rule.config.min_employees ?? 1;
+    const ranges = this.getTimeRanges(rule);
 
-    // Group schedule by day and shift
-    const shiftCoverage = new Map<string, number>();
-
-    for (const entry of schedule) {
-      if (entry.shiftId === 'Выходной') continue;
+    for (const day of this.getCheckedDays(days)) {
+      if (!this.operatingHours.has(day) || !this.isCoverageTimeDay(rule, day, month, year)) continue;
 
-      const key = `${entry.day}-${entry.shiftId}`;
-      shiftCoverage.set(key, (shiftCoverage.get(key) || 0) + 1);
-    }
+      // Employees on duty for every hour of the day
+      const onDuty = new Map<number, number>();
+      for (const entry of ruleSchedule) {
+        if (entry.day !== day || !this.isWorkShift(entry.shiftId)) continue;
 
-    // Check each day/shift combination
-    for (let day = 1; day <= this.daysInMonth; day++) {
-      for (const shift of this.shifts) {
-        if (shift.id === 'Выходной') continue;
+        const shift = this.shifts.find(s => s.id === entry.shiftId);
+        for (const hour of shift ? this.getShiftHours(shift) : []) {
+          onDuty.set(hour, (onDuty.get(hour) || 0) + 1);
+        }
+      }
 
-        const key = `${day}-${shift.id}`;
-        const employeeCount = shiftCoverage.get(key) || 0;
+      for (const range of ranges) {
+        const covered = Math.min(...range.hours.map(hour => onDuty.get(hour) || 0));
 
-        if (employeeCount > maxEmployees) {
-          violations.push({
-            ruleType: rule.ruleType,
-            severity: rule.enforcementType,
+        if (covered < minEmployees) {
+          violations.push(this.createViolation(rule, {
             day,
-            shiftId: shift.id,
-            message: `Смена "${shift.name}" ${day} числа имеет ${employeeCount} сотрудника(ов), максимум разрешено ${maxEmployees}`,
-            priority: rule.priority
-          });
+            actual: covered,
+            limit: minEmployees
+          }, `${day} числа с ${range.start} до ${range.end} работает ${covered} сотрудника(ов), требуется минимум ${minEmployees}`));
         }
       }
     }
@@ -1045,45 +3135,37 @@ export class AutoScheduler {
     return violations;
   }
 
-  private validateMaxHoursPerWeek(
+  private validateManagerRequirements(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
-    year: number
+    year: number,
+    days?: number[]
   ): RuleViolation[] {
     const violations: RuleViolation[] = [];
-    const maxHours = rule.config.max_hours || 40;
-
-    for (const employee of this.employees) {
-      const employeeSchedule = schedule.filter(s =>
-        s.employeeId === employee.id && s.shiftId !== 'Выходной'
-      );
+    const minManagers = rule.config.min_managers ?? 1;
+    const ruleSchedule = this.getRuleSchedule(rule, schedule);
 
-      // Group by weeks
-      const weeklyHours = new Map<number, number>();
+    for (const day of this.getCheckedDays(days)) {
+      for (const shift of this.shifts) {
+        if (!this.isWorkShift(shift.id)) continue;
 
-      for (const entry of employeeSchedule) {
-        const date = new Date(year, month, entry.day);
-        const weekStart = new Date(date.setDate(date.getDate() - date.getDay()));
-        const weekKey = weekStart.getTime();
+        // Only shifts staffed by employees in the rule's scope need a manager
+        if (!ruleSchedule.some(s => s.day === day && s.shiftId === shift.id)) continue;
 
-        const shift = this.shifts.find(s => s.id === entry.shiftId);
-        const hours = shift?.hours || 0;
+        const dayShiftEmployees = schedule.filter(s => s.day === day && s.shiftId === shift.id);
 
-        weeklyHours.set(weekKey, (weeklyHours.get(weekKey) || 0) + hours);
-      }
+        const managerCount = dayShiftEmployees.filter(s =>
+          this.isManager(this.employees.find(e => e.id === s.employeeId))
+        ).length;
 
-      // Check each week
-      for (const [weekKey, hours] of weeklyHours) {
-        if (hours > maxHours) {
-          const weekDate = new Date(weekKey);
-          violations.push({
-            ruleType: rule.ruleType,
-            severity: rule.enforcementType,
-            employeeId: employee.id,
-            message: `${employee.name} работает ${hours} часов в неделю, максимум разрешено ${maxHours}`,
-            priority: rule.priority
-          });
+        if (managerCount < minManagers) {
+          violations.push(this.createViolation(rule, {
+            day,
+            shiftId: shift.id,
+            actual: managerCount,
+            limit: minManagers
+          }, `Смена "${shift.name}" ${day} числа: руководителей ${managerCount}, требуется минимум ${minManagers}`));
         }
       }
     }
@@ -1091,129 +3173,126 @@ export class AutoScheduler {
     return violations;
   }
 
-  private validateApprovedDayOffRequests(
+  private validateMaxHoursWithoutManagers(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
-    year: number
+    year: number,
+    days?: number[]
   ): RuleViolation[] {
     const violations: RuleViolation[] = [];
+    const maxHours = rule.config.max_hours ?? 0;
 
-    for (const employee of this.employees) {
-      for (const preference of employee.preferences) {
-        if (preference.preferenceType !== 'day_off') continue;
+    for (const day of this.getCheckedDays(days)) {
+      const staffedHours = new Set<number>();
+      const managerHours = new Set<number>();
 
-        const prefDate = new Date(preference.targetDate);
-        if (prefDate.getMonth() !== month || prefDate.getFullYear() !== year) continue;
+      for (const entry of schedule) {
+        if (entry.day !== day || !this.isWorkShift(entry.shiftId)) continue;
 
-        const day = prefDate.getDate();
-        const hasDayOff = schedule.some(s =>
-          s.employeeId === employee.id &&
-          s.day === day &&
-          s.shiftId === 'Выходной'
-        );
+        const shift = this.shifts.find(s => s.id === entry.shiftId);
+        const employee = this.employees.find(e => e.id === entry.employeeId);
 
-        if (!hasDayOff) {
-          violations.push({
-            ruleType: rule.ruleType,
-            severity: rule.enforcementType,
-            employeeId: employee.id,
-            day,
-            message: `${employee.name} должен иметь выходной ${day} числа (утвержденная заявка)`,
-            priority: rule.priority
-          });
+        // Hours count when an employee in the rule's scope works; managers count regardless of scope
+        for (const hour of shift ? this.getShiftHours(shift) : []) {
+          if (employee && this.ruleAppliesTo(rule, employee)) staffedHours.add(hour);
+          if (this.isManager(employee)) managerHours.add(hour);
         }
       }
+
+      const hoursWithoutManager = [...staffedHours].filter(hour => !managerHours.has(hour)).length;
+
+      if (hoursWithoutManager > maxHours) {
+        violations.push(this.createViolation(rule, {
+          day,
+          actual: hoursWithoutManager,
+          limit: maxHours
+        }, `${day} числа ${hoursWithoutManager}ч работы без руководителя, максимум ${maxHours}ч`));
+      }
     }
 
     return violations;
   }
 
-  private validateMinRestBetweenShifts(
+  private validateMaxTotalHours(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
     year: number
   ): RuleViolation[] {
-    const violations: RuleViolation[] = [];
-    const minRestHours = rule.config.hours || 12;
-
-    for (const employee of this.employees) {
-      const employeeSchedule = schedule
-        .filter(s => s.employeeId === employee.id && s.shiftId !== 'Выходной')
-        .sort((a, b) => a.day - b.day);
-
-      for (let i = 0; i < employeeSchedule.length - 1; i++) {
-        const currentShift = employeeSchedule[i];
-        const nextShift = employeeSchedule[i + 1];
-
-        if (currentShift.day + 1 !== nextShift.day) continue; // Not consecutive days
-
-        const currentShiftObj = this.shifts.find(s => s.id === currentShift.shiftId);
-        const nextShiftObj = this.shifts.find(s => s.id === nextShift.shiftId);
-
-        if (!currentShiftObj?.endTime || !nextShiftObj?.startTime) continue;
-
-        // Parse times
-        const currentEndTime = this.parseTime(currentShiftObj.endTime);
-        const nextStartTime = this.parseTime(nextShiftObj.startTime);
+    const ruleSchedule = this.getRuleSchedule(rule, schedule);
+    const maxHours = rule.config.max_hours ?? 0;
+    const totalHours = ruleSchedule
+      .filter(s => this.isWorkShift(s.shiftId))
+      .reduce((sum, s) => sum + (this.shifts.find(sh => sh.id === s.shiftId)?.hours || 0), 0);
+
+    if (totalHours <= maxHours) return [];
+
+    return [this.createViolation(rule, {
+      actual: totalHours,
+      limit: maxHours
+    }, `Всего запланировано ${totalHours} часов, максимум разрешено ${maxHours}`)];
+  }
 
-        // Calculate rest hours
-        const restHours = currentEndTime < nextStartTime
-          ? nextStartTime - currentEndTime
-          : (24 - currentEndTime) + nextStartTime;
+  private validateEmployeeHoursLimit(
+    rule: ValidationRule,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+    const minHours = rule.config.enforcement === 'max_only' ? 0 : rule.config.min_hours ?? 0;
 
-        if (restHours < minRestHours) {
-          violations.push({
-            ruleType: rule.ruleType,
-            severity: rule.enforcementType,
-            employeeId: employee.id,
-            day: nextShift.day,
-            message: `${employee.name} имеет только ${restHours}ч отдыха между сменами, минимум ${minRestHours}ч`,
-            priority: rule.priority
-          });
-        }
+    for (const employee of this.getRuleEmployees(rule)) {
+      const maxHours = this.getMonthlyHoursLimit(rule, rule.config.max_hours ?? Infinity, employee);
+      const totalHours = schedule
+        .filter(s => s.employeeId === employee.id && this.isWorkShift(s.shiftId))
+        .reduce((sum, s) => sum + (this.shifts.find(sh => sh.id === s.shiftId)?.hours || 0), 0);
+
+      if (totalHours > maxHours) {
+        violations.push(this.createViolation(rule, {
+          employeeId: employee.id,
+          actual: totalHours,
+          limit: maxHours
+        }, `${employee.name} работает ${totalHours} часов в месяц, лимит ${maxHours}`));
+      } else if (totalHours < minHours) {
+        violations.push(this.createViolation(rule, {
+          employeeId: employee.id,
+          actual: totalHours,
+          limit: minHours
+        }, `${employee.name} работает ${totalHours} часов в месяц, минимум ${minHours}`));
       }
     }
 
     return violations;
   }
 
-  private validateRequiredRolesPerShift(
+  private validateRequiredWorkDays(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
     year: number
   ): RuleViolation[] {
     const violations: RuleViolation[] = [];
-    const requiredRole = rule.config.role;
-    const minCount = rule.config.min_count || 1;
+    const daysOfWeek: number[] = Array.isArray(rule.config.days_of_week) ? rule.config.days_of_week : [];
 
-    if (!requiredRole) return violations;
+    if (daysOfWeek.length === 0) return violations;
 
-    // Check each day/shift combination
-    for (let day = 1; day <= this.daysInMonth; day++) {
-      for (const shift of this.shifts) {
-        if (shift.id === 'Выходной') continue;
+    for (const employee of this.getRuleEmployees(rule)) {
+      for (let day = 1; day <= this.daysInMonth; day++) {
+        if (!daysOfWeek.includes(new Date(year, month, day).getDay()) || !this.operatingHours.has(day)) continue;
+        // An approved day-off request takes precedence
+        if (this.hasApprovedDayOff(employee, day, month, year)) continue;
 
-        const dayShiftEmployees = schedule.filter(s =>
-          s.day === day && s.shiftId === shift.id
+        const works = schedule.some(s =>
+          s.employeeId === employee.id && s.day === day && this.isWorkShift(s.shiftId)
         );
 
-        const employeesWithRole = dayShiftEmployees.filter(s => {
-          const employee = this.employees.find(e => e.id === s.employeeId);
-          return employee?.roleName === requiredRole;
-        });
-
-        if (employeesWithRole.length < minCount) {
-          violations.push({
-            ruleType: rule.ruleType,
-            severity: rule.enforcementType,
-            day,
-            shiftId: shift.id,
-            message: `Смена "${shift.name}" ${day} числа требует минимум ${minCount} сотрудника(ов) с ролью "${requiredRole}"`,
-            priority: rule.priority
-          });
+        if (!works) {
+          violations.push(this.createViolation(rule, {
+            employeeId: employee.id,
+            day
+          }, `${employee.name} должен работать ${day} числа`));
         }
       }
     }
@@ -1221,41 +3300,39 @@ export class AutoScheduler {
     return violations;
   }
 
-  private validateMaxShiftsPerWeek(
+  private validateMaxConsecutiveDaysOff(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
     year: number
   ): RuleViolation[] {
     const violations: RuleViolation[] = [];
-    const maxShifts = rule.config.max || 5;
-
-    for (const employee of this.employees) {
-      const employeeSchedule = schedule.filter(s =>
-        s.employeeId === employee.id && s.shiftId !== 'Выходной'
-      );
+    const maxDays = rule.config.max_days || 3;
 
-      // Group by weeks
-      const weeklyShifts = new Map<number, number>();
+    for (const employee of this.getRuleEmployees(rule)) {
+      if (employee.excludeFromHours) continue;
 
-      for (const entry of employeeSchedule) {
-        const date = new Date(year, month, entry.day);
-        const weekStart = new Date(date.setDate(date.getDate() - date.getDay()));
-        const weekKey = weekStart.getTime();
+      const workDays = new Set(
+        schedule
+          .filter(s => s.employeeId === employee.id && this.isWorkShift(s.shiftId))
+          .map(s => s.day)
+      );
 
-        weeklyShifts.set(weekKey, (weeklyShifts.get(weekKey) || 0) + 1);
-      }
+      let daysOff = 0;
+      for (let day = 1; day <= this.daysInMonth; day++) {
+        // Approved day-off requests are the employee's own choice and break the streak
+        if (workDays.has(day) || this.hasApprovedDayOff(employee, day, month, year)) {
+          daysOff = 0;
+          continue;
+        }
 
-      // Check each week
-      for (const [weekKey, shifts] of weeklyShifts) {
-        if (shifts > maxShifts) {
-          violations.push({
-            ruleType: rule.ruleType,
-            severity: rule.enforcementType,
+        daysOff++;
+        if (daysOff === maxDays + 1) {
+          violations.push(this.createViolation(rule, {
             employeeId: employee.id,
-            message: `${employee.name} работает ${shifts} смен в неделю, максимум разрешено ${maxShifts}`,
-            priority: rule.priority
-          });
+            day,
+            limit: maxDays
+          }, `${employee.name} отдыхает более ${maxDays} дней подряд`));
         }
       }
     }
@@ -1263,40 +3340,279 @@ export class AutoScheduler {
     return violations;
   }
 
-  private validateMaxHoursPerMonth(
+  private validateEmployeeDayOff(
     rule: ValidationRule,
     schedule: ScheduleEntry[],
     month: number,
     year: number
   ): RuleViolation[] {
     const violations: RuleViolation[] = [];
-    const maxHours = rule.config.max_hours || 160;
-
-    for (const employee of this.employees) {
-      const employeeSchedule = schedule.filter(s =>
-        s.employeeId === employee.id && s.shiftId !== 'Выходной'
-      );
 
-      let totalHours = 0;
-      for (const entry of employeeSchedule) {
-        const shift = this.shifts.find(s => s.id === entry.shiftId);
-        totalHours += shift?.hours || 0;
-      }
+    for (const employee of this.getRuleEmployees(rule)) {
+      for (const entry of schedule) {
+        if (entry.employeeId !== employee.id || !this.isWorkShift(entry.shiftId)) continue;
+        if (!this.isRuleDayOff(rule, entry.day, month, year)) continue;
 
-      if (totalHours > maxHours) {
-        violations.push({
-          ruleType: rule.ruleType,
-          severity: rule.enforcementType,
+        violations.push(this.createViolation(rule, {
           employeeId: employee.id,
-          message: `${employee.name} работает ${totalHours} часов в месяц, максимум разрешено ${maxHours}`,
-          priority: rule.priority
-        });
+          day: entry.day,
+          shiftId: entry.shiftId
+        }, `${employee.name} не должен работать ${entry.day} числа`));
       }
     }
 
     return violations;
   }
 
+  /**
+   * Does a rule apply to the employee; empty scope lists mean everyone
+   */
+  private ruleAppliesTo(rule: ValidationRule, employee: EmployeeData): boolean {
+    return (rule.appliesToEmployees.length === 0 || rule.appliesToEmployees.includes(employee.id)) &&
+      (rule.appliesToRoles.length === 0 || rule.appliesToRoles.includes(employee.roleId));
+  }
+
+  private getRuleEmployees(rule: ValidationRule): EmployeeData[] {
+    return this.employees.filter(emp => this.ruleAppliesTo(rule, emp));
+  }
+
+  /**
+   * Entries of the employees a rule applies to
+   */
+  private getRuleSchedule(rule: ValidationRule, schedule: ScheduleEntry[]): ScheduleEntry[] {
+    if (rule.appliesToEmployees.length === 0 && rule.appliesToRoles.length === 0) return schedule;
+
+    const employeeIds = new Set(this.getRuleEmployees(rule).map(emp => emp.id));
+    return schedule.filter(s => employeeIds.has(s.employeeId));
+  }
+
+  /**
+   * Build a violation; the rule's custom message template, if set, replaces the default message
+   */
+  private createViolation(rule: ValidationRule, data: ViolationData, defaultMessage: string): RuleViolation {
+    let message = defaultMessage;
+
+    if (rule.customMessage) {
+      const employee = this.employees.find(e => e.id === data.employeeId);
+      const shift = this.shifts.find(s => s.id === data.shiftId);
+      const date = data.day !== undefined ? new Date(this.year, this.month, data.day) : undefined;
+
+      message = renderMessageTemplate(rule.customMessage, {
+        employee: employee?.name,
+        day: date?.getDate(),
+        date: date?.toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric' }),
+        shift: shift?.name,
+        actual: data.actual,
+        limit: data.limit
+      });
+    }
+
+    return {
+      ruleType: rule.ruleType,
+      severity: rule.enforcementType,
+      ...data,
+      message,
+      priority: rule.priority,
+      weight: rule.weight
+    };
+  }
+
+  /**
+   * Monthly hours limit of a rule; with use_norm_hours it is the employee's contract target
+   * (the production calendar norm scaled by the rate unless the contract sets its own hours)
+   */
+  private getMonthlyHoursLimit(rule: ValidationRule, configured: number, employee: EmployeeData): number {
+    return rule.config.use_norm_hours ? this.getTargetHours(employee) : configured;
+  }
+
+  private getTargetHours(employee: EmployeeData): number {
+    const norm = this.monthNorm ?? calculateMonthNorm(new Map(), this.month, this.year);
+    return getTargetMonthlyHours(employee.contract, norm);
+  }
+
+  /**
+   * Day of the month (may be 0 or negative) the Sunday-based week of a day starts on
+   */
+  private getWeekStart(day: number): number {
+    return day - new Date(this.year, this.month, day).getDay();
+  }
+
+  /**
+   * Work hours of an employee per week, keyed by getWeekStart
+   */
+  private getWeeklyHours(employeeId: string, schedule: ScheduleEntry[]): Map<number, number> {
+    const weeklyHours = new Map<number, number>();
+
+    for (const entry of schedule) {
+      if (entry.employeeId !== employeeId || !this.isWorkShift(entry.shiftId)) continue;
+
+      const weekStart = this.getWeekStart(entry.day);
+      const hours = this.shifts.find(s => s.id === entry.shiftId)?.hours || 0;
+      weeklyHours.set(weekStart, (weeklyHours.get(weekStart) || 0) + hours);
+    }
+
+    return weeklyHours;
+  }
+
+  /**
+   * Whether a shift lies inside the employee's weekly availability on a day
+   */
+  private isAvailableFor(employee: EmployeeData, day: number, shift: ShiftData): boolean {
+    if (!this.isWorkShift(shift.id)) return true;
+
+    const windows = employee.availability.get(day);
+    return !windows || fitsAvailability(windows, shift.startTime, shift.endTime);
+  }
+
+  /**
+   * Whether one more shift would take the employee over the contract's weekly maximum
+   */
+  private exceedsContractWeeklyHours(
+    employee: EmployeeData,
+    day: number,
+    shift: ShiftData,
+    schedule: ScheduleEntry[]
+  ): boolean {
+    const { maxWeeklyHours } = employee.contract;
+    if (maxWeeklyHours === undefined || !this.isWorkShift(shift.id)) return false;
+
+    const weekHours = this.getWeeklyHours(employee.id, schedule).get(this.getWeekStart(day)) || 0;
+    return weekHours + shift.hours > maxWeeklyHours;
+  }
+
+  private isWorkShift(shiftId: string): boolean {
+    if (shiftId === 'Выходной') return false;
+    const shift = this.shifts.find(s => s.id === shiftId);
+    return !shift || shift.maxStaff > 0;
+  }
+
+  private isManager(employee?: EmployeeData): boolean {
+    return employee?.rolePermissions?.manage_schedule === true;
+  }
+
+  private isWeekend(day: number, month: number, year: number): boolean {
+    const dayOfWeek = new Date(year, month, day).getDay();
+    return dayOfWeek === 0 || dayOfWeek === 6;
+  }
+
+  /**
+   * Whether a preference is in effect on a day of the month: its target date,
+   * or for ranged shift preferences a day inside the (possibly open-ended) window
+   */
+  private preferenceAppliesOn(preference: EmployeePreference, day: number): boolean {
+    if (!this.isInMonth(day)) return false;
+
+    if (preference.targetDate) {
+      const date = new Date(preference.targetDate);
+      return date.getFullYear() === this.year && date.getMonth() === this.month && date.getDate() === day;
+    }
+
+    const date = this.toDateString(day, this.month, this.year);
+    return (!preference.startDate || preference.startDate <= date) &&
+      (!preference.endDate || preference.endDate >= date);
+  }
+
+  /**
+   * Preference weight from 1 to 3: the reason priority and the preference's own priority,
+   * each relative to the highest value among the loaded preferences, add up to 1 each.
+   * Only the order matters, so reordering reasons changes the weights directly.
+   */
+  private assignPreferenceWeights(preferences: EmployeePreference[]): void {
+    const maxReasonPriority = Math.max(0, ...preferences.map(p => p.reasonPriority ?? 0));
+    const maxPriority = Math.max(0, ...preferences.map(p => p.priority ?? 0));
+
+    for (const preference of preferences) {
+      const reasonShare = maxReasonPriority > 0 ? Math.max(0, preference.reasonPriority ?? 0) / maxReasonPriority : 0;
+      const priorityShare = maxPriority > 0 ? Math.max(0, preference.priority ?? 0) / maxPriority : 0;
+      preference.weight = 1 + reasonShare + priorityShare;
+    }
+  }
+
+  private toDateString(day: number, month: number, year: number): string {
+    return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  private hasApprovedDayOff(employee: EmployeeData, day: number, month: number, year: number): boolean {
+    return employee.preferences.some(p => {
+      if (p.preferenceType !== 'day_off' || !p.targetDate) return false;
+      const date = new Date(p.targetDate);
+      return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day;
+    });
+  }
+
+  private countWorkingOnDay(schedule: ScheduleEntry[], day: number): number {
+    return new Set(
+      schedule
+        .filter(s => s.day === day && this.isWorkShift(s.shiftId))
+        .map(s => s.employeeId)
+    ).size;
+  }
+
+  /**
+   * Config day lists hold days of the month (15) or ISO dates ('2026-12-31')
+   */
+  private matchesConfigDay(value: unknown, day: number, month: number, year: number): boolean {
+    if (typeof value === 'number') return value === day;
+    if (typeof value !== 'string') return false;
+    if (/^\d+$/.test(value)) return Number(value) === day;
+
+    const [y, m, d] = value.split('-').map(Number);
+    return y === year && m === month + 1 && d === day;
+  }
+
+  private isRuleDayOff(rule: ValidationRule, day: number, month: number, year: number): boolean {
+    const dates: unknown[] = Array.isArray(rule.config.dates) ? rule.config.dates : [];
+    const daysOfWeek: number[] = Array.isArray(rule.config.days_of_week) ? rule.config.days_of_week : [];
+
+    return daysOfWeek.includes(new Date(year, month, day).getDay()) ||
+      dates.some(value => this.matchesConfigDay(value, day, month, year));
+  }
+
+  private isCoverageDay(rule: ValidationRule, day: number, month: number, year: number): boolean {
+    switch (rule.config.day_type || 'specific') {
+      case 'weekdays':
+        return !this.isWeekend(day, month, year);
+      case 'weekends':
+        return this.isWeekend(day, month, year);
+      default: {
+        const specificDays: unknown[] = Array.isArray(rule.config.specific_days) ? rule.config.specific_days : [];
+        return specificDays.some(value => this.matchesConfigDay(value, day, month, year));
+      }
+    }
+  }
+
+  private isCoverageTimeDay(rule: ValidationRule, day: number, month: number, year: number): boolean {
+    return this.isWeekend(day, month, year)
+      ? rule.config.applies_to_weekends === true
+      : rule.config.applies_to_weekdays !== false;
+  }
+
+  private getTimeRanges(rule: ValidationRule): Array<{ start: string; end: string; hours: number[] }> {
+    const ranges: any[] = Array.isArray(rule.config.time_ranges) ? rule.config.time_ranges : [];
+
+    return ranges
+      .filter(range => typeof range?.start === 'string' && typeof range?.end === 'string')
+      .map(range => ({
+        start: range.start,
+        end: range.end,
+        hours: this.getHourSpan(this.parseTime(range.start), this.parseTime(range.end))
+      }));
+  }
+
+  /**
+   * Hours of the day (0-23) touched by a time span; spans past midnight wrap around
+   */
+  private getHourSpan(start: number, end: number): number[] {
+    const first = Math.floor(start);
+    const length = ((Math.ceil(end) - first + 24) % 24) || 24;
+    return Array.from({ length }, (_, i) => (first + i) % 24);
+  }
+
+  private getShiftHours(shift: ShiftData): number[] {
+    if (!shift.startTime || !shift.endTime) return [];
+    return this.getHourSpan(this.parseTime(shift.startTime), this.parseTime(shift.endTime));
+  }
+
   private parseTime(timeStr: string): number {
     if (!timeStr) return 0;
     const [hours, minutes] = timeStr.split(':').map(Number);
@@ -1316,14 +3632,17 @@ export class AutoScheduler {
     let totalRequiredSlots = 0;
     let filledSlots = 0;
 
-    for (let day = 1; day <= this.daysInMonth; day++) {
+    // Slots are weighted by coverage priority; staffing above minStaff does not count
+    for (const day of this.getWorkingDays(month, year)) {
       for (const shift of this.shifts) {
-        if (shift.id === 'Выходной') continue;
+        if (shift.id === 'Выходной' || shift.minStaff <= 0 || !this.isShiftOpen(shift, day)) continue;
 
-        totalRequiredSlots += shift.minStaff;
-        filledSlots += schedule.filter(s =>
+        const assigned = schedule.filter(s =>
           s.day === day && s.shiftId === shift.id
         ).length;
+
+        totalRequiredSlots += shift.minStaff * shift.coveragePriority;
+        filledSlots += Math.min(assigned, shift.minStaff) * shift.coveragePriority;
       }
     }
 
@@ -1331,19 +3650,21 @@ export class AutoScheduler {
       ? Math.min(100, (filledSlots / totalRequiredSlots) * 100)
       : 100;
 
-    // Calculate balance score
-    const employeeShiftCounts = new Map<string, number>();
+    // Calculate balance score: spread of hours as a share of each contract's target
+    const targetShares: number[] = [];
     for (const employee of this.employees) {
-      const count = schedule.filter(s =>
-        s.employeeId === employee.id && s.shiftId !== 'Выходной'
-      ).length;
-      employeeShiftCounts.set(employee.id, count);
+      const targetHours = this.getTargetHours(employee);
+      if (employee.excludeFromHours || targetHours <= 0) continue;
+
+      const hours = schedule
+        .filter(s => s.employeeId === employee.id && this.isWorkShift(s.shiftId))
+        .reduce((sum, s) => sum + (this.shifts.find(sh => sh.id === s.shiftId)?.hours || 0), 0);
+      targetShares.push((hours / targetHours) * 100);
     }
 
-    const counts = Array.from(employeeShiftCounts.values());
-    const avgCount = counts.reduce((a, b) => a + b, 0) / counts.length;
-    const variance = counts.reduce((sum, count) => sum + Math.pow(count - avgCount, 2), 0) / counts.length;
-    const balanceScore = Math.max(0, 100 - variance * 2);
+    const avgShare = targetShares.reduce((a, b) => a + b, 0) / (targetShares.length || 1);
+    const variance = targetShares.reduce((sum, share) => sum + Math.pow(share - avgShare, 2), 0) / (targetShares.length || 1);
+    const balanceScore = Math.max(0, 100 - Math.sqrt(variance) * 2);
 
     // Calculate preference satisfaction rate
     let totalPreferences = 0;
@@ -1351,7 +3672,7 @@ export class AutoScheduler {
 
     for (const employee of this.employees) {
       for (const preference of employee.preferences) {
-        if (preference.preferenceType !== 'day_off') continue;
+        if (preference.preferenceType !== 'day_off' || !preference.targetDate) continue;
 
         totalPreferences++;
         const day = new Date(preference.targetDate).getDate();
@@ -1382,34 +3703,262 @@ export class AutoScheduler {
     };
   }
 
-  private applyBalanceOptimization(
+  /**
+   * Balance focus: hand shifts of the employees furthest above their contract target
+   * to the ones furthest below it who are off that day
+   */
+  private async applyBalanceOptimization(
     schedule: ScheduleEntry[],
     month: number,
-    year: number,
-    constraints: any
-  ): ScheduleEntry[] {
-    // Implementation for workload balancing
-    return schedule; // Placeholder
+    year: number
+  ): Promise<ScheduleEntry[]> {
+    return this.improveWithMoves(schedule, month, year, 'balance', current => {
+      const shares = this.getSchedulableEmployees()
+        .filter(employee => this.getTargetHours(employee) > 0)
+        .map(employee => ({
+          employee,
+          share: current
+            .filter(s => s.employeeId === employee.id && this.isWorkShift(s.shiftId))
+            .reduce((sum, s) => sum + (this.shifts.find(sh => sh.id === s.shiftId)?.hours || 0), 0) /
+            this.getTargetHours(employee)
+        }))
+        .sort((a, b) => b.share - a.share);
+
+      const moves: ScheduleMove[] = [];
+
+      for (const donor of shares.slice(0, BALANCE_CANDIDATES)) {
+        const receivers = shares.slice(-BALANCE_CANDIDATES).filter(receiver => receiver.share < donor.share);
+
+        for (const entry of current.filter(s => s.employeeId === donor.employee.id && this.isMovable(s))) {
+          const shift = this.shifts.find(sh => sh.id === entry.shiftId);
+          if (!shift) continue;
+
+          for (const receiver of receivers) {
+            if (!this.canReceiveShift(receiver.employee, entry.day, shift, current, month, year)) continue;
+            moves.push(this.replaceMove(
+              [[entry, { ...entry, employeeId: receiver.employee.id }]],
+              `Выравнивание часов: смена передана от сотрудника ${donor.employee.name}`
+            ));
+          }
+        }
+      }
+
+      return moves;
+    });
   }
 
-  private applyPreferenceOptimization(
+  /**
+   * Preferences focus: swap shifts of the same day, or hand an avoided shift to someone
+   * who is off, so that employees work their preferred shifts and not the avoided ones
+   */
+  private async applyPreferenceOptimization(
     schedule: ScheduleEntry[],
     month: number,
-    year: number,
-    constraints: any
-  ): ScheduleEntry[] {
-    // Implementation for preference satisfaction
-    return schedule; // Placeholder
+    year: number
+  ): Promise<ScheduleEntry[]> {
+    return this.improveWithMoves(schedule, month, year, 'preferences', current => {
+      const moves: ScheduleMove[] = [];
+      const nameOf = (employeeId: string) => this.employees.find(emp => emp.id === employeeId)?.name || employeeId;
+      const canSwap = (own: ScheduleEntry, other: ScheduleEntry) =>
+        other.employeeId !== own.employeeId && other.day === own.day && other.shiftId !== own.shiftId &&
+        this.isMovable(other);
+      // Both employees take a shift the other had, so each is checked like a new assignment
+      const pushSwap = (own: ScheduleEntry, other: ScheduleEntry) => {
+        const move = this.replaceMove(
+          [[own, { ...own, shiftId: other.shiftId }], [other, { ...other, shiftId: own.shiftId }]],
+          `Учёт пожеланий: обмен сменами между ${nameOf(own.employeeId)} и ${nameOf(other.employeeId)}`
+        );
+        if (this.keepsHardConstraints(move, current, month, year)) moves.push(move);
+      };
+
+      for (const employee of this.employees) {
+        for (const preference of employee.preferences) {
+          const shift = this.shifts.find(sh => sh.id === preference.targetShiftId);
+          if (!shift) continue;
+
+          for (const own of current.filter(s => s.employeeId === employee.id && this.isMovable(s))) {
+            if (!this.preferenceAppliesOn(preference, own.day)) continue;
+
+            // Take the preferred shift from someone working it that day
+            if (preference.preferenceType === 'preferred_shift' && own.shiftId !== shift.id) {
+              current
+                .filter(other => other.shiftId === shift.id && canSwap(own, other))
+                .forEach(other => pushSwap(own, other));
+            }
+
+            // Leave the avoided shift to someone on another shift or off that day
+            if (preference.preferenceType === 'avoid_shift' && own.shiftId === shift.id) {
+              current
+                .filter(other => canSwap(own, other))
+                .forEach(other => pushSwap(own, other));
+
+              for (const receiver of this.getSchedulableEmployees()) {
+                if (!this.canReceiveShift(receiver, own.day, shift, current, month, year)) continue;
+                moves.push(this.replaceMove(
+                  [[own, { ...own, employeeId: receiver.id }]],
+                  `Учёт пожеланий: смена передана от сотрудника ${employee.name}`
+                ));
+              }
+            }
+          }
+        }
+      }
+
+      return moves;
+    });
+  }
+
+  /**
+   * Coverage focus: fill required positions left empty, with employees who are off that day
+   * or moved from a shift of the same day staffed above its minimum
+   */
+  private async applyCoverageOptimization(
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): Promise<ScheduleEntry[]> {
+    return this.improveWithMoves(schedule, month, year, 'coverage', current => {
+      const moves: ScheduleMove[] = [];
+
+      for (const day of this.getWorkingDays(month, year)) {
+        const dayShifts = this.shifts.filter(shift =>
+          this.isWorkShift(shift.id) && shift.minStaff > 0 && this.isShiftOpen(shift, day)
+        );
+        const staffOf = (shiftId: string) => current.filter(s => s.day === day && s.shiftId === shiftId);
+
+        for (const shift of dayShifts) {
+          if (staffOf(shift.id).length >= shift.minStaff) continue;
+
+          for (const employee of this.getSchedulableEmployees()) {
+            if (!this.canReceiveShift(employee, day, shift, current, month, year)) continue;
+            moves.push(this.addMove(
+              { employeeId: employee.id, day, shiftId: shift.id },
+              'Оптимизация покрытия: назначение на незаполненную позицию'
+            ));
+          }
+
+          for (const donor of dayShifts) {
+            const donorStaff = staffOf(donor.id);
+            if (donor === shift || donorStaff.length <= donor.minStaff) continue;
+
+            for (const entry of donorStaff) {
+              if (!this.isMovable(entry)) continue;
+
+              const move = this.replaceMove(
+                [[entry, { ...entry, shiftId: shift.id }]],
+                `Оптимизация покрытия: перевод из смены «${donor.name}», где сотрудников больше минимума`
+              );
+              if (this.keepsHardConstraints(move, current, month, year)) moves.push(move);
+            }
+          }
+        }
+      }
+
+      return moves;
+    });
   }
 
-  private applyCoverageOptimization(
+  /**
+   * Hill climbing for a focus: the first move that raises the schedule score is kept,
+   * then the moves are generated again for the changed schedule. Every evaluated move
+   * counts against the phase's budget
+   */
+  private async improveWithMoves(
     schedule: ScheduleEntry[],
     month: number,
     year: number,
-    constraints: any
-  ): ScheduleEntry[] {
-    // Implementation for coverage optimization
-    return schedule; // Placeholder
+    focus: OptimizationFocus,
+    generateMoves: (schedule: ScheduleEntry[]) => ScheduleMove[]
+  ): Promise<ScheduleEntry[]> {
+    const before = this.calculateScheduleMetrics(schedule, month, year);
+    let state = this.createScoreState(schedule, month, year);
+    const startScore = state.score;
+    let accepted = 0;
+    let improved = true;
+
+    while (improved && accepted < FOCUS_OPTIMIZER_MAX_MOVES && this.hasSearchBudget()) {
+      improved = false;
+
+      for (const move of generateMoves(state.schedule)) {
+        if (!this.hasSearchBudget()) break;
+        await this.checkpoint('optimizing', this.searchBudget.iterationsUsed, state.score);
+        this.spendIteration();
+
+        const candidate = this.scoreMove(state, move, month, year);
+        if (candidate.score <= state.score) continue;
+
+        this.explainMove(move, state.score, candidate.score);
+        state = candidate;
+        accepted++;
+        improved = true;
+        break;
+      }
+    }
+
+    this.optimizations.push({
+      type: focus,
+      before,
+      after: this.calculateScheduleMetrics(state.schedule, month, year),
+      score: Math.round((state.score - startScore) * 10) / 10
+    });
+
+    return state.schedule;
+  }
+
+  /**
+   * Entries an optimizer may change: work shifts of this run that are not pinned
+   */
+  private isMovable(entry: ScheduleEntry): boolean {
+    return !entry.fixed && this.isWorkShift(entry.shiftId) && this.isInScope(entry.employeeId, entry.day);
+  }
+
+  /**
+   * Whether an employee with nothing scheduled on the day may be given the shift
+   */
+  private canReceiveShift(
+    employee: EmployeeData,
+    day: number,
+    shift: ShiftData,
+    schedule: ScheduleEntry[],
+    month: number,
+    year: number
+  ): boolean {
+    return this.isInScope(employee.id, day) &&
+      !schedule.some(s => s.employeeId === employee.id && s.day === day) &&
+      this.getRejectionReason(employee, day, shift, schedule, month, year) === null;
+  }
+
+  private addMove(entry: ScheduleEntry, note: string): ScheduleMove {
+    return { apply: schedule => [...schedule, entry], entries: [entry], removed: [], note };
+  }
+
+  /**
+   * Move replacing entries of the schedule it was generated for (matched by identity)
+   */
+  private replaceMove(replacements: Array<[ScheduleEntry, ScheduleEntry]>, note: string): ScheduleMove {
+    return {
+      apply: schedule => schedule.map(entry => replacements.find(([from]) => from === entry)?.[1] ?? entry),
+      entries: replacements.map(([, to]) => to),
+      removed: replacements.map(([from]) => from),
+      note
+    };
+  }
+
+  /**
+   * Record a kept optimizer move for every entry it changed
+   */
+  private explainMove(move: ScheduleMove, beforeScore: number, afterScore: number): void {
+    for (const entry of move.entries) {
+      this.explanations.push({
+        day: entry.day,
+        shiftId: entry.shiftId,
+        source: 'optimizer',
+        employeeIds: [entry.employeeId],
+        unfilled: 0,
+        candidates: [],
+        note: `${move.note}: оценка графика ${Math.round(beforeScore)} → ${Math.round(afterScore)}`
+      });
+    }
   }
 
   private generateBalanceSuggestions(
@@ -0,0 +1,117 @@
+import pool from '../config/database';
+import { isValidTime } from './operatingCalendar';
+
+/**
+ * Recurring weekly availability of employees
+ * An employee with entries in effect on a date may only work inside that weekday's windows;
+ * an employee without entries in effect is available at any time.
+ */
+
+export interface AvailabilityWindow {
+  start: number; // Minutes from midnight
+  end: number;   // Minutes from midnight, past 24:00 for windows running into the next day
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Time window in minutes; an end earlier than the start means the next day
+ */
+export const toWindow = (start: string, end: string): AvailabilityWindow => {
+  const startMinutes = toMinutes(start);
+  let endMinutes = toMinutes(end);
+  if (endMinutes <= startMinutes) endMinutes += MINUTES_PER_DAY;
+  return { start: startMinutes, end: endMinutes };
+};
+
+/**
+ * Check an availability entry from a request body; returns a list of errors (empty if valid)
+ */
+export const validateAvailabilityInput = (input: Record<string, unknown>, requireEmployee = true): string[] => {
+  const errors: string[] = [];
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+  if (requireEmployee && (typeof input.employeeId !== 'string' || input.employeeId === '')) {
+    errors.push('employeeId is required');
+  }
+  if (!Number.isInteger(input.weekday) || (input.weekday as number) < 0 || (input.weekday as number) > 6) {
+    errors.push('weekday must be an integer 0-6 (0 - Sunday)');
+  }
+  for (const field of ['startTime', 'endTime']) {
+    if (!isValidTime(input[field])) errors.push(`${field} must be in HH:MM format`);
+  }
+  for (const field of ['validFrom', 'validTo']) {
+    const value = input[field];
+    if (isSet(value) && (typeof value !== 'string' || !datePattern.test(value) || isNaN(Date.parse(value)))) {
+      errors.push(`${field} must be in YYYY-MM-DD format`);
+    }
+  }
+  if (isSet(input.validFrom) && isSet(input.validTo) && String(input.validFrom) > String(input.validTo)) {
+    errors.push('validFrom cannot be later than validTo');
+  }
+
+  return errors;
+};
+
+/**
+ * Availability windows of a month (month is 0-11): employeeId -> day -> windows.
+ * A day missing from an employee's map is unrestricted; an empty list means unavailable.
+ */
+export const getMonthAvailability = async (
+  month: number,
+  year: number
+): Promise<Map<string, Map<number, AvailabilityWindow[]>>> => {
+  const monthStart = new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+  const monthEnd = new Date(Date.UTC(year, month + 1, 0)).toISOString().slice(0, 10);
+
+  const result = await pool.query(`
+    SELECT
+      employee_id, weekday, start_time, end_time,
+      to_char(valid_from, 'YYYY-MM-DD') AS valid_from,
+      to_char(valid_to, 'YYYY-MM-DD') AS valid_to
+    FROM employee_availability
+    WHERE (valid_from IS NULL OR valid_from <= $2)
+      AND (valid_to IS NULL OR valid_to >= $1)
+  `, [monthStart, monthEnd]);
+
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const availability = new Map<string, Map<number, AvailabilityWindow[]>>();
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = `${monthStart.slice(0, 8)}${String(day).padStart(2, '0')}`;
+    const weekday = new Date(year, month, day).getDay();
+
+    for (const row of result.rows) {
+      if ((row.valid_from && row.valid_from > date) || (row.valid_to && row.valid_to < date)) continue;
+
+      let days = availability.get(row.employee_id);
+      if (!days) {
+        days = new Map();
+        availability.set(row.employee_id, days);
+      }
+
+      // Any entry in effect restricts the day, even one for another weekday
+      const windows = days.get(day) || [];
+      if (row.weekday === weekday) windows.push(toWindow(row.start_time, row.end_time));
+      days.set(day, windows);
+    }
+  }
+
+  return availability;
+};
+
+/**
+ * Whether a shift fits entirely inside one of the windows; a shift without times fits any window
+ */
+export const fitsAvailability = (windows: AvailabilityWindow[], startTime?: string, endTime?: string): boolean => {
+  if (!startTime || !endTime) return windows.length > 0;
+
+  const shift = toWindow(startTime, endTime);
+  return windows.some(window => shift.start >= window.start && shift.end <= window.end);
+};
@@ -0,0 +1,60 @@
+import { EmploymentContract, MonthNorm } from '../models/types';
+
+/**
+ * Employment contracts: rate, target monthly hours and weekly hour bounds of an employee.
+ * Stored as employees.employment_rate / target_monthly_hours / min_weekly_hours / max_weekly_hours.
+ */
+
+export const DEFAULT_CONTRACT: EmploymentContract = { rate: 1 };
+
+const MAX_RATE = 1.5;
+
+// DECIMAL columns come from pg as strings, NULL means "not set"
+const toOptionalNumber = (value: unknown): number | undefined =>
+  value === null || value === undefined ? undefined : Number(value);
+
+/**
+ * Contract from an employees row selected with the contract columns
+ */
+export const contractFromRow = (row: any): EmploymentContract => ({
+  rate: toOptionalNumber(row.employment_rate) ?? DEFAULT_CONTRACT.rate,
+  targetMonthlyHours: toOptionalNumber(row.target_monthly_hours),
+  minWeeklyHours: toOptionalNumber(row.min_weekly_hours),
+  maxWeeklyHours: toOptionalNumber(row.max_weekly_hours)
+});
+
+/**
+ * Check a contract from a request body; returns a list of errors (empty if valid)
+ */
+export const validateContract = (contract: unknown): string[] => {
+  if (typeof contract !== 'object' || contract === null || Array.isArray(contract)) {
+    return ['contract must be an object'];
+  }
+
+  const { rate, targetMonthlyHours, minWeeklyHours, maxWeeklyHours } = contract as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof rate !== 'number' || !(rate > 0 && rate <= MAX_RATE)) {
+    errors.push(`contract.rate must be a number in (0, ${MAX_RATE}]`);
+  }
+
+  const optionalHours = { targetMonthlyHours, minWeeklyHours, maxWeeklyHours };
+  for (const [name, value] of Object.entries(optionalHours)) {
+    if (value !== undefined && value !== null && (typeof value !== 'number' || value < 0)) {
+      errors.push(`contract.${name} must be a non-negative number`);
+    }
+  }
+
+  if (typeof minWeeklyHours === 'number' && typeof maxWeeklyHours === 'number' && minWeeklyHours > maxWeeklyHours) {
+    errors.push('contract.minWeeklyHours cannot exceed contract.maxWeeklyHours');
+  }
+
+  return errors;
+};
+
+/**
+ * Hours an employee should work in a month: the explicit target,
+ * otherwise the production calendar norm scaled by the rate
+ */
+export const getTargetMonthlyHours = (contract: EmploymentContract, norm: MonthNorm): number =>
+  contract.targetMonthlyHours ?? Math.round(norm.normHours * contract.rate * 10) / 10;
@@ -0,0 +1,72 @@
+import pool from '../config/database';
+import { getProductionCalendarMonth, isNonWorkingDay } from './productionCalendar';
+
+/**
+ * Rolling ledger of unpleasant shifts (night, weekend and holiday) over recent months,
+ * counted from the schedule itself, so that the generator rotates them evenly.
+ * Hand-planned months and edits made after an apply count the same as generated ones.
+ */
+
+export const FAIRNESS_WINDOW_MONTHS = 3;
+
+export interface FairnessBurden {
+  nightShifts: number;
+  weekendShifts: number;  // Shifts on days off per the production calendar, holidays included
+  holidayShifts: number;
+  months: number;         // Months of the window the employee has schedule entries in
+}
+
+/**
+ * Single burden figure: a night or day-off shift counts 1, a holiday counts once more
+ * on top of its day-off shift
+ */
+export const getBurdenScore = (burden: FairnessBurden): number =>
+  burden.nightShifts + burden.weekendShifts + burden.holidayShifts;
+
+/**
+ * Burden per employee over `months` months ending with the given month (month is 0-11, inclusive)
+ */
+export const getFairnessLedger = async (
+  month: number,
+  year: number,
+  months: number = FAIRNESS_WINDOW_MONTHS
+): Promise<Map<string, FairnessBurden>> => {
+  // Months are compared as a single index, so the window may span a year boundary
+  const end = year * 12 + month;
+  const start = end - months + 1;
+
+  const [result, calendars] = await Promise.all([
+    pool.query(`
+      SELECT s.employee_id, s.day, s.month, s.year, s.shift_id, sh.is_night, sh.max_staff
+      FROM schedule s
+      LEFT JOIN shifts sh ON s.shift_id = sh.id
+      WHERE s.year * 12 + s.month BETWEEN $1 AND $2
+    `, [start, end]),
+    Promise.all(Array.from({ length: months }, (_, i) =>
+      getProductionCalendarMonth((start + i) % 12, Math.floor((start + i) / 12))
+    ))
+  ]);
+
+  const ledger = new Map<string, FairnessBurden>();
+  const employeeMonths = new Map<string, Set<number>>();
+
+  for (const row of result.rows) {
+    const index = row.year * 12 + row.month;
+    const burden = ledger.get(row.employee_id) || { nightShifts: 0, weekendShifts: 0, holidayShifts: 0, months: 0 };
+    const seen = employeeMonths.get(row.employee_id) || new Set<number>();
+    seen.add(index);
+    burden.months = seen.size;
+    ledger.set(row.employee_id, burden);
+    employeeMonths.set(row.employee_id, seen);
+
+    // Days off and shifts without staff are not work
+    if (row.shift_id === 'Выходной' || (row.max_staff ?? 1) <= 0) continue;
+
+    const calendar = calendars[index - start];
+    if (row.is_night) burden.nightShifts++;
+    if (isNonWorkingDay(calendar, row.day, row.month, row.year)) burden.weekendShifts++;
+    if (calendar.get(row.day)?.type === 'holiday') burden.holidayShifts++;
+  }
+
+  return ledger;
+};
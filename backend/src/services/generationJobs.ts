@@ -0,0 +1,239 @@
+import pool from '../config/database';
+import {
+  AutoScheduler,
+  GenerationCancelledError,
+  GenerationProgress,
+  ScheduleGenerationOptions,
+  ScheduleResult,
+  ScoreTracePoint
+} from './autoScheduler';
+
+/**
+ * Background schedule generation jobs
+ * Each run gets its own schedule_generations row; live progress is kept in memory,
+ * every status change is written to the row and to schedule_generation_events.
+ */
+
+export type GenerationStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJobResult extends ScheduleResult {
+  generationTime: number;
+}
+
+export interface GenerationJob {
+  id: number;
+  month: number;
+  year: number;
+  status: GenerationStatus;
+  progress: GenerationProgress | null;
+  result?: GenerationJobResult;
+  scoreTrace?: ScoreTracePoint[]; // Read back from the row once the job has left memory
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface StartGenerationParams {
+  month: number;
+  year: number;
+  options: NonNullable<ScheduleGenerationOptions['options']>;
+  generatedBy: string | null;
+  // Called after a successful run, before the job is marked finished
+  onCompleted?: (job: GenerationJob, result: GenerationJobResult) => Promise<void>;
+}
+
+interface RunningJob extends GenerationJob {
+  abortController: AbortController;
+}
+
+// Finished jobs stay in memory long enough for the client to pick up the result
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+const jobs = new Map<number, RunningJob>();
+
+const isActive = (job: GenerationJob): boolean =>
+  job.status === 'pending' || job.status === 'in_progress';
+
+const toSnapshot = ({ abortController, ...job }: RunningJob): GenerationJob => job;
+
+const recordStatus = async (
+  job: GenerationJob,
+  status: GenerationStatus,
+  message: string | null = null
+): Promise<void> => {
+  job.status = status;
+
+  await pool.query(`
+    UPDATE schedule_generations
+    SET
+      status = $1,
+      progress = $2,
+      error_message = COALESCE($3, error_message),
+      started_at = COALESCE(started_at, $4),
+      finished_at = $5,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = $6
+  `, [
+    status,
+    job.progress ? JSON.stringify(job.progress) : null,
+    status === 'failed' ? message : null,
+    job.startedAt || null,
+    job.finishedAt || null,
+    job.id
+  ]);
+
+  await pool.query(`
+    INSERT INTO schedule_generation_events (generation_id, status, progress, message)
+    VALUES ($1, $2, $3, $4)
+  `, [job.id, status, job.progress ? JSON.stringify(job.progress) : null, message]);
+};
+
+const finishJob = async (job: RunningJob, status: GenerationStatus, message: string | null = null) => {
+  job.finishedAt = new Date();
+  try {
+    await recordStatus(job, status, message);
+  } catch (error) {
+    console.error(`Error recording status of generation ${job.id}:`, error);
+  }
+  setTimeout(() => jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+};
+
+const runJob = async (job: RunningJob, params: StartGenerationParams): Promise<void> => {
+  try {
+    job.startedAt = new Date();
+    await recordStatus(job, 'in_progress');
+
+    const startTime = Date.now();
+    const result = await new AutoScheduler().generateSchedule({
+      month: job.month,
+      year: job.year,
+      options: {
+        ...params.options,
+        generationId: job.id,
+        signal: job.abortController.signal,
+        onProgress: (progress) => {
+          job.progress = progress;
+        }
+      }
+    });
+    const generationTime = Date.now() - startTime;
+
+    job.result = { ...result, generationTime };
+
+    await pool.query(`
+      UPDATE schedule_generations
+      SET total_violations = $1, violation_details = $2, generation_time_ms = $3, score_trace = $4
+      WHERE id = $5
+    `, [
+      result.violations?.length || 0,
+      JSON.stringify(result.violations || []),
+      generationTime,
+      JSON.stringify(result.scoreTrace || []),
+      job.id
+    ]);
+
+    if (params.onCompleted) {
+      await params.onCompleted(toSnapshot(job), job.result);
+    }
+
+    // A schedule with rule violations is still a usable draft; they stay in violation_details
+    await finishJob(job, 'completed', result.success ? null : 'Schedule generated with rule violations');
+  } catch (error) {
+    if (error instanceof GenerationCancelledError) {
+      await finishJob(job, 'cancelled', 'Cancelled by user');
+      return;
+    }
+
+    console.error(`Error in generation job ${job.id}:`, error);
+    job.error = error instanceof Error ? error.message : 'Unknown error occurred';
+    await finishJob(job, 'failed', job.error);
+  }
+};
+
+/**
+ * Find a running generation for the month, if any
+ */
+export const findActiveGenerationJob = (month: number, year: number): GenerationJob | undefined => {
+  for (const job of jobs.values()) {
+    if (job.month === month && job.year === year && isActive(job)) {
+      return toSnapshot(job);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Create a generation record and start the run in the background
+ */
+export const startGenerationJob = async (params: StartGenerationParams): Promise<GenerationJob> => {
+  const { month, year, options, generatedBy } = params;
+
+  const insertResult = await pool.query(`
+    INSERT INTO schedule_generations (month, year, status, generated_by, algorithm_config)
+    VALUES ($1, $2, 'pending', $3, $4)
+    RETURNING id
+  `, [month, year, generatedBy, JSON.stringify(options)]);
+
+  const job: RunningJob = {
+    id: insertResult.rows[0].id,
+    month,
+    year,
+    status: 'pending',
+    progress: null,
+    abortController: new AbortController()
+  };
+  jobs.set(job.id, job);
+
+  await pool.query(
+    'INSERT INTO schedule_generation_events (generation_id, status) VALUES ($1, $2)',
+    [job.id, 'pending']
+  );
+
+  // Start after the response is sent; the run yields to the event loop while it works
+  setImmediate(() => {
+    runJob(job, params);
+  });
+
+  return toSnapshot(job);
+};
+
+/**
+ * Get a job with live progress; finished jobs no longer in memory are read from the database
+ */
+export const getGenerationJob = async (id: number): Promise<GenerationJob | null> => {
+  const job = jobs.get(id);
+  if (job) return toSnapshot(job);
+
+  const result = await pool.query(`
+    SELECT id, month, year, status, progress, error_message, started_at, finished_at, score_trace
+    FROM schedule_generations
+    WHERE id = $1
+  `, [id]);
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  return {
+    id: row.id,
+    month: row.month,
+    year: row.year,
+    status: row.status,
+    progress: row.progress,
+    scoreTrace: row.score_trace,
+    error: row.error_message || undefined,
+    startedAt: row.started_at || undefined,
+    finishedAt: row.finished_at || undefined
+  };
+};
+
+/**
+ * Request cancellation of a running job
+ * Returns false if the job is unknown or already finished
+ */
+export const cancelGenerationJob = (id: number): boolean => {
+  const job = jobs.get(id);
+  if (!job || !isActive(job)) return false;
+
+  job.abortController.abort();
+  return true;
+};
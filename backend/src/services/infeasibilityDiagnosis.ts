@@ -0,0 +1,401 @@
+/**
+ * Infeasibility diagnosis of a month
+ * Checks necessary conditions of a schedule - enough staff on every day, for every required role,
+ * and enough total capacity under the work limits - and names the rules, staffing levels and
+ * approved day-offs behind each conflict. Relaxations are ranked by the relative size of the change.
+ * Capacity is an upper estimate: every shift is counted at the shortest work shift length.
+ */
+
+export type LimitKind = 'consecutive_days' | 'weekly_shifts' | 'weekly_hours' | 'monthly_hours';
+
+export interface ConflictCause {
+  type: 'rule' | 'staffing' | 'day_off' | 'limit' | 'contract';
+  ruleId?: number;
+  shiftId?: string;
+  employeeId?: string;
+  description: string;
+}
+
+export interface CapacityEmployee {
+  id: string;
+  name: string;
+  roleName: string;
+  isManager: boolean;
+  workableDays: number[];  // Days with an open shift the employee may take
+  dayOffDays: number[];    // Days blocked only by an approved day-off request
+  initialStreak: number;   // Work days in a row leading into the month
+  limits: Partial<Record<LimitKind, number>>;
+}
+
+export interface CapacityDay {
+  day: number;
+  shiftPositions: Array<{ shiftId: string; positions: number }>;
+  roleDemand: Array<{ role: string; count: number }>; // Role-restricted positions over the day's shifts
+  managerDemand: number;
+}
+
+export interface FeasibilityModel {
+  shiftHours: number;
+  weekOf: (day: number) => number;
+  employees: CapacityEmployee[];
+  days: CapacityDay[];
+  staffingSources: ConflictCause[];
+  limitSources: Partial<Record<LimitKind, ConflictCause[]>>;
+}
+
+export interface InfeasibilityConflict {
+  type: 'daily_staffing' | 'role_staffing' | 'manager_staffing' | 'monthly_capacity';
+  day?: number;
+  role?: string;
+  required: number;
+  available: number;
+  causes: ConflictCause[];
+  message: string;
+}
+
+export interface Relaxation {
+  type: 'hire' | 'raise_limit' | 'lower_staffing' | 'reject_day_offs';
+  limit?: LimitKind;
+  role?: string;
+  from?: number;
+  to?: number;
+  count?: number;
+  cost: number;               // Relative size of the change, lower is cheaper
+  remainingConflicts: number; // Conflicts left after the change
+  description: string;
+}
+
+export interface InfeasibilityDiagnosis {
+  feasible: boolean;
+  conflicts: InfeasibilityConflict[];
+  relaxations: Relaxation[];
+  cheapest: Relaxation | null;
+}
+
+const MAX_HIRES = 10;
+const DEFAULT_CONSECUTIVE_DAYS = 5;
+
+const LIMIT_LABELS: Record<LimitKind, string> = {
+  consecutive_days: 'рабочих дней подряд',
+  weekly_shifts: 'смен в неделю',
+  weekly_hours: 'часов в неделю',
+  monthly_hours: 'часов в месяц'
+};
+
+// Upper bound and step when searching for a raised limit
+const limitSearch = (kind: LimitKind, model: FeasibilityModel): { max: number; step: number } => {
+  const days = model.days.length;
+  switch (kind) {
+    case 'consecutive_days': return { max: days, step: 1 };
+    case 'weekly_shifts': return { max: 7, step: 1 };
+    case 'weekly_hours': return { max: 7 * 24, step: model.shiftHours };
+    case 'monthly_hours': return { max: days * 24, step: model.shiftHours };
+  }
+};
+
+// Most common value, the one a rule or a typical contract sets
+const mostCommon = <T>(values: T[]): T | undefined => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+const totalPositions = (day: CapacityDay): number =>
+  day.shiftPositions.reduce((sum, shift) => sum + shift.positions, 0);
+
+/**
+ * Most shifts an employee can work in the month: works on every workable day
+ * unless a limit forces a day off, which is optimal for streak and period caps
+ */
+export const estimateCapacity = (employee: CapacityEmployee, model: FeasibilityModel): number => {
+  const workable = new Set(employee.workableDays);
+  const { limits } = employee;
+  const maxStreak = limits.consecutive_days ?? DEFAULT_CONSECUTIVE_DAYS;
+  const weekShifts = new Map<number, number>();
+  const weekHours = new Map<number, number>();
+  let streak = employee.initialStreak;
+  let monthHours = 0;
+  let shifts = 0;
+
+  for (const { day } of model.days) {
+    const week = model.weekOf(day);
+    const blocked = !workable.has(day) ||
+      streak >= maxStreak ||
+      (weekShifts.get(week) || 0) + 1 > (limits.weekly_shifts ?? Infinity) ||
+      (weekHours.get(week) || 0) + model.shiftHours > (limits.weekly_hours ?? Infinity) ||
+      monthHours + model.shiftHours > (limits.monthly_hours ?? Infinity);
+
+    if (blocked) {
+      streak = 0;
+      continue;
+    }
+
+    shifts++;
+    streak++;
+    monthHours += model.shiftHours;
+    weekShifts.set(week, (weekShifts.get(week) || 0) + 1);
+    weekHours.set(week, (weekHours.get(week) || 0) + model.shiftHours);
+  }
+
+  return shifts;
+};
+
+const totalCapacity = (model: FeasibilityModel): number =>
+  model.employees.reduce((sum, employee) => sum + estimateCapacity(employee, model), 0);
+
+/**
+ * Conflicts of a model; an empty list means the necessary conditions hold
+ */
+export const findConflicts = (model: FeasibilityModel): InfeasibilityConflict[] => {
+  const conflicts: InfeasibilityConflict[] = [];
+
+  for (const capacityDay of model.days) {
+    const { day } = capacityDay;
+    const onDuty = model.employees.filter(emp => emp.workableDays.includes(day));
+    const required = totalPositions(capacityDay);
+
+    if (required > onDuty.length) {
+      conflicts.push({
+        type: 'daily_staffing',
+        day,
+        required,
+        available: onDuty.length,
+        causes: [
+          ...model.staffingSources,
+          ...model.employees
+            .filter(emp => emp.dayOffDays.includes(day))
+            .map(emp => ({ type: 'day_off' as const, employeeId: emp.id, description: `Одобренный выходной: ${emp.name}` }))
+        ],
+        message: `${day} число: нужно ${required} сотрудников, доступно ${onDuty.length}`
+      });
+    }
+
+    for (const { role, count } of capacityDay.roleDemand) {
+      const available = onDuty.filter(emp => emp.roleName === role).length;
+      if (count > available) {
+        conflicts.push({
+          type: 'role_staffing',
+          day,
+          role,
+          required: count,
+          available,
+          causes: model.staffingSources.filter(cause => cause.type === 'rule' || cause.shiftId),
+          message: `${day} число: нужно сотрудников с ролью «${role}»: ${count}, доступно ${available}`
+        });
+      }
+    }
+
+    const managers = onDuty.filter(emp => emp.isManager).length;
+    if (capacityDay.managerDemand > managers) {
+      conflicts.push({
+        type: 'manager_staffing',
+        day,
+        required: capacityDay.managerDemand,
+        available: managers,
+        causes: model.staffingSources.filter(cause => cause.type === 'rule'),
+        message: `${day} число: нужно управляющих: ${capacityDay.managerDemand}, доступно ${managers}`
+      });
+    }
+  }
+
+  const demand = model.days.reduce((sum, day) => sum + totalPositions(day), 0);
+  const capacity = totalCapacity(model);
+
+  if (demand > capacity) {
+    // A limit is part of the conflict if lifting it alone adds capacity
+    const bindingLimits = (Object.keys(model.limitSources) as LimitKind[]).filter(kind =>
+      totalCapacity(withLimit(model, kind, Infinity)) > capacity
+    );
+
+    conflicts.push({
+      type: 'monthly_capacity',
+      required: demand,
+      available: capacity,
+      causes: [
+        ...model.staffingSources,
+        ...bindingLimits.flatMap(kind => model.limitSources[kind] || [])
+      ],
+      message: `За месяц нужно ${demand} смен, при текущих ограничениях сотрудники могут отработать не более ${capacity}`
+    });
+  }
+
+  return conflicts;
+};
+
+// Model where every employee with the given limit has it raised to at least `value`
+const withLimit = (model: FeasibilityModel, kind: LimitKind, value: number): FeasibilityModel => ({
+  ...model,
+  employees: model.employees.map(emp => {
+    const current = emp.limits[kind] ?? (kind === 'consecutive_days' ? DEFAULT_CONSECUTIVE_DAYS : undefined);
+    return current === undefined || current >= value
+      ? emp
+      : { ...emp, limits: { ...emp.limits, [kind]: value } };
+  })
+});
+
+const withHires = (
+  model: FeasibilityModel,
+  count: number,
+  template: Omit<CapacityEmployee, 'id' | 'name'>
+): FeasibilityModel => ({
+  ...model,
+  employees: [
+    ...model.employees,
+    ...Array.from({ length: count }, (_, i) => ({ ...template, id: `new-${i + 1}`, name: `Новый сотрудник ${i + 1}` }))
+  ]
+});
+
+const withLowerStaffing = (model: FeasibilityModel, by: number): FeasibilityModel => ({
+  ...model,
+  days: model.days.map(day => ({
+    ...day,
+    shiftPositions: day.shiftPositions.map(shift => ({ ...shift, positions: Math.max(1, shift.positions - by) }))
+  }))
+});
+
+/**
+ * Smallest step count in 1..maxSteps whose model leaves the fewest conflicts
+ */
+const findSmallestStep = (
+  baseline: number,
+  maxSteps: number,
+  build: (step: number) => FeasibilityModel
+): { step: number; remaining: number } | null => {
+  let best: { step: number; remaining: number } | null = null;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const remaining = findConflicts(build(step)).length;
+    if (remaining < baseline && (!best || remaining < best.remaining)) {
+      best = { step, remaining };
+    }
+    if (remaining === 0) break;
+  }
+
+  return best;
+};
+
+/**
+ * Candidate changes that remove some of the conflicts, cheapest first
+ */
+const findRelaxations = (model: FeasibilityModel, conflicts: InfeasibilityConflict[]): Relaxation[] => {
+  const relaxations: Relaxation[] = [];
+  const staff = Math.max(1, model.employees.length);
+  const baseline = conflicts.length;
+  const openDays = model.days.filter(day => totalPositions(day) > 0).map(day => day.day);
+
+  // A new hire works under the limits most of the staff have
+  const typicalLimits: Partial<Record<LimitKind, number>> = {};
+  for (const kind of Object.keys(LIMIT_LABELS) as LimitKind[]) {
+    const value = mostCommon(model.employees.map(emp => emp.limits[kind]).filter((v): v is number => v !== undefined));
+    if (value !== undefined) typicalLimits[kind] = value;
+  }
+  const hireTemplate = (roleName: string, isManager: boolean): Omit<CapacityEmployee, 'id' | 'name'> => ({
+    roleName,
+    isManager,
+    workableDays: openDays,
+    dayOffDays: [],
+    initialStreak: 0,
+    limits: typicalLimits
+  });
+
+  const hireOptions = [{ role: mostCommon(model.employees.map(emp => emp.roleName)) || '', isManager: false }];
+  for (const role of new Set(conflicts.filter(c => c.type === 'role_staffing').map(c => c.role!))) {
+    hireOptions.push({ role, isManager: model.employees.some(emp => emp.roleName === role && emp.isManager) });
+  }
+  if (conflicts.some(c => c.type === 'manager_staffing')) {
+    const managerRole = model.employees.find(emp => emp.isManager)?.roleName;
+    if (managerRole) hireOptions.push({ role: managerRole, isManager: true });
+  }
+
+  for (const [index, option] of hireOptions.entries()) {
+    const result = findSmallestStep(baseline, MAX_HIRES, count => withHires(model, count, hireTemplate(option.role, option.isManager)));
+    if (!result) continue;
+    const who = index === 0 ? 'сотрудников' : `сотрудников с ролью «${option.role}»`;
+    relaxations.push({
+      type: 'hire',
+      role: index === 0 ? undefined : option.role,
+      count: result.step,
+      cost: result.step / staff,
+      remainingConflicts: result.remaining,
+      description: `Нанять ${who}: ${result.step}`
+    });
+  }
+
+  for (const kind of Object.keys(model.limitSources) as LimitKind[]) {
+    const current = typicalLimits[kind] ?? (kind === 'consecutive_days' ? DEFAULT_CONSECUTIVE_DAYS : undefined);
+    if (current === undefined) continue;
+
+    const { max, step } = limitSearch(kind, model);
+    const result = findSmallestStep(baseline, Math.floor((max - current) / step), n => withLimit(model, kind, current + n * step));
+    if (!result) continue;
+
+    const to = current + result.step * step;
+    relaxations.push({
+      type: 'raise_limit',
+      limit: kind,
+      from: current,
+      to,
+      cost: (to - current) / current,
+      remainingConflicts: result.remaining,
+      description: `Повысить лимит ${LIMIT_LABELS[kind]} с ${current} до ${to}`
+    });
+  }
+
+  const maxPositions = Math.max(0, ...model.days.flatMap(day => day.shiftPositions.map(shift => shift.positions)));
+  if (maxPositions > 1) {
+    const result = findSmallestStep(baseline, maxPositions - 1, by => withLowerStaffing(model, by));
+    if (result) {
+      relaxations.push({
+        type: 'lower_staffing',
+        count: result.step,
+        cost: result.step / maxPositions,
+        remainingConflicts: result.remaining,
+        description: `Снизить требуемое число сотрудников в каждой смене на ${result.step} (не ниже 1)`
+      });
+    }
+  }
+
+  // Day-off requests on understaffed days, only as many as each day is short
+  const freed = new Map<string, number[]>();
+  let rejected = 0;
+  for (const conflict of conflicts) {
+    if (conflict.type !== 'daily_staffing') continue;
+    const requests = conflict.causes.filter(cause => cause.type === 'day_off').slice(0, conflict.required - conflict.available);
+    for (const request of requests) {
+      freed.set(request.employeeId!, [...(freed.get(request.employeeId!) || []), conflict.day!]);
+      rejected++;
+    }
+  }
+  if (rejected > 0) {
+    const relaxed = {
+      ...model,
+      employees: model.employees.map(emp => freed.has(emp.id)
+        ? { ...emp, workableDays: [...emp.workableDays, ...freed.get(emp.id)!].sort((a, b) => a - b) }
+        : emp)
+    };
+    const remaining = findConflicts(relaxed).length;
+    if (remaining < baseline) {
+      relaxations.push({
+        type: 'reject_day_offs',
+        count: rejected,
+        cost: rejected / staff,
+        remainingConflicts: remaining,
+        description: `Перенести одобренные выходные в дни нехватки: ${rejected}`
+      });
+    }
+  }
+
+  return relaxations.sort((a, b) => a.remainingConflicts - b.remainingConflicts || a.cost - b.cost);
+};
+
+export const diagnoseFeasibility = (model: FeasibilityModel): InfeasibilityDiagnosis => {
+  const conflicts = findConflicts(model);
+  const relaxations = conflicts.length > 0 ? findRelaxations(model, conflicts) : [];
+
+  return {
+    feasible: conflicts.length === 0,
+    conflicts,
+    relaxations,
+    cheapest: relaxations[0] || null
+  };
+};
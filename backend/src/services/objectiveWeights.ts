@@ -0,0 +1,73 @@
+import pool from '../config/database';
+
+/**
+ * Weights of the schedule objective
+ * Defaults live in app_settings ('schedule_objective_weights'); a generation may override
+ * any of them through its options.
+ */
+
+export const OBJECTIVE_WEIGHTS_KEY = 'schedule_objective_weights';
+
+export interface ObjectiveWeights {
+  coverage: number;    // Filled required positions, by shift coverage priority
+  fairness: number;    // Even hours against contract targets and rotation of unpleasant shifts
+  preferences: number; // Approved shift preferences kept
+  cost: number;        // Scheduled hours, overtime above the contract target counts extra
+}
+
+export const OBJECTIVE_KEYS: Array<keyof ObjectiveWeights> = ['coverage', 'fairness', 'preferences', 'cost'];
+
+export const DEFAULT_OBJECTIVE_WEIGHTS: ObjectiveWeights = {
+  coverage: 1,
+  fairness: 1,
+  preferences: 1,
+  cost: 1
+};
+
+export const MAX_OBJECTIVE_WEIGHT = 10;
+
+/**
+ * Check weights; with `partial` missing keys are allowed. Returns a list of errors (empty if valid)
+ */
+export const validateObjectiveWeights = (weights: unknown, partial = false): string[] => {
+  if (typeof weights !== 'object' || weights === null || Array.isArray(weights)) {
+    return ['weights must be an object'];
+  }
+
+  const errors: string[] = [];
+  const values = weights as Record<string, unknown>;
+
+  for (const key of OBJECTIVE_KEYS) {
+    const value = values[key];
+    if (value === undefined && partial) continue;
+
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_OBJECTIVE_WEIGHT) {
+      errors.push(`${key} must be a number from 0 to ${MAX_OBJECTIVE_WEIGHT}`);
+    }
+  }
+
+  const unknown = Object.keys(values).filter(key => !OBJECTIVE_KEYS.includes(key as keyof ObjectiveWeights));
+  if (unknown.length > 0) {
+    errors.push(`Unknown weights: ${unknown.join(', ')}`);
+  }
+
+  return errors;
+};
+
+/**
+ * Saved default weights, falls back to DEFAULT_OBJECTIVE_WEIGHTS
+ */
+export const getObjectiveWeights = async (): Promise<ObjectiveWeights> => {
+  const result = await pool.query('SELECT value FROM app_settings WHERE key = $1', [OBJECTIVE_WEIGHTS_KEY]);
+  if (result.rows.length === 0) return DEFAULT_OBJECTIVE_WEIGHTS;
+
+  try {
+    const weights = JSON.parse(result.rows[0].value);
+    if (validateObjectiveWeights(weights).length === 0) return weights;
+  } catch {
+    // Broken value is ignored
+  }
+
+  console.warn('Invalid objective weights setting, using the default ones');
+  return DEFAULT_OBJECTIVE_WEIGHTS;
+};
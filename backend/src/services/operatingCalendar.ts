@@ -0,0 +1,99 @@
+import pool from '../config/database';
+import { OperatingDay } from '../models/types';
+
+/**
+ * Store operating calendar
+ * Regular hours per weekday live in app_settings ('operating_calendar', index = Date.getDay()),
+ * date-specific exceptions in operating_calendar_overrides.
+ */
+
+export const OPERATING_CALENDAR_KEY = 'operating_calendar';
+
+export interface OperatingHours {
+  start: string;
+  end: string;
+}
+
+// Used until the setting is saved: Monday-Saturday, Sunday closed
+export const DEFAULT_OPERATING_WEEK: OperatingDay[] = [0, 1, 2, 3, 4, 5, 6].map(weekday => ({
+  open: weekday !== 0,
+  start: '08:00',
+  end: '22:00'
+}));
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isValidTime = (value: unknown): value is string =>
+  typeof value === 'string' && TIME_PATTERN.test(value);
+
+/**
+ * Check a weekly calendar; returns a list of errors (empty if valid)
+ */
+export const validateOperatingWeek = (week: unknown): string[] => {
+  if (!Array.isArray(week) || week.length !== 7) {
+    return ['week must be an array of 7 days (0 - Sunday)'];
+  }
+
+  const errors: string[] = [];
+  week.forEach((day, weekday) => {
+    if (typeof day?.open !== 'boolean') {
+      errors.push(`week[${weekday}].open must be a boolean`);
+    }
+    if (!isValidTime(day?.start) || !isValidTime(day?.end)) {
+      errors.push(`week[${weekday}] start and end must be in HH:MM format`);
+    }
+  });
+  return errors;
+};
+
+/**
+ * Weekly calendar from settings, falls back to the default one
+ */
+export const getOperatingWeek = async (): Promise<OperatingDay[]> => {
+  const result = await pool.query('SELECT value FROM app_settings WHERE key = $1', [OPERATING_CALENDAR_KEY]);
+  if (result.rows.length === 0) return DEFAULT_OPERATING_WEEK;
+
+  try {
+    const week = JSON.parse(result.rows[0].value);
+    if (validateOperatingWeek(week).length === 0) return week;
+  } catch {
+    // Broken value is ignored
+  }
+
+  console.warn('Invalid operating calendar setting, using the default one');
+  return DEFAULT_OPERATING_WEEK;
+};
+
+/**
+ * Opening hours of every day of a month the store is open (month is 0-11);
+ * days missing from the map are closed
+ */
+export const getMonthOperatingHours = async (month: number, year: number): Promise<Map<number, OperatingHours>> => {
+  const week = await getOperatingWeek();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  const overridesResult = await pool.query(`
+    SELECT EXTRACT(DAY FROM date)::int AS day, is_closed, start_time, end_time
+    FROM operating_calendar_overrides
+    WHERE EXTRACT(YEAR FROM date) = $1 AND EXTRACT(MONTH FROM date) = $2
+  `, [year, month + 1]);
+  const overrides = new Map<number, any>(overridesResult.rows.map((row: any) => [row.day, row]));
+
+  const hours = new Map<number, OperatingHours>();
+  for (let day = 1; day <= daysInMonth; day++) {
+    const regular = week[new Date(year, month, day).getDay()];
+    const override = overrides.get(day);
+
+    if (override) {
+      if (override.is_closed) continue;
+      hours.set(day, {
+        start: override.start_time || regular.start,
+        end: override.end_time || regular.end
+      });
+    } else if (regular.open) {
+      hours.set(day, { start: regular.start, end: regular.end });
+    }
+  }
+
+  return hours;
+};
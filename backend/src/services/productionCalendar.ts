@@ -0,0 +1,254 @@
+import pool from '../config/database';
+import { MonthNorm, ProductionCalendarDay, ProductionDayType } from '../models/types';
+
+/**
+ * Russian production calendar (производственный календарь)
+ * Only days that differ from the regular Monday-Friday week are stored:
+ * public holidays and moved days off, shortened pre-holiday days, weekends moved to working days.
+ */
+
+export class ProductionCalendarParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProductionCalendarParseError';
+  }
+}
+
+export type ProductionCalendarFormat = 'xml' | 'json';
+
+const DAY_TYPES: ProductionDayType[] = ['holiday', 'shortened', 'working'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const HOURS_PER_DAY = 8; // 40-hour week
+const SHORTENED_BY = 1;  // Pre-holiday days are one hour shorter
+
+const toDateString = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const isRegularWeekend = (date: Date): boolean => date.getDay() === 0 || date.getDay() === 6;
+
+const decodeXmlEntities = (value: string): string =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const parseXmlAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of source.matchAll(/(\w+)\s*=\s*"([^"]*)"/g)) {
+    attributes[name] = decodeXmlEntities(value);
+  }
+  return attributes;
+};
+
+/**
+ * xmlcalendar.ru XML:
+ * <calendar year="2026"><holidays><holiday id="1" title="..."/></holidays>
+ * <days><day d="01.01" t="1" h="1"/></days></calendar>
+ * t: 1 - day off, 2 - shortened day, 3 - working day
+ */
+const parseXml = (content: string): ProductionCalendarDay[] => {
+  const calendar = content.match(/<calendar\b([^>]*)>/);
+  const year = Number(calendar ? parseXmlAttributes(calendar[1]).year : NaN);
+  if (!Number.isInteger(year)) {
+    throw new ProductionCalendarParseError('XML calendar must have a <calendar year="YYYY"> element');
+  }
+
+  const titles = new Map<string, string>();
+  for (const [, attributes] of content.matchAll(/<holiday\b([^>]*?)\/?>/g)) {
+    const { id, title } = parseXmlAttributes(attributes);
+    if (id && title) titles.set(id, title);
+  }
+
+  const typeByCode: Record<string, ProductionDayType> = { '1': 'holiday', '2': 'shortened', '3': 'working' };
+  const days: ProductionCalendarDay[] = [];
+
+  for (const [, attributes] of content.matchAll(/<day\b([^>]*?)\/?>/g)) {
+    const { d, t, h } = parseXmlAttributes(attributes);
+    const [month, day] = (d || '').split('.').map(Number);
+    const type = typeByCode[t];
+
+    if (!month || !day || !type) {
+      throw new ProductionCalendarParseError(`Invalid <day> element: ${attributes.trim()}`);
+    }
+    days.push({ date: toDateString(year, month, day), type, title: h ? titles.get(h) : undefined });
+  }
+
+  return days;
+};
+
+/**
+ * xmlcalendar.ru JSON: { year, months: [{ month: 1, days: "1,2,3,4*,10+" }] }
+ * Listed days are days off, "*" - shortened working day, "+" - moved day off
+ */
+const parseMonthsJson = (data: any): ProductionCalendarDay[] => {
+  const year = Number(data.year);
+  if (!Number.isInteger(year)) {
+    throw new ProductionCalendarParseError('JSON calendar must have a numeric "year"');
+  }
+
+  const days: ProductionCalendarDay[] = [];
+
+  for (const entry of data.months) {
+    const month = Number(entry?.month);
+    if (!Number.isInteger(month) || month < 1 || month > 12 || typeof entry.days !== 'string') {
+      throw new ProductionCalendarParseError(`Invalid month entry: ${JSON.stringify(entry)}`);
+    }
+
+    const daysOff = new Set<number>();
+    for (const token of entry.days.split(',').map((value: string) => value.trim()).filter(Boolean)) {
+      const day = parseInt(token, 10);
+      if (!Number.isInteger(day)) {
+        throw new ProductionCalendarParseError(`Invalid day "${token}" in month ${month}`);
+      }
+
+      if (token.endsWith('*')) {
+        days.push({ date: toDateString(year, month, day), type: 'shortened' });
+        continue;
+      }
+
+      daysOff.add(day);
+      // Regular weekends need no entry
+      if (!isRegularWeekend(new Date(year, month - 1, day))) {
+        days.push({ date: toDateString(year, month, day), type: 'holiday' });
+      }
+    }
+
+    // Weekends missing from the list are working days
+    const daysInMonth = new Date(year, month, 0).getDate();
+    for (let day = 1; day <= daysInMonth; day++) {
+      if (!daysOff.has(day) && isRegularWeekend(new Date(year, month - 1, day)) &&
+        !days.some(d => d.date === toDateString(year, month, day))) {
+        days.push({ date: toDateString(year, month, day), type: 'working' });
+      }
+    }
+  }
+
+  return days;
+};
+
+/**
+ * Own JSON: [{ date: "2026-01-01", type: "holiday", title?: "..." }] or { days: [...] }
+ */
+const parseDaysJson = (list: unknown[]): ProductionCalendarDay[] =>
+  list.map(item => {
+    const { date, type, title } = (item || {}) as Record<string, unknown>;
+    if (typeof date !== 'string' || !DATE_PATTERN.test(date) || !DAY_TYPES.includes(type as ProductionDayType)) {
+      throw new ProductionCalendarParseError(`Invalid day entry: ${JSON.stringify(item)}`);
+    }
+    return { date, type: type as ProductionDayType, title: typeof title === 'string' ? title : undefined };
+  });
+
+/**
+ * Parse a calendar file; the format is detected from the content if not given
+ */
+export const parseProductionCalendar = (
+  content: string,
+  format?: ProductionCalendarFormat
+): ProductionCalendarDay[] => {
+  const detected = format || (content.trimStart().startsWith('<') ? 'xml' : 'json');
+
+  if (detected === 'xml') return parseXml(content);
+
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new ProductionCalendarParseError('File is neither valid XML nor valid JSON');
+  }
+
+  if (Array.isArray(data)) return parseDaysJson(data);
+  if (Array.isArray(data?.days)) return parseDaysJson(data.days);
+  if (Array.isArray(data?.months)) return parseMonthsJson(data);
+
+  throw new ProductionCalendarParseError('Unsupported JSON calendar: expected "days" or "months"');
+};
+
+/**
+ * Replace the calendar of every year present in the imported days
+ */
+export const importProductionCalendar = async (days: ProductionCalendarDay[]): Promise<number[]> => {
+  const years = [...new Set(days.map(day => Number(day.date.slice(0, 4))))].sort();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM production_calendar WHERE EXTRACT(YEAR FROM date) = ANY($1::int[])', [years]);
+
+    for (const day of days) {
+      await client.query(`
+        INSERT INTO production_calendar (date, day_type, title)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (date) DO UPDATE SET day_type = EXCLUDED.day_type, title = EXCLUDED.title
+      `, [day.date, day.type, day.title || null]);
+    }
+
+    await client.query('COMMIT');
+    return years;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Calendar days of a month (month is 0-11), keyed by day of the month
+ */
+export const getProductionCalendarMonth = async (
+  month: number,
+  year: number
+): Promise<Map<number, ProductionCalendarDay>> => {
+  const result = await pool.query(`
+    SELECT to_char(date, 'YYYY-MM-DD') AS date, day_type, title
+    FROM production_calendar
+    WHERE EXTRACT(YEAR FROM date) = $1 AND EXTRACT(MONTH FROM date) = $2
+  `, [year, month + 1]);
+
+  return new Map(result.rows.map((row: any) => [
+    Number(row.date.slice(8, 10)),
+    { date: row.date, type: row.day_type, title: row.title || undefined }
+  ]));
+};
+
+/**
+ * Whether a day is a day off: a holiday, or a regular weekend not moved to a working day
+ */
+export const isNonWorkingDay = (
+  calendar: Map<number, ProductionCalendarDay>,
+  day: number,
+  month: number,
+  year: number
+): boolean => {
+  const type = calendar.get(day)?.type;
+  if (type === 'holiday') return true;
+  if (type === 'working' || type === 'shortened') return false;
+  return isRegularWeekend(new Date(year, month, day));
+};
+
+/**
+ * Working days and norm hours of a month for a 40-hour week
+ */
+export const calculateMonthNorm = (
+  calendar: Map<number, ProductionCalendarDay>,
+  month: number,
+  year: number
+): MonthNorm => {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  let workingDays = 0;
+  let shortenedDays = 0;
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (isNonWorkingDay(calendar, day, month, year)) continue;
+    workingDays++;
+    if (calendar.get(day)?.type === 'shortened') shortenedDays++;
+  }
+
+  return {
+    workingDays,
+    shortenedDays,
+    normHours: workingDays * HOURS_PER_DAY - shortenedDays * SHORTENED_BY
+  };
+};
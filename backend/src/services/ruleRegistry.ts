@@ -0,0 +1,503 @@
+import { ValidationRuleType } from '../models/types';
+
+/**
+ * Реестр типов правил валидации
+ * Для каждого типа правила описаны: название, схема config (с подсказками для формы
+ * в ValidationRulesManager), то, как правило учитывается генератором графика,
+ * от чего зависят его нарушения и вес нарушения в оценке графика.
+ * Валидаторы для всех типов реализованы в AutoScheduler.
+ */
+
+type ConfigFieldType = 'number' | 'string' | 'boolean' | 'array' | 'object';
+
+// Элемент формы для поля config в интерфейсе
+type ConfigFieldInput = 'number' | 'text' | 'select' | 'checkbox' | 'weekdays' | 'list' | 'json';
+
+interface ConfigField {
+  type: ConfigFieldType;
+  required?: boolean;
+  min?: number; // Только для number
+  label: string;
+  input: ConfigFieldInput;
+  default?: unknown;
+  options?: Array<{ value: string; label: string }>; // Только для select
+  hint?: string;
+}
+
+/**
+ * Как генератор учитывает правило:
+ * - incremental: проверяется при каждом назначении (новое назначение может только добавить нарушение)
+ * - coverage: задаёт минимальное число сотрудников, генератор планирует под него позиции
+ * - day_off: запрещает назначать смены сотруднику в определённые дни
+ * - final: проверяется на готовом графике и учитывается при оптимизации
+ */
+export type RuleGeneratorHint = 'incremental' | 'coverage' | 'day_off' | 'final';
+
+/**
+ * От чего зависят нарушения правила; при оптимизации генератор пересчитывает правило
+ * только для сотрудников и дней, которые затронуло изменение графика:
+ * - employee: от смен одного сотрудника, нарушение относится к нему (employeeId)
+ * - day: от смен одного дня, нарушение относится к этому дню (day)
+ * - month: от графика всего месяца
+ */
+export type RuleScoreScope = 'employee' | 'day' | 'month';
+
+// Подстановки для пользовательского сообщения о нарушении (custom_message)
+export type MessagePlaceholder = 'employee' | 'day' | 'date' | 'shift' | 'actual' | 'limit';
+
+export const MESSAGE_PLACEHOLDERS: Record<MessagePlaceholder, string> = {
+  employee: 'Имя сотрудника',
+  day: 'День месяца',
+  date: 'Дата (ДД.ММ.ГГГГ)',
+  shift: 'Название смены',
+  actual: 'Фактическое значение',
+  limit: 'Допустимое значение'
+};
+
+export interface RuleDefinition {
+  name: string;
+  description: string;
+  generatorHint: RuleGeneratorHint;
+  scoreScope: RuleScoreScope;
+  defaultWeight: number; // Вес нарушения в оценке графика, если в rule_priorities не задан свой
+  config: Record<string, ConfigField>;
+  placeholders: MessagePlaceholder[]; // Какие подстановки заполняет валидатор
+}
+
+const WEEKDAYS_HINT = '0 - воскресенье, 1 - понедельник, ..., 6 - суббота';
+
+// Типовые наборы подстановок
+const EMPLOYEE_DAY_LIMIT: MessagePlaceholder[] = ['employee', 'day', 'date', 'actual', 'limit'];
+const EMPLOYEE_LIMIT: MessagePlaceholder[] = ['employee', 'actual', 'limit'];
+const SHIFT_DAY_LIMIT: MessagePlaceholder[] = ['day', 'date', 'shift', 'actual', 'limit'];
+const DAY_LIMIT: MessagePlaceholder[] = ['day', 'date', 'actual', 'limit'];
+
+export const ruleRegistry: Record<ValidationRuleType, RuleDefinition> = {
+  max_consecutive_shifts: {
+    name: 'Максимум смен подряд',
+    description: 'Максимальное количество смен подряд для сотрудника',
+    generatorHint: 'incremental',
+    scoreScope: 'employee',
+    defaultWeight: 3,
+    placeholders: EMPLOYEE_DAY_LIMIT,
+    config: {
+      max_days: { type: 'number', required: true, min: 1, label: 'Максимально дней подряд', input: 'number', default: 6 }
+    }
+  },
+  min_employees_per_shift: {
+    name: 'Минимум сотрудников на смене',
+    description: 'Минимальное количество сотрудников для каждой смены',
+    generatorHint: 'coverage',
+    scoreScope: 'day',
+    defaultWeight: 5,
+    placeholders: SHIFT_DAY_LIMIT,
+    config: {
+      min: { type: 'number', required: true, min: 0, label: 'Минимум сотрудников', input: 'number', default: 2 },
+      min_count: { type: 'number', min: 0, label: 'Минимум (устаревшее поле)', input: 'number' }
+    }
+  },
+  max_employees_per_shift: {
+    name: 'Максимум сотрудников на смене',
+    description: 'Максимальное количество сотрудников для каждой смены',
+    generatorHint: 'incremental',
+    scoreScope: 'day',
+    defaultWeight: 2,
+    placeholders: SHIFT_DAY_LIMIT,
+    config: {
+      max: { type: 'number', required: true, min: 0, label: 'Максимум сотрудников', input: 'number', default: 5 },
+      max_count: { type: 'number', min: 0, label: 'Максимум (устаревшее поле)', input: 'number' }
+    }
+  },
+  max_employees_per_shift_type: {
+    name: 'Максимум сотрудников в конкретной смене',
+    description: 'Максимальное количество сотрудников в выбранной смене за день',
+    generatorHint: 'incremental',
+    scoreScope: 'day',
+    defaultWeight: 2,
+    placeholders: SHIFT_DAY_LIMIT,
+    config: {
+      shift_id: { type: 'string', required: true, label: 'ID смены', input: 'text', default: '' },
+      max: { type: 'number', required: true, min: 0, label: 'Максимум сотрудников', input: 'number', default: 3 }
+    }
+  },
+  required_coverage: {
+    name: 'Обязательное покрытие дня',
+    description: 'Минимальное количество сотрудников, работающих в каждый рабочий день',
+    generatorHint: 'coverage',
+    scoreScope: 'day',
+    defaultWeight: 5,
+    placeholders: DAY_LIMIT,
+    config: {
+      min_employees: { type: 'number', required: true, min: 0, label: 'Минимум сотрудников в день', input: 'number', default: 2 }
+    }
+  },
+  manager_requirements: {
+    name: 'Руководители в смене',
+    description: 'Минимальное количество руководителей в каждой укомплектованной смене',
+    generatorHint: 'coverage',
+    scoreScope: 'day',
+    defaultWeight: 9,
+    placeholders: SHIFT_DAY_LIMIT,
+    config: {
+      min_managers: { type: 'number', required: true, min: 0, label: 'Минимум руководителей', input: 'number', default: 1 }
+    }
+  },
+  max_total_hours: {
+    name: 'Максимум часов всех сотрудников',
+    description: 'Суммарный лимит рабочих часов всех сотрудников за месяц',
+    generatorHint: 'incremental',
+    scoreScope: 'month',
+    defaultWeight: 2,
+    placeholders: ['actual', 'limit'],
+    config: {
+      max_hours: { type: 'number', required: true, min: 0, label: 'Максимум часов в месяц', input: 'number', default: 1000 }
+    }
+  },
+  max_hours_without_managers: {
+    name: 'Часы без руководителя',
+    description: 'Максимальное количество часов в день, когда на работе нет руководителя',
+    generatorHint: 'final',
+    scoreScope: 'day',
+    defaultWeight: 3,
+    placeholders: DAY_LIMIT,
+    config: {
+      max_hours: { type: 'number', required: true, min: 0, label: 'Максимум часов в день', input: 'number', default: 4 }
+    }
+  },
+  employee_hours_limit: {
+    name: 'Лимит часов сотрудника',
+    description: 'Принудительное ограничение часов за месяц для конкретных сотрудников',
+    generatorHint: 'final',
+    scoreScope: 'employee',
+    defaultWeight: 2,
+    placeholders: EMPLOYEE_LIMIT,
+    config: {
+      min_hours: { type: 'number', min: 0, label: 'Минимум часов', input: 'number', default: 0 },
+      max_hours: { type: 'number', required: true, min: 0, label: 'Максимум часов', input: 'number', default: 176 },
+      enforcement: {
+        type: 'string',
+        label: 'Режим',
+        input: 'select',
+        default: 'exact',
+        options: [
+          { value: 'exact', label: 'Минимум и максимум' },
+          { value: 'max_only', label: 'Только максимум' }
+        ]
+      },
+      use_norm_hours: {
+        type: 'boolean',
+        label: 'Максимум = норма часов по договору',
+        input: 'checkbox',
+        default: false,
+        hint: 'Целевые часы из договора сотрудника или норма производственного календаря × ставка'
+      }
+    }
+  },
+  recommended_work_days: {
+    name: 'Рекомендуемый максимум дней подряд',
+    description: 'Рекомендуемое максимальное количество рабочих дней подряд',
+    generatorHint: 'incremental',
+    scoreScope: 'employee',
+    defaultWeight: 0.3,
+    placeholders: EMPLOYEE_DAY_LIMIT,
+    config: {
+      max_consecutive_days: { type: 'number', required: true, min: 1, label: 'Дней подряд', input: 'number', default: 6 },
+      type: { type: 'string', label: 'Тип', input: 'text', default: 'recommended' }
+    }
+  },
+  required_work_days: {
+    name: 'Обязательные рабочие дни',
+    description: 'Дни недели, в которые сотрудник обязательно работает',
+    generatorHint: 'final',
+    scoreScope: 'employee',
+    defaultWeight: 1,
+    placeholders: ['employee', 'day', 'date'],
+    config: {
+      days_of_week: { type: 'array', required: true, label: 'Дни недели', input: 'weekdays', default: [], hint: WEEKDAYS_HINT },
+      applies_to: {
+        type: 'string',
+        label: 'Применяется к',
+        input: 'select',
+        default: 'role',
+        options: [
+          { value: 'role', label: 'Должностям' },
+          { value: 'employee', label: 'Сотрудникам' }
+        ]
+      }
+    }
+  },
+  coverage_by_time: {
+    name: 'Покрытие по времени',
+    description: 'Обязательное покрытие часов определенным количеством сотрудников',
+    generatorHint: 'coverage',
+    scoreScope: 'day',
+    defaultWeight: 5,
+    placeholders: DAY_LIMIT,
+    config: {
+      time_ranges: {
+        type: 'array',
+        required: true,
+        label: 'Интервалы времени',
+        input: 'json',
+        default: [],
+        hint: '[{"start": "10:00", "end": "14:00"}]'
+      },
+      min_employees: { type: 'number', required: true, min: 0, label: 'Минимум сотрудников', input: 'number', default: 1 },
+      applies_to_weekdays: { type: 'boolean', label: 'По будням', input: 'checkbox', default: true },
+      applies_to_weekends: { type: 'boolean', label: 'По выходным', input: 'checkbox', default: false }
+    }
+  },
+  coverage_by_day: {
+    name: 'Покрытие по дням',
+    description: 'Обязательное покрытие конкретных дней определенным количеством сотрудников',
+    generatorHint: 'coverage',
+    scoreScope: 'day',
+    defaultWeight: 5,
+    placeholders: DAY_LIMIT,
+    config: {
+      specific_days: {
+        type: 'array',
+        required: true,
+        label: 'Дни месяца или даты',
+        input: 'list',
+        default: [],
+        hint: 'Через запятую: 1, 15 или 2026-12-31'
+      },
+      min_employees: { type: 'number', required: true, min: 0, label: 'Минимум сотрудников', input: 'number', default: 1 },
+      day_type: {
+        type: 'string',
+        label: 'Какие дни',
+        input: 'select',
+        default: 'specific',
+        options: [
+          { value: 'specific', label: 'Указанные дни' },
+          { value: 'weekdays', label: 'Будни' },
+          { value: 'weekends', label: 'Выходные' }
+        ]
+      }
+    }
+  },
+  shift_type_limit_per_day: {
+    name: 'Лимит людей по сменам',
+    description: 'Максимальное количество людей в конкретной смене в день',
+    generatorHint: 'incremental',
+    scoreScope: 'day',
+    defaultWeight: 2,
+    placeholders: SHIFT_DAY_LIMIT,
+    config: {
+      shift_limits: {
+        type: 'object',
+        required: true,
+        label: 'Лимиты по сменам',
+        input: 'json',
+        default: {},
+        hint: '{"ID смены": максимум}'
+      }
+    }
+  },
+  max_consecutive_work_days: {
+    name: 'Максимум рабочих дней подряд',
+    description: 'Максимальное количество рабочих дней подряд для сотрудника',
+    generatorHint: 'incremental',
+    scoreScope: 'employee',
+    defaultWeight: 3,
+    placeholders: EMPLOYEE_DAY_LIMIT,
+    config: {
+      max_days: { type: 'number', required: true, min: 1, label: 'Максимально дней подряд', input: 'number', default: 5 }
+    }
+  },
+  max_consecutive_days_off: {
+    name: 'Максимум выходных подряд',
+    description: 'Максимальное количество выходных дней подряд',
+    generatorHint: 'final',
+    scoreScope: 'employee',
+    defaultWeight: 0.5,
+    placeholders: ['employee', 'day', 'date', 'limit'],
+    config: {
+      max_days: { type: 'number', required: true, min: 1, label: 'Максимально выходных подряд', input: 'number', default: 3 }
+    }
+  },
+  employee_day_off: {
+    name: 'Постоянные выходные',
+    description: 'Даты или дни недели, в которые сотруднику не назначаются смены',
+    generatorHint: 'day_off',
+    scoreScope: 'employee',
+    defaultWeight: 5,
+    placeholders: ['employee', 'day', 'date', 'shift'],
+    config: {
+      dates: { type: 'array', label: 'Даты', input: 'list', default: [], hint: 'Через запятую: 2026-12-31' },
+      days_of_week: { type: 'array', label: 'Дни недели', input: 'weekdays', default: [], hint: WEEKDAYS_HINT }
+    }
+  },
+  approved_day_off_requests: {
+    name: 'Утвержденные выходные',
+    description: 'Соблюдение утвержденных запросов на выходные',
+    generatorHint: 'day_off',
+    scoreScope: 'employee',
+    defaultWeight: 8,
+    placeholders: ['employee', 'day', 'date'],
+    config: {
+      enforcement_type: { type: 'string', label: 'Тип применения', input: 'text' }
+    }
+  },
+  min_rest_between_shifts: {
+    name: 'Минимальный отдых между сменами',
+    description: 'Минимальное количество часов отдыха между сменами',
+    generatorHint: 'incremental',
+    scoreScope: 'employee',
+    defaultWeight: 5,
+    placeholders: EMPLOYEE_DAY_LIMIT,
+    config: {
+      hours: { type: 'number', required: true, min: 0, label: 'Часов отдыха', input: 'number', default: 12 }
+    }
+  },
+  required_roles_per_shift: {
+    name: 'Обязательные роли в смене',
+    description: 'Требует наличие определенных ролей в смене',
+    generatorHint: 'coverage',
+    scoreScope: 'day',
+    defaultWeight: 8,
+    placeholders: SHIFT_DAY_LIMIT,
+    config: {
+      role: { type: 'string', required: true, label: 'Роль', input: 'text', default: '' },
+      min_count: { type: 'number', min: 1, label: 'Минимум сотрудников с ролью', input: 'number', default: 1 }
+    }
+  },
+  max_shifts_per_week: {
+    name: 'Максимум смен в неделю',
+    description: 'Максимальное количество смен в неделю для сотрудника',
+    generatorHint: 'incremental',
+    scoreScope: 'employee',
+    defaultWeight: 2,
+    placeholders: EMPLOYEE_LIMIT,
+    config: {
+      max: { type: 'number', required: true, min: 1, label: 'Максимум смен в неделю', input: 'number', default: 5 }
+    }
+  },
+  max_hours_per_week: {
+    name: 'Максимум часов в неделю',
+    description: 'Максимальное количество рабочих часов в неделю; договор сотрудника может сузить границы',
+    generatorHint: 'incremental',
+    scoreScope: 'employee',
+    defaultWeight: 3,
+    placeholders: EMPLOYEE_LIMIT,
+    config: {
+      max_hours: { type: 'number', required: true, min: 0, label: 'Максимум часов в неделю', input: 'number', default: 40 }
+    }
+  },
+  max_hours_per_month: {
+    name: 'Максимум часов в месяц',
+    description: 'Максимальное количество рабочих часов в месяц',
+    generatorHint: 'incremental',
+    scoreScope: 'employee',
+    defaultWeight: 2,
+    placeholders: EMPLOYEE_LIMIT,
+    config: {
+      max_hours: { type: 'number', required: true, min: 0, label: 'Максимум часов в месяц', input: 'number', default: 160 },
+      use_norm_hours: {
+        type: 'boolean',
+        label: 'Максимум = норма часов по договору',
+        input: 'checkbox',
+        default: false,
+        hint: 'Целевые часы из договора сотрудника или норма производственного календаря × ставка'
+      }
+    }
+  }
+};
+
+export const isValidationRuleType = (value: unknown): value is ValidationRuleType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ruleRegistry, value);
+
+/**
+ * Типы правил с указанной подсказкой для генератора
+ */
+export const getRuleTypesByHint = (hint: RuleGeneratorHint): ValidationRuleType[] =>
+  (Object.keys(ruleRegistry) as ValidationRuleType[]).filter(type => ruleRegistry[type].generatorHint === hint);
+
+// Допустимый диапазон веса: weight_factor в rule_priorities хранится как DECIMAL(3,2)
+export const MIN_RULE_WEIGHT = 0.01;
+export const MAX_RULE_WEIGHT = 9.99;
+
+/**
+ * Config по умолчанию для нового правила
+ */
+export const getDefaultRuleConfig = (ruleType: ValidationRuleType): Record<string, unknown> => {
+  const config: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(ruleRegistry[ruleType].config)) {
+    if (field.default !== undefined) {
+      config[key] = field.default;
+    }
+  }
+  return config;
+};
+
+/**
+ * Подставить значения в шаблон сообщения: {employee}, {day}, ...
+ * Неизвестные подстановки остаются как есть, отсутствующие значения заменяются пустой строкой
+ */
+export const renderMessageTemplate = (
+  template: string,
+  values: Partial<Record<MessagePlaceholder, string | number>>
+): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (!Object.prototype.hasOwnProperty.call(MESSAGE_PLACEHOLDERS, key)) return match;
+    const value = values[key as MessagePlaceholder];
+    return value === undefined ? '' : String(value);
+  });
+
+/**
+ * Найти в шаблоне подстановки, которых нет в MESSAGE_PLACEHOLDERS
+ */
+export const findUnknownPlaceholders = (template: string): string[] =>
+  [...template.matchAll(/\{(\w+)\}/g)]
+    .map(match => match[1])
+    .filter(key => !Object.prototype.hasOwnProperty.call(MESSAGE_PLACEHOLDERS, key));
+
+const matchesType = (value: unknown, type: ConfigFieldType): boolean => {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+/**
+ * Проверить config правила по схеме его типа
+ * Возвращает список ошибок (пустой, если config корректен)
+ */
+export const validateRuleConfig = (ruleType: ValidationRuleType, config: unknown): string[] => {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return ['config must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  const values = config as Record<string, unknown>;
+  const schema = ruleRegistry[ruleType].config;
+
+  for (const [key, field] of Object.entries(schema)) {
+    const value = values[key];
+
+    if (value === undefined || value === null) {
+      if (field.required) {
+        errors.push(`config.${key} is required for ${ruleType}`);
+      }
+      continue;
+    }
+
+    if (!matchesType(value, field.type)) {
+      errors.push(`config.${key} must be of type ${field.type}`);
+      continue;
+    }
+
+    if (field.type === 'number' && field.min !== undefined && (value as number) < field.min) {
+      errors.push(`config.${key} must be >= ${field.min}`);
+    }
+  }
+
+  return errors;
+};
@@ -1,44 +1,19 @@
-import pool from '../config/database';
-import { ScheduleEntry, ValidationRule } from '../models/types';
+import { ScheduleEntry } from '../models/types';
+import { AutoScheduler, ValidationResult } from './autoScheduler';
 
 /**
  * Schedule validation service
- * Placeholder implementation - will be replaced by full AutoSched validation
+ * Uses the same rule engine as AutoScheduler, so results match /api/auto-schedule/validate
  */
 
-export interface ValidationResult {
-  isValid: boolean;
-  violations: Array<{
-    ruleType: string;
-    severity: 'error' | 'warning';
-    message: string;
-    employeeId?: string;
-    day?: number;
-  }>;
-}
+export type { ValidationResult };
 
 export const validateSchedule = async (options: {
   month: number;
   year: number;
 }): Promise<ValidationResult> => {
-  try {
-    // For now, return a simple validation result
-    // In the full implementation, this would use the AutoScheduler validation
-    return {
-      isValid: true,
-      violations: []
-    };
-  } catch (error) {
-    console.error('Error validating schedule:', error);
-    return {
-      isValid: false,
-      violations: [{
-        ruleType: 'validation_error',
-        severity: 'error',
-        message: 'Failed to validate schedule'
-      }]
-    };
-  }
+  const scheduler = new AutoScheduler();
+  return scheduler.validateSchedule(options);
 };
 
 // Export other validation functions as needed
@@ -53,4 +28,4 @@ export const validateEntry = async (entry: ScheduleEntry): Promise<boolean> => {
   }
 
   return true;
-};
\ No newline at end of file
+};
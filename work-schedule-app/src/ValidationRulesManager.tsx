@@ -1,6 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { Trash2, Edit2, Save, X, AlertCircle, CheckCircle, Settings } from 'lucide-react';
-import { ValidationRule, ValidationRuleType } from './types';
+import {
+  Employee,
+  MessagePlaceholder,
+  Role,
+  RuleConfigField,
+  RuleGeneratorHint,
+  RuleTypeDefinition,
+  ValidationRule,
+  ValidationRuleType
+} from './types';
+import { employeeApi, roleApi } from './services/api';
 
 interface ValidationRulesManagerProps {
   isOpen: boolean;
@@ -8,147 +18,68 @@ interface ValidationRulesManagerProps {
   onRulesChange?: (rules: ValidationRule[]) => void;
 }
 
-interface RuleTemplate {
-  type: ValidationRuleType;
-  name: string;
-  description: string;
-  defaultConfig: Record<string, any>;
-  parameterFields: Array<{
-    name: string;
-    label: string;
-    type: 'number' | 'text' | 'select';
-    defaultValue?: any;
-    options?: Array<{ value: any; label: string }>;
-  }>;
-}
+const GENERATOR_HINT_LABELS: Record<RuleGeneratorHint, string> = {
+  incremental: 'Проверяется при каждом назначении',
+  coverage: 'Генератор планирует под него позиции',
+  day_off: 'Генератор не назначает смены в эти дни',
+  final: 'Учитывается при оптимизации готового графика'
+};
 
-const ruleTemplates: RuleTemplate[] = [
-  {
-    type: 'min_employees_per_shift',
-    name: 'Минимум сотрудников на смене',
-    description: 'Минимальное количество сотрудников для каждой смены',
-    defaultConfig: { min: 2 },
-    parameterFields: [
-      {
-        name: 'min',
-        label: 'Минимум сотрудников',
-        type: 'number',
-        defaultValue: 2
-      }
-    ]
-  },
-  {
-    type: 'max_employees_per_shift',
-    name: 'Максимум сотрудников на смене',
-    description: 'Максимальное количество сотрудников для каждой смены',
-    defaultConfig: { max: 5 },
-    parameterFields: [
-      {
-        name: 'max',
-        label: 'Максимум сотрудников',
-        type: 'number',
-        defaultValue: 5
-      }
-    ]
-  },
-  {
-    type: 'max_consecutive_work_days',
-    name: 'Максимум рабочих дней подряд',
-    description: 'Максимальное количество рабочих дней подряд для сотрудника',
-    defaultConfig: { max_days: 5 },
-    parameterFields: [
-      {
-        name: 'max_days',
-        label: 'Максимально дней подряд',
-        type: 'number',
-        defaultValue: 5
-      }
-    ]
-  },
-  {
-    type: 'max_hours_per_week',
-    name: 'Максимум часов в неделю',
-    description: 'Максимальное количество рабочих часов в неделю',
-    defaultConfig: { max_hours: 40 },
-    parameterFields: [
-      {
-        name: 'max_hours',
-        label: 'Максимум часов в неделю',
-        type: 'number',
-        defaultValue: 40
-      }
-    ]
-  },
-  {
-    type: 'max_hours_per_month',
-    name: 'Максимум часов в месяц',
-    description: 'Максимальное количество рабочих часов в месяц',
-    defaultConfig: { max_hours: 160 },
-    parameterFields: [
-      {
-        name: 'max_hours',
-        label: 'Максимум часов в месяц',
-        type: 'number',
-        defaultValue: 160
-      }
-    ]
-  },
-  {
-    type: 'max_shifts_per_week',
-    name: 'Максимум смен в неделю',
-    description: 'Максимальное количество смен в неделю для сотрудника',
-    defaultConfig: { max: 5 },
-    parameterFields: [
-      {
-        name: 'max',
-        label: 'Максимум смен в неделю',
-        type: 'number',
-        defaultValue: 5
-      }
-    ]
-  },
-  {
-    type: 'min_rest_between_shifts',
-    name: 'Минимальный отдых между сменами',
-    description: 'Минимальное количество часов отдыха между сменами',
-    defaultConfig: { hours: 12 },
-    parameterFields: [
-      {
-        name: 'hours',
-        label: 'Часов отдыха',
-        type: 'number',
-        defaultValue: 12
-      }
-    ]
-  },
-  {
-    type: 'required_roles_per_shift',
-    name: 'Обязательные роли в смене',
-    description: 'Требует наличие определенных ролей в смене',
-    defaultConfig: { role: '', min_count: 1 },
-    parameterFields: [
-      {
-        name: 'role',
-        label: 'Роль',
-        type: 'text',
-        defaultValue: ''
-      },
-      {
-        name: 'min_count',
-        label: 'Минимум сотрудников с ролью',
-        type: 'number',
-        defaultValue: 1
-      }
-    ]
-  },
-  {
-    type: 'approved_day_off_requests',
-    name: 'Утвержденные выходные',
-    description: 'Соблюдение утвержденных запросов на выходные',
-    defaultConfig: {},
-    parameterFields: []
+const WEEKDAY_LABELS = ['Вс', 'Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб'];
+
+// Примерные значения для предпросмотра сообщения о нарушении
+const MESSAGE_PREVIEW_VALUES: Record<MessagePlaceholder, string> = {
+  employee: 'Иванов И.',
+  day: '12',
+  date: '12.03.2026',
+  shift: 'Утренняя',
+  actual: '6',
+  limit: '5'
+};
+
+// Та же подстановка, что и на сервере: неизвестные ключи остаются как есть,
+// подстановки, которые тип правила не заполняет, становятся пустыми
+const renderMessagePreview = (template: string, definition?: RuleTypeDefinition | null): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (!(key in MESSAGE_PREVIEW_VALUES)) return match;
+    const filled = definition?.placeholders.some(p => p.name === key);
+    return filled ? MESSAGE_PREVIEW_VALUES[key as MessagePlaceholder] : '';
+  });
+
+const getDefaultConfig = (definition: RuleTypeDefinition): Record<string, unknown> => {
+  const config: Record<string, unknown> = {};
+  for (const field of definition.fields) {
+    if (field.default !== undefined) {
+      config[field.name] = field.default;
+    }
   }
-];
+  return config;
+};
+
+// Поле config в формате JSON: текст хранится локально, наружу уходит только валидный JSON
+const JsonConfigInput: React.FC<{ value: unknown; onChange: (value: unknown) => void }> = ({ value, onChange }) => {
+  const [text, setText] = useState(() => JSON.stringify(value ?? null, null, 2));
+  const [isValid, setIsValid] = useState(true);
+
+  return (
+    <textarea
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        try {
+          onChange(JSON.parse(e.target.value));
+          setIsValid(true);
+        } catch {
+          setIsValid(false);
+        }
+      }}
+      rows={3}
+      className={`w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-mono text-sm ${
+        isValid ? 'border-gray-300 dark:border-gray-600' : 'border-red-500'
+      }`}
+    />
+  );
+};
 
 const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
   isOpen,
@@ -156,10 +87,13 @@ const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
   onRulesChange
 }) => {
   const [rules, setRules] = useState<ValidationRule[]>([]);
+  const [ruleTypes, setRuleTypes] = useState<RuleTypeDefinition[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingRule, setEditingRule] = useState<ValidationRule | null>(null);
   const [isCreating, setIsCreating] = useState(false);
-  const [newRuleTemplate, setNewRuleTemplate] = useState<RuleTemplate | null>(null);
+  const [newRuleTemplate, setNewRuleTemplate] = useState<RuleTypeDefinition | null>(null);
   const [newRule, setNewRule] = useState<Partial<ValidationRule>>({
     ruleType: 'max_consecutive_work_days',
     enabled: true,
@@ -177,9 +111,18 @@ const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
 
   const loadRules = async () => {
     try {
-      const response = await fetch('/api/validation-rules');
-      const data = await response.json();
-      setRules(data.rules || []);
+      const [rulesResponse, typesResponse, rolesData, employeesData] = await Promise.all([
+        fetch('/api/validation-rules'),
+        fetch('/api/validation-rules/types'),
+        roleApi.getAll(),
+        employeeApi.getAll()
+      ]);
+      const rulesData = await rulesResponse.json();
+      const typesData = await typesResponse.json();
+      setRules(rulesData.rules || []);
+      setRuleTypes(typesData.types || []);
+      setRoles(rolesData);
+      setEmployees(employeesData);
     } catch (error) {
       console.error('Error loading validation rules:', error);
     } finally {
@@ -254,21 +197,23 @@ const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
     }
   };
 
-  const startCreatingRule = (template: RuleTemplate) => {
+  const startCreatingRule = (template: RuleTypeDefinition) => {
     setNewRuleTemplate(template);
     setNewRule({
       ruleType: template.type,
       enabled: true,
-      config: template.defaultConfig,
+      config: getDefaultConfig(template),
       enforcementType: 'warning',
       priority: 5,
-      description: template.description
+      description: template.description,
+      appliesToRoles: [],
+      appliesToEmployees: []
     });
     setIsCreating(true);
     setEditingRule(null);
   };
 
-  const updateRuleConfig = (key: string, value: any) => {
+  const updateRuleConfig = (key: string, value: unknown) => {
     if (isCreating && newRule) {
       setNewRule({
         ...newRule,
@@ -282,11 +227,143 @@ const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
     }
   };
 
+  // Пустой список ролей и сотрудников = правило применяется ко всем
+  const toggleRuleScope = <K extends 'appliesToRoles' | 'appliesToEmployees'>(
+    key: K,
+    value: NonNullable<ValidationRule[K]>[number]
+  ) => {
+    const toggle = <T,>(list: T[] | undefined, item: T) =>
+      (list || []).includes(item) ? (list || []).filter(x => x !== item) : [...(list || []), item];
+
+    if (isCreating) {
+      setNewRule({ ...newRule, [key]: toggle(newRule[key] as unknown[], value) });
+    } else if (editingRule) {
+      setEditingRule({ ...editingRule, [key]: toggle(editingRule[key] as unknown[], value) });
+    }
+  };
+
+  const setCustomMessage = (customMessage: string) => {
+    if (isCreating) {
+      setNewRule({ ...newRule, customMessage });
+    } else if (editingRule) {
+      setEditingRule({ ...editingRule, customMessage });
+    }
+  };
+
+  // Тип правила, открытого в форме создания/редактирования
+  const getFormRuleType = () =>
+    isCreating ? newRuleTemplate : ruleTypes.find(t => t.type === editingRule?.ruleType);
+
+  const getRuleScopeLabel = (rule: ValidationRule) => {
+    const parts = [
+      ...(rule.appliesToRoles || []).map(id => roles.find(r => r.id === id)?.name || `#${id}`),
+      ...(rule.appliesToEmployees || []).map(id => employees.find(e => e.id === id)?.name || id)
+    ];
+    return parts.length > 0 ? parts.join(', ') : 'Все сотрудники';
+  };
+
   const getTemplateName = (ruleType: ValidationRuleType) => {
-    const template = ruleTemplates.find(t => t.type === ruleType);
+    const template = ruleTypes.find(t => t.type === ruleType);
     return template ? template.name : ruleType;
   };
 
+  const renderConfigField = (field: RuleConfigField) => {
+    const config = (isCreating ? newRule.config : editingRule?.config) || {};
+    const value = config[field.name] ?? field.default;
+    const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+    switch (field.input) {
+      case 'number':
+        return (
+          <input
+            type="number"
+            min={field.min}
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) => updateRuleConfig(field.name, parseInt(e.target.value))}
+            className={inputClassName}
+          />
+        );
+      case 'select':
+        return (
+          <select
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => updateRuleConfig(field.name, e.target.value)}
+            className={inputClassName}
+          >
+            {field.options?.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+      case 'checkbox':
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => updateRuleConfig(field.name, e.target.checked)}
+            className="w-4 h-4"
+          />
+        );
+      case 'weekdays': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, dayOfWeek) => (
+              <label key={dayOfWeek} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(dayOfWeek)}
+                  onChange={(e) => updateRuleConfig(
+                    field.name,
+                    e.target.checked
+                      ? [...selected, dayOfWeek].sort()
+                      : selected.filter(d => d !== dayOfWeek)
+                  )}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'list':
+        return (
+          <input
+            type="text"
+            value={Array.isArray(value) ? value.join(', ') : ''}
+            onChange={(e) => updateRuleConfig(
+              field.name,
+              e.target.value
+                .split(',')
+                .map(item => item.trim())
+                .filter(item => item !== '')
+                .map(item => (/^\d+$/.test(item) ? Number(item) : item))
+            )}
+            className={inputClassName}
+          />
+        );
+      case 'json':
+        return (
+          <JsonConfigInput
+            key={`${editingRule?.id ?? 'new'}-${field.name}`}
+            value={value}
+            onChange={(parsed) => updateRuleConfig(field.name, parsed)}
+          />
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => updateRuleConfig(field.name, e.target.value)}
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
   const getRuleIcon = (enforcementType: string) => {
     return enforcementType === 'error' ?
       <AlertCircle className="w-4 h-4 text-red-500" /> :
@@ -323,7 +400,7 @@ const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
                   Добавить новое правило
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-                  {ruleTemplates.map((template) => (
+                  {ruleTypes.map((template) => (
                     <button
                       key={template.type}
                       onClick={() => startCreatingRule(template)}
@@ -335,6 +412,9 @@ const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
                       <p className="text-sm text-gray-600 dark:text-gray-400">
                         {template.description}
                       </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                        {GENERATOR_HINT_LABELS[template.generatorHint]}
+                      </p>
                     </button>
                   ))}
                 </div>
@@ -418,42 +498,136 @@ const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Вес нарушения
+                    </label>
+                    <input
+                      type="number"
+                      min="0.01"
+                      max="9.99"
+                      step="0.1"
+                      value={(isCreating ? newRule.weightFactor : editingRule?.weightFactor) ?? ''}
+                      placeholder={`По умолчанию ${getFormRuleType()?.defaultWeight ?? 1}`}
+                      onChange={(e) => {
+                        // Пустое поле — вес типа правила по умолчанию
+                        const weightFactor = e.target.value === '' ? null : parseFloat(e.target.value);
+                        if (isCreating) {
+                          setNewRule({ ...newRule, weightFactor });
+                        } else if (editingRule) {
+                          setEditingRule({ ...editingRule, weightFactor });
+                        }
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Во сколько раз нарушение этого правила снижает оценку графика сильнее базового штрафа
+                    </p>
+                  </div>
+                </div>
+
+                {/* Scope */}
+                <div className="mt-4 space-y-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Должности <span className="font-normal text-gray-500">(не выбраны — все)</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {roles.map(role => {
+                        const selected = ((isCreating ? newRule.appliesToRoles : editingRule?.appliesToRoles) || []).includes(role.id);
+                        return (
+                          <button
+                            key={role.id}
+                            type="button"
+                            onClick={() => toggleRuleScope('appliesToRoles', role.id)}
+                            className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                              selected
+                                ? 'bg-blue-600 text-white border-blue-600'
+                                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                            }`}
+                          >
+                            {role.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Сотрудники <span className="font-normal text-gray-500">(не выбраны — все)</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {employees.map(employee => {
+                        const selected = ((isCreating ? newRule.appliesToEmployees : editingRule?.appliesToEmployees) || []).includes(employee.id);
+                        return (
+                          <button
+                            key={employee.id}
+                            type="button"
+                            onClick={() => toggleRuleScope('appliesToEmployees', employee.id)}
+                            className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                              selected
+                                ? 'bg-blue-600 text-white border-blue-600'
+                                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                            }`}
+                          >
+                            {employee.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
+
+                {/* Custom message */}
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Сообщение о нарушении <span className="font-normal text-gray-500">(пусто — стандартное)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={(isCreating ? newRule.customMessage : editingRule?.customMessage) || ''}
+                    onChange={(e) => setCustomMessage(e.target.value)}
+                    placeholder="{employee} работает {actual} дней подряд, максимум {limit}"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {getFormRuleType()?.placeholders.map(placeholder => (
+                      <button
+                        key={placeholder.name}
+                        type="button"
+                        title={placeholder.label}
+                        onClick={() => setCustomMessage(
+                          `${(isCreating ? newRule.customMessage : editingRule?.customMessage) || ''}{${placeholder.name}}`
+                        )}
+                        className="px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 text-xs font-mono text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600"
+                      >
+                        {`{${placeholder.name}}`}
+                      </button>
+                    ))}
+                  </div>
+                  {(isCreating ? newRule.customMessage : editingRule?.customMessage) && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                      Пример: {renderMessagePreview(
+                        (isCreating ? newRule.customMessage : editingRule?.customMessage) || '',
+                        getFormRuleType()
+                      )}
+                    </p>
+                  )}
                 </div>
 
                 {/* Parameters */}
-                {(isCreating ? newRuleTemplate : ruleTemplates.find(t => t.type === editingRule?.ruleType))?.parameterFields && (
+                {(isCreating ? newRuleTemplate : ruleTypes.find(t => t.type === editingRule?.ruleType))?.fields && (
                   <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {(isCreating ? newRuleTemplate : ruleTemplates.find(t => t.type === editingRule?.ruleType))?.parameterFields.map((field) => (
+                    {(isCreating ? newRuleTemplate : ruleTypes.find(t => t.type === editingRule?.ruleType))?.fields.map((field) => (
                       <div key={field.name}>
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                          {field.label}
+                          {field.label}{field.required && ' *'}
                         </label>
-                        {field.type === 'number' ? (
-                          <input
-                            type="number"
-                            value={(isCreating ? (newRule.config || {}) : (editingRule?.config || {}))[field.name] || field.defaultValue || ''}
-                            onChange={(e) => updateRuleConfig(field.name, parseInt(e.target.value))}
-                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                          />
-                        ) : field.type === 'select' ? (
-                          <select
-                            value={(isCreating ? (newRule.config || {}) : (editingRule?.config || {}))[field.name] || field.defaultValue || ''}
-                            onChange={(e) => updateRuleConfig(field.name, e.target.value)}
-                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                          >
-                            {field.options?.map((option) => (
-                              <option key={option.value} value={option.value}>
-                                {option.label}
-                              </option>
-                            ))}
-                          </select>
-                        ) : (
-                          <input
-                            type="text"
-                            value={(isCreating ? (newRule.config || {}) : (editingRule?.config || {}))[field.name] || field.defaultValue || ''}
-                            onChange={(e) => updateRuleConfig(field.name, e.target.value)}
-                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                          />
+                        {renderConfigField(field)}
+                        {field.hint && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{field.hint}</p>
                         )}
                       </div>
                     ))}
@@ -471,9 +645,11 @@ const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
                           config: newRule.config,
                           enforcementType: newRule.enforcementType as 'error' | 'warning',
                           priority: newRule.priority || 5,
+                          weightFactor: newRule.weightFactor ?? undefined,
                           description: newRule.description || '',
-                          appliesToRoles: [],
-                          appliesToEmployees: []
+                          appliesToRoles: newRule.appliesToRoles || [],
+                          appliesToEmployees: newRule.appliesToEmployees || [],
+                          customMessage: newRule.customMessage || ''
                         });
                       } else if (editingRule) {
                         saveRule(editingRule);
@@ -529,6 +705,12 @@ const ValidationRulesManager: React.FC<ValidationRulesManagerProps> = ({
                               <span className="text-xs text-gray-500">
                                 Приоритет: {rule.priority}
                               </span>
+                              <span className="text-xs text-gray-500">
+                                Вес: {rule.weightFactor ?? `${ruleTypes.find(t => t.type === rule.ruleType)?.defaultWeight ?? 1} (по умолчанию)`}
+                              </span>
+                              <span className="text-xs text-gray-500">
+                                Применяется к: {getRuleScopeLabel(rule)}
+                              </span>
                               <span className="text-xs text-gray-500">
                                 Тип: {rule.enforcementType === 'error' ? 'Ошибка' : 'Предупреждение'}
                               </span>
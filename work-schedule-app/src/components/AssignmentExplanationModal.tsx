@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { X, HelpCircle } from 'lucide-react';
+import { Employee, Shift } from '../types';
+import { autoScheduleApi, AssignmentExplanation, AssignmentExplanations, ScoreBreakdown } from '../services/api';
+
+const SOURCE_LABELS: Record<AssignmentExplanation['source'], string> = {
+  greedy: 'Жадный алгоритм',
+  constraint: 'Поиск с ограничениями',
+  optimizer: 'Оптимизация',
+};
+
+const SCORE_PARTS: Array<{ key: keyof Omit<ScoreBreakdown, 'total'>; label: string }> = [
+  { key: 'base', label: 'База' },
+  { key: 'preference', label: 'Пожелания' },
+  { key: 'balance', label: 'Баланс часов' },
+  { key: 'weeklyMinimum', label: 'Минимум недели' },
+  { key: 'fairness', label: 'Ротация ночей и выходных' },
+  { key: 'role', label: 'Роль' },
+  { key: 'consecutive', label: 'Дни подряд' },
+];
+
+interface AssignmentExplanationModalProps {
+  employeeId: string;
+  day: number;
+  month: number;
+  year: number;
+  employees: Employee[];
+  shifts: Shift[];
+  onClose: () => void;
+}
+
+export function AssignmentExplanationModal({
+  employeeId,
+  day,
+  month,
+  year,
+  employees,
+  shifts,
+  onClose
+}: AssignmentExplanationModalProps) {
+  const [data, setData] = useState<AssignmentExplanations | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    autoScheduleApi.getExplanations(month, year, day, employeeId)
+      .then(setData)
+      .catch(err => setError(err instanceof Error ? err.message : 'Не удалось загрузить объяснения'));
+  }, [employeeId, day, month, year]);
+
+  const getEmployeeName = (id: string) => employees.find(e => e.id === id)?.name || id;
+  const getShiftName = (id: string) => shifts.find(s => s.id === id)?.name || id;
+  const formatScore = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+  // Последнее решение, назначившее сотрудника, объясняет текущее состояние ячейки
+  const explanations = data?.explanations || [];
+  const assigned = [...explanations].reverse().find(e => e.employeeIds.includes(employeeId));
+  const others = explanations.filter(e => e !== assigned);
+  const dateLabel = new Date(year, month, day).toLocaleDateString('ru-RU', { day: 'numeric', month: 'long' });
+
+  const renderExplanation = (explanation: AssignmentExplanation, index: number) => (
+    <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="font-semibold text-gray-900 dark:text-gray-100">{getShiftName(explanation.shiftId)}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{SOURCE_LABELS[explanation.source]}</span>
+      </div>
+      {explanation.note && (
+        <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">{explanation.note}</p>
+      )}
+      {explanation.unfilled > 0 && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-2">
+          Не заполнено позиций: {explanation.unfilled}
+        </p>
+      )}
+      {explanation.candidates.length > 0 && (
+        <ul className="space-y-1">
+          {explanation.candidates.map(candidate => (
+            <li
+              key={candidate.employeeId}
+              className={`text-sm px-2 py-1 rounded ${
+                candidate.employeeId === employeeId ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className={`${candidate.selected ? 'font-semibold text-green-700 dark:text-green-400' : 'text-gray-800 dark:text-gray-200'}`}>
+                  {candidate.selected && '✓ '}{getEmployeeName(candidate.employeeId)}
+                </span>
+                {candidate.score ? (
+                  <span className="text-gray-700 dark:text-gray-300 font-medium">{candidate.score.total}</span>
+                ) : (
+                  <span className="text-xs text-gray-500 dark:text-gray-400 text-right">{candidate.rejection}</span>
+                )}
+              </div>
+              {candidate.score && candidate.employeeId === employeeId && (
+                <div className="mt-1 flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-gray-600 dark:text-gray-400">
+                  {SCORE_PARTS.filter(part => candidate.score![part.key] !== 0).map(part => (
+                    <span key={part.key}>
+                      {part.label}: {formatScore(candidate.score![part.key])}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-3 md:p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto m-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 md:p-6 border-b border-gray-200 dark:border-gray-700 sticky top-0 bg-white dark:bg-gray-800">
+          <div className="flex items-center gap-2 md:gap-3 flex-1 min-w-0">
+            <HelpCircle className="w-5 h-5 md:w-6 md:h-6 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+            <h2 className="text-lg md:text-xl font-bold text-gray-900 dark:text-gray-100 truncate">
+              {getEmployeeName(employeeId)}, {dateLabel}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-all duration-150 active:bg-gray-200 dark:active:bg-gray-600 active:scale-95 touch-manipulation min-w-[44px] min-h-[44px] flex items-center justify-center"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 md:p-6 space-y-3">
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          {!data && !error && <p className="text-sm text-gray-500 dark:text-gray-400">Загрузка...</p>}
+          {data && !data.generationId && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              График этого месяца не применялся из автогенерации, объяснений нет
+            </p>
+          )}
+          {data && data.generationId && explanations.length === 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Генерация #{data.generationId} не принимала решений по этой ячейке
+              (смена закреплена, вне области генерации или поставлена вручную)
+            </p>
+          )}
+          {assigned && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Назначение</h3>
+              {renderExplanation(assigned, -1)}
+            </div>
+          )}
+          {others.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                {assigned ? 'Другие смены дня' : 'Смены дня, где сотрудник был кандидатом'}
+              </h3>
+              <div className="space-y-2">{others.map(renderExplanation)}</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
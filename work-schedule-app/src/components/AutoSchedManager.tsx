@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Play,
   Settings,
@@ -11,9 +11,42 @@ import {
   Info,
   Zap,
   Target,
-  Users
+  Users,
+  XCircle,
+  RotateCcw,
+  Check,
+  Search
 } from 'lucide-react';
-import { autoScheduleApi, AutoScheduleGenerationOptions, AutoScheduleResult, RuleViolation, ScheduleMetrics, OptimizationSuggestion } from '../services/api';
+import {
+  autoScheduleApi,
+  AutoScheduleGenerationOptions,
+  AutoScheduleGenerationState,
+  AutoScheduleResult,
+  GenerationProgress,
+  InfeasibilityDiagnosis,
+  ObjectiveWeights,
+  RuleViolation,
+  ScheduleDraftDiff,
+  ScheduleMetrics,
+  OptimizationSuggestion
+} from '../services/api';
+import { ScoreTraceChart } from './ScoreTraceChart';
+
+const POLL_INTERVAL_MS = 1000;
+
+const OBJECTIVE_LABELS: Array<{ key: keyof ObjectiveWeights; label: string }> = [
+  { key: 'coverage', label: 'Покрытие' },
+  { key: 'fairness', label: 'Справедливость' },
+  { key: 'preferences', label: 'Пожелания' },
+  { key: 'cost', label: 'Затраты (часы)' }
+];
+
+const PHASE_LABELS: Record<GenerationProgress['phase'], string> = {
+  loading: 'Загрузка данных',
+  scheduling: 'Построение графика',
+  optimizing: 'Оптимизация',
+  validating: 'Проверка результата'
+};
 
 interface AutoSchedManagerProps {
   month: number;
@@ -21,6 +54,7 @@ interface AutoSchedManagerProps {
   employees: any[];
   shifts: any[];
   onScheduleGenerated: (result: AutoScheduleResult) => void;
+  onScheduleRestored?: () => void;
   onValidationComplete?: (violations: RuleViolation[], metrics: ScheduleMetrics) => void;
 }
 
@@ -30,6 +64,7 @@ export function AutoSchedManager({
   employees,
   shifts,
   onScheduleGenerated,
+  onScheduleRestored,
   onValidationComplete
 }: AutoSchedManagerProps) {
   const [isGenerating, setIsGenerating] = useState(false);
@@ -40,7 +75,27 @@ export function AutoSchedManager({
   const [currentViolations, setCurrentViolations] = useState<RuleViolation[]>([]);
   const [currentMetrics, setCurrentMetrics] = useState<ScheduleMetrics | null>(null);
   const [suggestions, setSuggestions] = useState<OptimizationSuggestion[]>([]);
+  const [diagnosis, setDiagnosis] = useState<InfeasibilityDiagnosis | null>(null);
+  const [isDiagnosing, setIsDiagnosing] = useState(false);
+  const [objectiveWeights, setObjectiveWeights] = useState<ObjectiveWeights | null>(null);
+  const [isSavingWeights, setIsSavingWeights] = useState(false);
   const [generationTime, setGenerationTime] = useState<number>(0);
+  const [activeGenerationId, setActiveGenerationId] = useState<number | null>(null);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [draftDiff, setDraftDiff] = useState<ScheduleDraftDiff | null>(null);
+  const [isApplyingDraft, setIsApplyingDraft] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isPartial, setIsPartial] = useState(false);
+  const [scopeStartDay, setScopeStartDay] = useState(1);
+  const [scopeEndDay, setScopeEndDay] = useState(1);
+  const [scopeEmployeeIds, setScopeEmployeeIds] = useState<string[]>([]);
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Stop polling when the component unmounts
+  useEffect(() => () => {
+    if (pollTimer.current) clearTimeout(pollTimer.current);
+  }, []);
 
   // Generation options
   const [options, setOptions] = useState<AutoScheduleGenerationOptions>({
@@ -49,7 +104,7 @@ export function AutoSchedManager({
     options: {
       algorithm: 'hybrid',
       optimizationFocus: 'balance',
-      maxIterations: 100,
+      maxIterations: 2000,
       timeoutMs: 30000
     }
   });
@@ -59,6 +114,8 @@ export function AutoSchedManager({
     'Июль', 'Август', 'Сентябрь', 'Октябрь', 'Ноябрь', 'Декабрь'
   ];
 
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
   // Update month/year when props change
   useEffect(() => {
     setOptions(prev => ({
@@ -66,8 +123,37 @@ export function AutoSchedManager({
       month,
       year
     }));
+    setScopeStartDay(1);
+    setScopeEndDay(new Date(year, month + 1, 0).getDate());
   }, [month, year]);
 
+  // Saved default weights of the objective, adjustable for a single generation
+  useEffect(() => {
+    autoScheduleApi.getObjectiveWeights()
+      .then(setObjectiveWeights)
+      .catch(err => console.error('Failed to load objective weights:', err));
+  }, []);
+
+  const handleSaveWeights = async () => {
+    if (!objectiveWeights) return;
+
+    setIsSavingWeights(true);
+    try {
+      setObjectiveWeights(await autoScheduleApi.saveObjectiveWeights(objectiveWeights));
+    } catch (err) {
+      console.error('Failed to save objective weights:', err);
+      alert(`Ошибка при сохранении весов: ${err instanceof Error ? err.message : 'Неизвестная ошибка'}`);
+    } finally {
+      setIsSavingWeights(false);
+    }
+  };
+
+  const toggleScopeEmployee = (employeeId: string) => {
+    setScopeEmployeeIds(prev =>
+      prev.includes(employeeId) ? prev.filter(id => id !== employeeId) : [...prev, employeeId]
+    );
+  };
+
   const handleGenerateSchedule = async () => {
     if (employees.length === 0) {
       alert('Сначала добавьте сотрудников');
@@ -79,35 +165,184 @@ export function AutoSchedManager({
       return;
     }
 
+    if (isPartial && scopeStartDay > scopeEndDay) {
+      alert('Начальный день диапазона не может быть позже конечного');
+      return;
+    }
+
     setIsGenerating(true);
     setGenerationResult(null);
     setShowResults(false);
+    setProgress(null);
+    setDraftDiff(null);
 
     try {
-      const startTime = Date.now();
-      const result = await autoScheduleApi.generateSchedule(options);
-      const endTime = Date.now();
+      const started = await autoScheduleApi.generateSchedule({
+        ...options,
+        options: {
+          ...options.options,
+          objectiveWeights: objectiveWeights || undefined,
+          scope: isPartial
+            ? {
+                startDay: scopeStartDay,
+                endDay: scopeEndDay,
+                employeeIds: scopeEmployeeIds.length > 0 ? scopeEmployeeIds : undefined
+              }
+            : undefined
+        }
+      });
+      setActiveGenerationId(started.generationId);
+      pollGeneration(started.generationId);
+    } catch (error) {
+      console.error('Failed to generate schedule:', error);
+      alert(`Ошибка при генерации графика: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
+      resetGenerationState();
+    }
+  };
 
-      setGenerationTime(endTime - startTime);
-      setGenerationResult(result);
-      setCurrentViolations(result.violations);
-      setCurrentMetrics(result.metrics);
-      setShowResults(true);
+  const pollGeneration = (generationId: number) => {
+    pollTimer.current = setTimeout(async () => {
+      try {
+        const state = await autoScheduleApi.getGeneration(generationId);
+        setProgress(state.progress);
 
-      onScheduleGenerated(result);
+        if (state.status === 'pending' || state.status === 'in_progress') {
+          pollGeneration(generationId);
+          return;
+        }
 
-      if (onValidationComplete) {
-        onValidationComplete(result.violations, result.metrics);
+        handleGenerationFinished(state);
+      } catch (error) {
+        console.error('Failed to fetch generation status:', error);
+        alert(`Ошибка при получении статуса генерации: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
+        resetGenerationState();
       }
+    }, POLL_INTERVAL_MS);
+  };
 
-    } catch (error: any) {
-      console.error('Failed to generate schedule:', error);
-      alert(`Ошибка при генерации графика: ${error.message || 'Неизвестная ошибка'}`);
+  const handleGenerationFinished = (state: AutoScheduleGenerationState) => {
+    resetGenerationState();
+
+    if (state.status === 'cancelled') {
+      alert('Генерация графика отменена');
+      return;
+    }
+
+    if (!state.schedule || !state.metrics) {
+      alert(`Ошибка при генерации графика: ${state.error || 'Неизвестная ошибка'}`);
+      return;
+    }
+
+    const result: AutoScheduleResult = {
+      success: state.status === 'completed' && state.metrics.errorCount === 0,
+      generationId: state.generationId,
+      month: state.month,
+      year: state.year,
+      schedule: state.schedule,
+      violations: state.violations || [],
+      metrics: state.metrics,
+      generationTime: state.generationTime || 0,
+      scoreTrace: state.scoreTrace || [],
+      message: state.message || ''
+    };
+
+    setGenerationTime(result.generationTime);
+    setGenerationResult(result);
+    setCurrentViolations(result.violations);
+    setCurrentMetrics(result.metrics);
+    setShowResults(true);
+
+    if (onValidationComplete) {
+      onValidationComplete(result.violations, result.metrics);
+    }
+
+    if (state.draftStatus === 'draft') {
+      loadDraftDiff(result.generationId);
+    }
+  };
+
+  const loadDraftDiff = async (generationId: number) => {
+    try {
+      setDraftDiff(await autoScheduleApi.getDraftDiff(generationId));
+    } catch (error) {
+      console.error('Failed to load draft diff:', error);
+    }
+  };
+
+  const handleApplyDraft = async () => {
+    if (!draftDiff || !generationResult) return;
+    if (!confirm(`Заменить график на ${monthNames[draftDiff.month]} ${draftDiff.year} сгенерированным черновиком?`)) return;
+
+    setIsApplyingDraft(true);
+    try {
+      await autoScheduleApi.applyDraft(draftDiff.generationId);
+      setDraftDiff(null);
+      onScheduleGenerated(generationResult);
+    } catch (error) {
+      console.error('Failed to apply draft:', error);
+      alert(`Ошибка при применении черновика: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
+    } finally {
+      setIsApplyingDraft(false);
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!draftDiff) return;
+
+    try {
+      await autoScheduleApi.discardDraft(draftDiff.generationId);
+      setDraftDiff(null);
+      setShowResults(false);
+    } catch (error) {
+      console.error('Failed to discard draft:', error);
+      alert(`Ошибка при отклонении черновика: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
+    }
+  };
+
+  const handleRestorePrevious = async () => {
+    if (!confirm(`Восстановить график на ${monthNames[month]} ${year}, действовавший до последнего применения?`)) return;
+
+    setIsRestoring(true);
+    try {
+      const result = await autoScheduleApi.restorePreviousSchedule(month, year);
+      alert(`Предыдущий график восстановлен (${result.restoredEntries} записей)`);
+      onScheduleRestored?.();
+    } catch (error) {
+      console.error('Failed to restore previous schedule:', error);
+      alert(`Ошибка при восстановлении графика: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
     } finally {
-      setIsGenerating(false);
+      setIsRestoring(false);
     }
   };
 
+  const employeeName = (employeeId: string) =>
+    employees.find(e => e.id === employeeId)?.name || employeeId;
+
+  const shiftName = (shiftId: string) =>
+    shifts.find(s => s.id === shiftId)?.name || shiftId;
+
+  const handleCancelGeneration = async () => {
+    if (activeGenerationId === null) return;
+
+    setIsCancelling(true);
+    try {
+      await autoScheduleApi.cancelGeneration(activeGenerationId);
+    } catch (error) {
+      console.error('Failed to cancel generation:', error);
+      alert(`Ошибка при отмене генерации: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
+      setIsCancelling(false);
+    }
+  };
+
+  const resetGenerationState = () => {
+    if (pollTimer.current) clearTimeout(pollTimer.current);
+    pollTimer.current = null;
+    setIsGenerating(false);
+    setActiveGenerationId(null);
+    setProgress(null);
+    setIsCancelling(false);
+  };
+
   const handleValidateSchedule = async () => {
     setIsValidating(true);
     try {
@@ -137,6 +372,18 @@ export function AutoSchedManager({
     }
   };
 
+  const handleDiagnose = async () => {
+    setIsDiagnosing(true);
+    try {
+      setDiagnosis(await autoScheduleApi.diagnoseSchedule(month, year));
+    } catch (err) {
+      console.error('Failed to diagnose schedule:', err);
+      alert(`Ошибка при диагностике: ${err instanceof Error ? err.message : 'Неизвестная ошибка'}`);
+    } finally {
+      setIsDiagnosing(false);
+    }
+  };
+
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case 'error':
@@ -183,6 +430,20 @@ export function AutoSchedManager({
             <span className="hidden sm:inline">Настройки</span>
           </button>
 
+          <button
+            onClick={handleRestorePrevious}
+            disabled={isRestoring || isGenerating}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50"
+            title="Восстановить график, действовавший до последнего применения"
+          >
+            {isRestoring ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RotateCcw className="w-4 h-4" />
+            )}
+            <span className="hidden sm:inline">Восстановить</span>
+          </button>
+
           <button
             onClick={handleValidateSchedule}
             disabled={isValidating}
@@ -267,14 +528,14 @@ export function AutoSchedManager({
               </label>
               <input
                 type="number"
-                value={options.options?.maxIterations || 100}
+                value={options.options?.maxIterations || 2000}
                 onChange={(e) => setOptions(prev => ({
                   ...prev,
-                  options: { ...prev.options, maxIterations: parseInt(e.target.value) || 100 }
+                  options: { ...prev.options, maxIterations: parseInt(e.target.value) || 2000 }
                 }))}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
                 min="1"
-                max="1000"
+                max="100000"
               />
             </div>
 
@@ -296,6 +557,152 @@ export function AutoSchedManager({
               />
             </div>
           </div>
+
+          {/* Objective weights */}
+          {objectiveWeights && (
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Веса целевой функции <span className="font-normal text-gray-500 dark:text-gray-400">(0–10)</span>
+                </div>
+                <button
+                  onClick={handleSaveWeights}
+                  disabled={isSavingWeights}
+                  className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400 disabled:opacity-50"
+                >
+                  {isSavingWeights ? 'Сохранение...' : 'Сохранить по умолчанию'}
+                </button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {OBJECTIVE_LABELS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="10"
+                      step="0.5"
+                      value={objectiveWeights[key]}
+                      onChange={(e) => setObjectiveWeights({
+                        ...objectiveWeights,
+                        [key]: Math.min(10, Math.max(0, parseFloat(e.target.value) || 0))
+                      })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Оптимизация принимает изменения, которые повышают взвешенную сумму: заполненные позиции,
+                равномерность часов и ротации неудобных смен, соблюдённые пожелания и меньше оплачиваемых часов (сверхурочные дороже).
+                Изменённые веса действуют на эту генерацию, пока их не сохранить.
+              </p>
+            </div>
+          )}
+
+          {/* Partial regeneration */}
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={isPartial}
+                onChange={(e) => setIsPartial(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              Перегенерировать только часть месяца
+            </label>
+
+            {isPartial && (
+              <>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Смены вне выбранного диапазона и сотрудников остаются без изменений.
+                  Итоговый график проверяется по правилам за весь месяц.
+                </p>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      С дня
+                    </label>
+                    <input
+                      type="number"
+                      value={scopeStartDay}
+                      onChange={(e) => setScopeStartDay(Math.min(daysInMonth, Math.max(1, parseInt(e.target.value) || 1)))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      min="1"
+                      max={daysInMonth}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      По день
+                    </label>
+                    <input
+                      type="number"
+                      value={scopeEndDay}
+                      onChange={(e) => setScopeEndDay(Math.min(daysInMonth, Math.max(1, parseInt(e.target.value) || daysInMonth)))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      min="1"
+                      max={daysInMonth}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Сотрудники {scopeEmployeeIds.length === 0 && (
+                      <span className="font-normal text-gray-500 dark:text-gray-400">(не выбраны — все)</span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {employees.map(employee => (
+                      <label
+                        key={employee.id}
+                        className="flex items-center gap-1.5 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={scopeEmployeeIds.includes(employee.id)}
+                          onChange={() => toggleScopeEmployee(employee.id)}
+                        />
+                        {employee.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Generation Progress */}
+      {isGenerating && (
+        <div className="border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Loader2 className="w-5 h-5 text-blue-600 dark:text-blue-400 animate-spin" />
+              <div>
+                <div className="text-sm font-medium text-blue-900 dark:text-blue-100">
+                  {progress ? PHASE_LABELS[progress.phase] : 'Ожидание запуска'}
+                </div>
+                <div className="text-xs text-gray-600 dark:text-gray-400">
+                  {activeGenerationId !== null && <span>ID: {activeGenerationId}</span>}
+                  {progress && progress.iteration > 0 && <span> · Итерация: {progress.iteration}</span>}
+                  {progress && progress.bestScore !== null && <span> · Лучшая оценка: {progress.bestScore}</span>}
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={handleCancelGeneration}
+              disabled={isCancelling || activeGenerationId === null}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-red-100 hover:bg-red-200 dark:bg-red-900 dark:hover:bg-red-800 text-red-700 dark:text-red-300 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <XCircle className="w-4 h-4" />
+              {isCancelling ? 'Отмена...' : 'Отменить'}
+            </button>
+          </div>
         </div>
       )}
 
@@ -342,12 +749,21 @@ export function AutoSchedManager({
                 <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
                   Нарушения правил ({currentViolations.length})
                 </h4>
-                <button
-                  onClick={handleGetSuggestions}
-                  className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400"
-                >
-                  Получить предложения
-                </button>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={handleDiagnose}
+                    disabled={isDiagnosing}
+                    className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400 disabled:opacity-50"
+                  >
+                    Почему не удаётся?
+                  </button>
+                  <button
+                    onClick={handleGetSuggestions}
+                    className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                  >
+                    Получить предложения
+                  </button>
+                </div>
               </div>
 
               <div className="space-y-1 max-h-32 overflow-y-auto">
@@ -445,11 +861,178 @@ export function AutoSchedManager({
             </div>
           </div>
 
+          {generationResult.scoreTrace.length > 1 && (
+            <ScoreTraceChart trace={generationResult.scoreTrace} />
+          )}
+
           {generationResult.message && (
             <div className="text-sm text-gray-700 dark:text-gray-300 p-3 bg-white dark:bg-gray-800 rounded border border-green-200 dark:border-green-800">
               {generationResult.message}
             </div>
           )}
+
+          {!generationResult.success && (
+            <button
+              onClick={handleDiagnose}
+              disabled={isDiagnosing}
+              className="mt-3 flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isDiagnosing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              Найти конфликтующие правила
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Infeasibility Diagnosis */}
+      {diagnosis && (
+        <div className="border border-purple-200 dark:border-purple-800 bg-purple-50 dark:bg-purple-900/20 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-purple-900 dark:text-purple-100 flex items-center gap-2">
+              <Search className="w-4 h-4" />
+              Диагностика выполнимости
+            </h3>
+            <button
+              onClick={() => setDiagnosis(null)}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {diagnosis.feasible ? (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Жёсткие правила совместимы: сотрудников и лимитов хватает, чтобы закрыть все смены месяца.
+              Нарушения вызваны распределением, а не нехваткой ресурсов.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {diagnosis.cheapest && (
+                <div className="text-sm p-3 bg-white dark:bg-gray-800 rounded border border-purple-200 dark:border-purple-800">
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    Самое простое решение: {diagnosis.cheapest.description}
+                  </div>
+                  {diagnosis.cheapest.remainingConflicts > 0 && (
+                    <div className="text-xs text-gray-600 dark:text-gray-400">
+                      Останется конфликтов: {diagnosis.cheapest.remainingConflicts}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Конфликты ({diagnosis.conflicts.length})
+                </h4>
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {diagnosis.conflicts.map((conflict, index) => (
+                    <div key={index} className="text-xs p-2 bg-white dark:bg-gray-800 rounded">
+                      <div className="font-medium text-gray-900 dark:text-gray-100">{conflict.message}</div>
+                      <ul className="mt-1 text-gray-600 dark:text-gray-400 list-disc list-inside">
+                        {conflict.causes.map((cause, causeIndex) => (
+                          <li key={causeIndex}>{cause.description}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {diagnosis.relaxations.length > 1 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Другие варианты</h4>
+                  <div className="space-y-1">
+                    {diagnosis.relaxations.slice(1).map((relaxation, index) => (
+                      <div
+                        key={index}
+                        className="flex items-center justify-between gap-2 text-xs p-2 bg-white dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300"
+                      >
+                        <span>{relaxation.description}</span>
+                        {relaxation.remainingConflicts > 0 && (
+                          <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                            осталось конфликтов: {relaxation.remainingConflicts}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Draft Preview */}
+      {draftDiff && (
+        <div className="border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 rounded-lg p-4">
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3">
+            <h3 className="font-semibold text-amber-900 dark:text-amber-100 flex items-center gap-2">
+              <Info className="w-4 h-4" />
+              Черновик графика — изменения относительно текущего
+            </h3>
+            <div className="flex gap-2">
+              <button
+                onClick={handleApplyDraft}
+                disabled={isApplyingDraft}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isApplyingDraft ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                Применить
+              </button>
+              <button
+                onClick={handleDiscardDraft}
+                disabled={isApplyingDraft}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <X className="w-4 h-4" />
+                Отклонить
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-3">
+            <div className="text-center">
+              <div className="text-2xl font-bold text-green-600 dark:text-green-400">{draftDiff.added.length}</div>
+              <div className="text-xs text-gray-600 dark:text-gray-400">Добавлено</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{draftDiff.changed.length}</div>
+              <div className="text-xs text-gray-600 dark:text-gray-400">Изменено</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-red-600 dark:text-red-400">{draftDiff.removed.length}</div>
+              <div className="text-xs text-gray-600 dark:text-gray-400">Удалено</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-gray-600 dark:text-gray-400">{draftDiff.unchangedCount}</div>
+              <div className="text-xs text-gray-600 dark:text-gray-400">Без изменений</div>
+            </div>
+          </div>
+
+          {draftDiff.changed.length > 0 && (
+            <div className="space-y-1 max-h-32 overflow-y-auto">
+              {draftDiff.changed.slice(0, 10).map((change) => (
+                <div
+                  key={`${change.employeeId}-${change.day}`}
+                  className="text-xs p-2 bg-white dark:bg-gray-800 rounded text-gray-700 dark:text-gray-300"
+                >
+                  {change.day} — {employeeName(change.employeeId)}: {shiftName(change.fromShiftId)} → {shiftName(change.toShiftId)}
+                </div>
+              ))}
+              {draftDiff.changed.length > 10 && (
+                <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+                  ... и еще {draftDiff.changed.length - 10} изменений
+                </div>
+              )}
+            </div>
+          )}
+
+          {draftDiff.removed.length > 0 && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-2">
+              При применении будут удалены записи, которых нет в черновике (включая ручные правки)
+            </p>
+          )}
         </div>
       )}
 
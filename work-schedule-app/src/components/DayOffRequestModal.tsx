@@ -1,10 +1,20 @@
 import { useState, useEffect } from 'react';
-import { X, Calendar, User, Edit2 } from 'lucide-react';
-import { Employee, PreferenceReason, EmployeePreferenceInput, EmployeePreference } from '../types';
+import { X, Calendar, User, Edit2, Clock } from 'lucide-react';
+import { Employee, PreferenceReason, EmployeePreferenceInput, EmployeePreference, PreferenceType, Shift } from '../types';
+
+const PREFERENCE_TYPE_LABELS: Record<PreferenceType, string> = {
+  day_off: 'Выходной',
+  preferred_shift: 'Хочу смену',
+  avoid_shift: 'Не ставить в смену',
+};
+
+// Даты из API приходят в ISO формате, для input[type=date] нужна только дата
+const toDateInput = (value?: string) => (value ? value.split('T')[0] : '');
 
 interface DayOffRequestModalProps {
   employees: Employee[];
   reasons: PreferenceReason[];
+  shifts?: Shift[]; // Без смен доступен только запрос выходного
   request?: EmployeePreference | null; // Для редактирования
   onSave: (request: EmployeePreferenceInput) => Promise<void>;
   onClose: () => void;
@@ -15,6 +25,7 @@ interface DayOffRequestModalProps {
 export function DayOffRequestModal({
   employees,
   reasons,
+  shifts = [],
   request,
   onSave,
   onClose,
@@ -22,12 +33,20 @@ export function DayOffRequestModal({
   initialEmployeeId,
 }: DayOffRequestModalProps) {
   const [employeeId, setEmployeeId] = useState(request?.employeeId || initialEmployeeId || '');
-  const [targetDate, setTargetDate] = useState(request?.targetDate || initialDate || '');
+  const [preferenceType, setPreferenceType] = useState<PreferenceType>(request?.preferenceType || 'day_off');
+  const [targetShiftId, setTargetShiftId] = useState(request?.targetShiftId || '');
+  const [targetDate, setTargetDate] = useState(toDateInput(request?.targetDate) || initialDate || '');
+  // Пожелание смены: на одну дату или на период (границы периода необязательны)
+  const [isRanged, setIsRanged] = useState(!!request && request.preferenceType !== 'day_off' && !request.targetDate);
+  const [startDate, setStartDate] = useState(toDateInput(request?.preferenceStartDate));
+  const [endDate, setEndDate] = useState(toDateInput(request?.preferenceEndDate));
   const [reasonId, setReasonId] = useState<number | undefined>(request?.reasonId || undefined);
   const [notes, setNotes] = useState(request?.notes || '');
   const [saving, setSaving] = useState(false);
 
   const isEditing = !!request;
+  const isShiftPreference = preferenceType !== 'day_off';
+  const workShifts = shifts.filter(shift => shift.id !== 'Выходной');
 
   useEffect(() => {
     // Set default reason to the highest priority one
@@ -40,17 +59,27 @@ export function DayOffRequestModal({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!employeeId || !targetDate) {
+    if (!employeeId || (!targetDate && !(isShiftPreference && isRanged)) || (isShiftPreference && !targetShiftId)) {
       alert('Заполните все обязательные поля');
       return;
     }
+    if (isShiftPreference && isRanged && startDate && endDate && startDate > endDate) {
+      alert('Начало периода не может быть позже конца');
+      return;
+    }
+
+    const useRange = isShiftPreference && isRanged;
 
     setSaving(true);
     try {
       await onSave({
         employeeId,
-        preferenceType: 'day_off',
-        targetDate,
+        preferenceType,
+        // Пустые строки сбрасывают значения при редактировании
+        targetDate: useRange ? '' : targetDate,
+        preferenceStartDate: useRange ? startDate : '',
+        preferenceEndDate: useRange ? endDate : '',
+        targetShiftId: isShiftPreference ? targetShiftId : undefined,
         reasonId,
         priority: reasonId ? reasons.find(r => r.id === reasonId)?.priority : 50,
         status: 'pending',
@@ -73,7 +102,7 @@ export function DayOffRequestModal({
           <div className="flex items-center gap-3">
             {isEditing && <Edit2 className="w-6 h-6 text-blue-600 dark:text-blue-400" />}
             <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
-              {isEditing ? 'Редактирование запроса' : 'Новый запрос выходного'}
+              {isEditing ? 'Редактирование запроса' : workShifts.length > 0 ? 'Новый запрос' : 'Новый запрос выходного'}
             </h2>
           </div>
           <button
@@ -108,19 +137,102 @@ export function DayOffRequestModal({
             </select>
           </div>
 
+          {/* Request Type */}
+          {workShifts.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+                Тип запроса
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(PREFERENCE_TYPE_LABELS) as PreferenceType[]).map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setPreferenceType(type)}
+                    className={`px-3 py-2 rounded-lg text-sm border transition-colors ${
+                      preferenceType === type
+                        ? 'bg-blue-500 dark:bg-blue-600 text-white border-blue-500 dark:border-blue-600'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {PREFERENCE_TYPE_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Shift Select */}
+          {isShiftPreference && (
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+                <Clock className="w-4 h-4" />
+                Смена *
+              </label>
+              <select
+                value={targetShiftId}
+                onChange={(e) => setTargetShiftId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              >
+                <option value="">Выберите смену</option>
+                {workShifts.map((shift) => (
+                  <option key={shift.id} value={shift.id}>
+                    {shift.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Date Select */}
           <div>
             <label className="flex items-center gap-2 text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
               <Calendar className="w-4 h-4" />
-              Дата *
+              {isShiftPreference && isRanged ? 'Период' : 'Дата *'}
             </label>
-            <input
-              type="date"
-              value={targetDate}
-              onChange={(e) => setTargetDate(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              required
-            />
+            {isShiftPreference && (
+              <label className="flex items-center gap-2 mb-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isRanged}
+                  onChange={(e) => setIsRanged(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-300 dark:border-gray-600"
+                />
+                На период, а не на одну дату
+              </label>
+            )}
+            {isShiftPreference && isRanged ? (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    title="С"
+                  />
+                  <input
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    title="По"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Пустая граница - без ограничения: без обеих дат пожелание действует постоянно
+                </p>
+              </>
+            ) : (
+              <input
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            )}
           </div>
 
           {/* Reason Select */}
@@ -64,6 +64,14 @@ export function DayOffRequestViewer({
     });
   };
 
+  const formatPeriod = () => {
+    const { preferenceStartDate: start, preferenceEndDate: end } = request;
+    if (start && end) return `${formatDate(start)} — ${formatDate(end)}`;
+    if (start) return `с ${formatDate(start)}`;
+    if (end) return `по ${formatDate(end)}`;
+    return 'Без срока';
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-3 md:p-4">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto m-4">
@@ -100,9 +108,13 @@ export function DayOffRequestViewer({
           <div className="flex items-center gap-3 p-3 md:p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
             <Calendar className="w-5 h-5 text-gray-600 dark:text-gray-400 flex-shrink-0" />
             <div className="flex-1 min-w-0">
-              <p className="text-sm text-gray-600 dark:text-gray-400">Дата</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {request.targetDate || request.preferenceType === 'day_off' ? 'Дата' : 'Период'}
+              </p>
               <p className="font-semibold text-gray-900 dark:text-gray-100 truncate">
-                {request.targetDate ? formatDate(request.targetDate) : 'Не указана'}
+                {request.targetDate
+                  ? formatDate(request.targetDate)
+                  : request.preferenceType === 'day_off' ? 'Не указана' : formatPeriod()}
               </p>
             </div>
           </div>
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { EmployeeAvailability, EmployeeAvailabilityInput } from '../types';
+import { availabilityApi } from '../services/api';
+
+// Индекс - Date.getDay(), в списке неделя начинается с понедельника
+const WEEKDAY_NAMES = ['Вс', 'Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб'];
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const INPUT_CLASS = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-');
+  return `${day}.${month}.${year}`;
+};
+
+interface EmployeeAvailabilityEditorProps {
+  employeeId: string;
+}
+
+export function EmployeeAvailabilityEditor({ employeeId }: EmployeeAvailabilityEditorProps) {
+  const emptyWindow: EmployeeAvailabilityInput = {
+    employeeId,
+    weekday: 1,
+    startTime: '09:00',
+    endTime: '18:00',
+    validFrom: '',
+    validTo: '',
+  };
+
+  const [windows, setWindows] = useState<EmployeeAvailability[]>([]);
+  const [newWindow, setNewWindow] = useState<EmployeeAvailabilityInput>(emptyWindow);
+
+  useEffect(() => {
+    availabilityApi.getByEmployee(employeeId)
+      .then(setWindows)
+      .catch(err => console.error('Error loading availability:', err));
+  }, [employeeId]);
+
+  const sortWindows = (list: EmployeeAvailability[]) =>
+    [...list].sort((a, b) =>
+      WEEKDAY_ORDER.indexOf(a.weekday) - WEEKDAY_ORDER.indexOf(b.weekday) || a.startTime.localeCompare(b.startTime)
+    );
+
+  const addWindow = async () => {
+    try {
+      const saved = await availabilityApi.create({
+        ...newWindow,
+        validFrom: newWindow.validFrom || undefined,
+        validTo: newWindow.validTo || undefined,
+      });
+      setWindows(sortWindows([...windows, saved]));
+      setNewWindow({ ...emptyWindow, weekday: newWindow.weekday });
+    } catch (err) {
+      console.error('Failed to save availability:', err);
+      alert(`Ошибка при сохранении доступности: ${err instanceof Error ? err.message : 'неизвестная ошибка'}`);
+    }
+  };
+
+  const deleteWindow = async (id: number) => {
+    try {
+      await availabilityApi.delete(id);
+      setWindows(windows.filter(w => w.id !== id));
+    } catch (err) {
+      console.error('Failed to delete availability:', err);
+      alert('Ошибка при удалении доступности');
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        Доступность по дням недели
+      </label>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Без записей сотрудник доступен всегда. С записями смены ставятся только целиком внутри указанных окон,
+        дни недели без окон считаются недоступными
+      </p>
+
+      {windows.length > 0 && (
+        <div className="mb-2 divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {windows.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between px-3 py-1.5 text-sm text-gray-800 dark:text-gray-200">
+              <span>
+                <span className="font-medium inline-block w-8">{WEEKDAY_NAMES[entry.weekday]}</span>
+                {entry.startTime}–{entry.endTime}
+                {(entry.validFrom || entry.validTo) && (
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {entry.validFrom ? `с ${formatDate(entry.validFrom)}` : ''}
+                    {entry.validFrom && entry.validTo ? ' ' : ''}
+                    {entry.validTo ? `по ${formatDate(entry.validTo)}` : ''}
+                  </span>
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => deleteWindow(entry.id)}
+                className="p-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition"
+                title="Удалить"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <select
+          value={newWindow.weekday}
+          onChange={(e) => setNewWindow({ ...newWindow, weekday: parseInt(e.target.value) })}
+          className={INPUT_CLASS}
+        >
+          {WEEKDAY_ORDER.map(weekday => (
+            <option key={weekday} value={weekday}>{WEEKDAY_NAMES[weekday]}</option>
+          ))}
+        </select>
+        <input
+          type="time"
+          value={newWindow.startTime}
+          onChange={(e) => setNewWindow({ ...newWindow, startTime: e.target.value })}
+          className={INPUT_CLASS}
+        />
+        <input
+          type="time"
+          value={newWindow.endTime}
+          onChange={(e) => setNewWindow({ ...newWindow, endTime: e.target.value })}
+          className={INPUT_CLASS}
+        />
+        <input
+          type="date"
+          value={newWindow.validFrom}
+          onChange={(e) => setNewWindow({ ...newWindow, validFrom: e.target.value })}
+          className={INPUT_CLASS}
+          title="Действует с"
+        />
+        <input
+          type="date"
+          value={newWindow.validTo}
+          onChange={(e) => setNewWindow({ ...newWindow, validTo: e.target.value })}
+          className={INPUT_CLASS}
+          title="Действует по"
+        />
+        <button
+          type="button"
+          onClick={addWindow}
+          className="flex items-center gap-1 px-3 py-1.5 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Добавить
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
 import { Plus, Edit2, Trash2, Users } from 'lucide-react';
-import { Employee, Role } from '../types';
+import { Employee, EmploymentContract, Role } from '../types';
 import { employeeApi, roleApi } from '../services/api';
+import { EmployeeAvailabilityEditor } from './EmployeeAvailabilityEditor';
+
+const RATES = [1, 0.75, 0.5, 0.25];
 
 export default function EmployeeManager() {
   const [employees, setEmployees] = useState<Employee[]>([]);
@@ -15,6 +18,20 @@ export default function EmployeeManager() {
     name: '',
     roleId: undefined as number | undefined,
     excludeFromHours: false,
+    rate: 1,
+    targetMonthlyHours: '',
+    minWeeklyHours: '',
+    maxWeeklyHours: '',
+  });
+
+  // Пустое поле - значение не задано
+  const toOptionalHours = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+  const buildContract = (): EmploymentContract => ({
+    rate: formData.rate,
+    targetMonthlyHours: toOptionalHours(formData.targetMonthlyHours),
+    minWeeklyHours: toOptionalHours(formData.minWeeklyHours),
+    maxWeeklyHours: toOptionalHours(formData.maxWeeklyHours),
   });
 
   const generateId = () => `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -55,6 +72,7 @@ export default function EmployeeManager() {
           name: formData.name,
           roleId: formData.roleId,
           excludeFromHours: formData.excludeFromHours,
+          contract: buildContract(),
         });
       } else {
         await employeeApi.create({
@@ -62,6 +80,7 @@ export default function EmployeeManager() {
           name: formData.name,
           roleId: formData.roleId,
           excludeFromHours: formData.excludeFromHours,
+          contract: buildContract(),
         });
       }
       await loadData();
@@ -78,6 +97,10 @@ export default function EmployeeManager() {
       name: employee.name,
       roleId: employee.roleId,
       excludeFromHours: employee.excludeFromHours || false,
+      rate: employee.contract?.rate ?? 1,
+      targetMonthlyHours: employee.contract?.targetMonthlyHours?.toString() ?? '',
+      minWeeklyHours: employee.contract?.minWeeklyHours?.toString() ?? '',
+      maxWeeklyHours: employee.contract?.maxWeeklyHours?.toString() ?? '',
     });
     setIsAdding(true);
   };
@@ -103,6 +126,10 @@ export default function EmployeeManager() {
       name: '',
       roleId: undefined,
       excludeFromHours: false,
+      rate: 1,
+      targetMonthlyHours: '',
+      minWeeklyHours: '',
+      maxWeeklyHours: '',
     });
   };
 
@@ -185,6 +212,73 @@ export default function EmployeeManager() {
               )}
             </div>
 
+            {/* Трудовой договор */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Трудовой договор
+              </label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                <div>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Ставка</span>
+                  <select
+                    value={formData.rate}
+                    onChange={(e) => setFormData({ ...formData, rate: parseFloat(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  >
+                    {(RATES.includes(formData.rate) ? RATES : [...RATES, formData.rate]).map((rate) => (
+                      <option key={rate} value={rate}>{rate}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Часов в месяц</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={formData.targetMonthlyHours}
+                    onChange={(e) => setFormData({ ...formData, targetMonthlyHours: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                    placeholder="По норме"
+                  />
+                </div>
+                <div>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Мин. часов в неделю</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={formData.minWeeklyHours}
+                    onChange={(e) => setFormData({ ...formData, minWeeklyHours: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  />
+                </div>
+                <div>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Макс. часов в неделю</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={formData.maxWeeklyHours}
+                    onChange={(e) => setFormData({ ...formData, maxWeeklyHours: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Без часов в месяц цель считается как норма производственного календаря × ставка
+              </p>
+            </div>
+
+            {/* Доступность: окна сохраняются сразу, поэтому только у созданного сотрудника */}
+            {editingId ? (
+              <EmployeeAvailabilityEditor employeeId={editingId} />
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Доступность по дням недели настраивается после создания сотрудника
+              </p>
+            )}
+
             {/* Не считать часы */}
             <div>
               <label className="flex items-center gap-2 cursor-pointer">
@@ -251,6 +345,11 @@ export default function EmployeeManager() {
                       {employee.role.name}
                     </span>
                   )}
+                  {employee.contract && employee.contract.rate !== 1 && (
+                    <span className="text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-1.5 md:px-2 py-0.5 rounded font-medium whitespace-nowrap">
+                      Ставка {employee.contract.rate}
+                    </span>
+                  )}
                   {employee.excludeFromHours && (
                     <span className="text-xs bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 px-1.5 md:px-2 py-0.5 rounded font-medium whitespace-nowrap">
                       Не учитывать часы
@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { OperatingCalendarOverride, OperatingCalendarOverrideInput, OperatingDay } from '../types';
+import { operatingCalendarApi } from '../services/api';
+
+// Индекс - Date.getDay(), в таблице неделя начинается с понедельника
+const WEEKDAY_NAMES = ['Воскресенье', 'Понедельник', 'Вторник', 'Среда', 'Четверг', 'Пятница', 'Суббота'];
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const EMPTY_OVERRIDE: OperatingCalendarOverrideInput = {
+  date: '',
+  isClosed: true,
+  startTime: '',
+  endTime: '',
+  note: ''
+};
+
+const INPUT_CLASS = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50';
+
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-');
+  return `${day}.${month}.${year}`;
+};
+
+export function OperatingCalendarManager() {
+  const [week, setWeek] = useState<OperatingDay[]>([]);
+  const [overrides, setOverrides] = useState<OperatingCalendarOverride[]>([]);
+  const [newOverride, setNewOverride] = useState<OperatingCalendarOverrideInput>(EMPTY_OVERRIDE);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    // Прошедшие исключения не показываем, начиная с текущего месяца
+    const now = new Date();
+    const startDate = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`;
+
+    Promise.all([
+      operatingCalendarApi.getWeek(),
+      operatingCalendarApi.getOverrides({ startDate })
+    ])
+      .then(([weekData, overridesData]) => {
+        setWeek(weekData);
+        setOverrides(overridesData);
+      })
+      .catch(err => console.error('Error loading operating calendar:', err));
+  }, []);
+
+  const updateDay = (weekday: number, changes: Partial<OperatingDay>) => {
+    setWeek(week.map((day, index) => index === weekday ? { ...day, ...changes } : day));
+  };
+
+  const saveWeek = async () => {
+    setSaving(true);
+    try {
+      setWeek(await operatingCalendarApi.updateWeek(week));
+      alert('Часы работы сохранены');
+    } catch (err) {
+      console.error('Failed to save operating calendar:', err);
+      alert('Ошибка при сохранении часов работы');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addOverride = async () => {
+    if (!newOverride.date) {
+      alert('Укажите дату');
+      return;
+    }
+
+    try {
+      const saved = await operatingCalendarApi.saveOverride(newOverride);
+      setOverrides([...overrides.filter(o => o.date !== saved.date), saved]
+        .sort((a, b) => a.date.localeCompare(b.date)));
+      setNewOverride(EMPTY_OVERRIDE);
+    } catch (err) {
+      console.error('Failed to save operating calendar override:', err);
+      alert('Ошибка при сохранении исключения');
+    }
+  };
+
+  const deleteOverride = async (id: number) => {
+    try {
+      await operatingCalendarApi.deleteOverride(id);
+      setOverrides(overrides.filter(o => o.id !== id));
+    } catch (err) {
+      console.error('Failed to delete operating calendar override:', err);
+      alert('Ошибка при удалении исключения');
+    }
+  };
+
+  const describeOverride = (override: OperatingCalendarOverride) => {
+    if (override.isClosed) return 'Закрыто';
+    const regular = week[new Date(`${override.date}T00:00:00`).getDay()];
+    return `${override.startTime || regular?.start} – ${override.endTime || regular?.end}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg md:text-xl font-bold mb-3 md:mb-4 text-gray-900 dark:text-gray-100">
+          Часы работы предприятия
+        </h2>
+        <p className="text-xs md:text-sm text-gray-600 dark:text-gray-400 mb-3 md:mb-4">
+          Автогенерация назначает смены только в дни работы и только на смены, пересекающиеся с часами работы
+        </p>
+        <div className="space-y-2 mb-4">
+          {WEEKDAY_ORDER.map(weekday => week[weekday] && (
+            <div key={weekday} className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 w-40 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={week[weekday].open}
+                  onChange={(e) => updateDay(weekday, { open: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                {WEEKDAY_NAMES[weekday]}
+              </label>
+              <input
+                type="time"
+                value={week[weekday].start}
+                disabled={!week[weekday].open}
+                onChange={(e) => updateDay(weekday, { start: e.target.value })}
+                className={INPUT_CLASS}
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="time"
+                value={week[weekday].end}
+                disabled={!week[weekday].open}
+                onChange={(e) => updateDay(weekday, { end: e.target.value })}
+                className={INPUT_CLASS}
+              />
+              {!week[weekday].open && (
+                <span className="text-sm text-gray-500 dark:text-gray-400">Выходной</span>
+              )}
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={saveWeek}
+          disabled={saving || week.length === 0}
+          className="flex items-center gap-2 px-3 md:px-4 py-2 bg-blue-500 dark:bg-blue-600 text-white rounded-lg hover:bg-blue-600 dark:hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base w-full sm:w-auto"
+        >
+          <Save className="w-4 h-4 md:w-5 md:h-5" />
+          <span>{saving ? 'Сохранение...' : 'Сохранить часы работы'}</span>
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-base md:text-lg font-semibold mb-2 text-gray-900 dark:text-gray-100">
+          Исключения
+        </h3>
+        <p className="text-xs md:text-sm text-gray-600 dark:text-gray-400 mb-3">
+          Праздники, инвентаризация, продлённые часы. Пустое время - как в обычный день недели
+        </p>
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <input
+            type="date"
+            value={newOverride.date}
+            onChange={(e) => setNewOverride({ ...newOverride, date: e.target.value })}
+            className={INPUT_CLASS}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={newOverride.isClosed}
+              onChange={(e) => setNewOverride({ ...newOverride, isClosed: e.target.checked })}
+              className="w-4 h-4"
+            />
+            Закрыто
+          </label>
+          <input
+            type="time"
+            value={newOverride.startTime}
+            disabled={newOverride.isClosed}
+            onChange={(e) => setNewOverride({ ...newOverride, startTime: e.target.value })}
+            className={INPUT_CLASS}
+          />
+          <span className="text-gray-500">–</span>
+          <input
+            type="time"
+            value={newOverride.endTime}
+            disabled={newOverride.isClosed}
+            onChange={(e) => setNewOverride({ ...newOverride, endTime: e.target.value })}
+            className={INPUT_CLASS}
+          />
+          <input
+            type="text"
+            value={newOverride.note}
+            placeholder="Причина"
+            onChange={(e) => setNewOverride({ ...newOverride, note: e.target.value })}
+            className={`${INPUT_CLASS} flex-1 min-w-[10rem]`}
+          />
+          <button
+            onClick={addOverride}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-500 dark:bg-blue-600 text-white rounded-lg hover:bg-blue-600 dark:hover:bg-blue-700 transition-colors text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Добавить
+          </button>
+        </div>
+
+        {overrides.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Исключений нет</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {overrides.map(override => (
+              <div key={override.id} className="flex items-center justify-between py-2">
+                <div className="text-sm text-gray-900 dark:text-gray-100">
+                  <span className="font-medium">{formatDate(override.date)}</span>
+                  <span className="ml-3">{describeOverride(override)}</span>
+                  {override.note && (
+                    <span className="ml-3 text-gray-500 dark:text-gray-400">{override.note}</span>
+                  )}
+                </div>
+                <button
+                  onClick={() => deleteOverride(override.id)}
+                  className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import { ProductionCalendarYear } from '../types';
+import { productionCalendarApi } from '../services/api';
+
+export function ProductionCalendarImport() {
+  const [years, setYears] = useState<ProductionCalendarYear[]>([]);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadYears = () => {
+    productionCalendarApi.getYears()
+      .then(setYears)
+      .catch(err => console.error('Error loading production calendar:', err));
+  };
+
+  useEffect(loadYears, []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Тот же файл можно выбрать повторно
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const result = await productionCalendarApi.import(await file.text());
+      alert(`Календарь загружен: ${result.years.join(', ')} (${result.imported} особых дней)`);
+      loadYears();
+    } catch (err) {
+      console.error('Failed to import production calendar:', err);
+      alert(`Ошибка при загрузке календаря: ${err instanceof Error ? err.message : 'неизвестная ошибка'}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const deleteYear = async (year: number) => {
+    if (!confirm(`Удалить производственный календарь за ${year} год?`)) return;
+    try {
+      await productionCalendarApi.deleteYear(year);
+      setYears(years.filter(y => y.year !== year));
+    } catch (err) {
+      console.error('Failed to delete production calendar:', err);
+      alert('Ошибка при удалении календаря');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-3 gap-3">
+        <h2 className="text-lg md:text-xl font-bold text-gray-900 dark:text-gray-100">
+          Производственный календарь
+        </h2>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="flex items-center gap-2 px-3 md:px-4 py-2 bg-blue-500 dark:bg-blue-600 text-white rounded-lg hover:bg-blue-600 dark:hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base w-full sm:w-auto"
+        >
+          <Upload className="w-4 h-4 md:w-5 md:h-5" />
+          <span>{importing ? 'Загрузка...' : 'Загрузить файл'}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xml,.json,application/xml,application/json,text/xml"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+      <p className="text-xs md:text-sm text-gray-600 dark:text-gray-400 mb-3 md:mb-4">
+        XML или JSON в формате xmlcalendar.ru. Праздники отмечаются в графике, по календарю считается норма часов месяца
+      </p>
+
+      {years.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Календарь не загружен</p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {years.map(year => (
+            <div key={year.year} className="flex items-center justify-between py-2">
+              <div className="text-sm text-gray-900 dark:text-gray-100">
+                <span className="font-medium">{year.year}</span>
+                <span className="ml-3 text-gray-600 dark:text-gray-400">
+                  праздников: {year.holidays}, сокращённых дней: {year.shortened}, рабочих выходных: {year.working}
+                </span>
+              </div>
+              <button
+                onClick={() => deleteYear(year.year)}
+                className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
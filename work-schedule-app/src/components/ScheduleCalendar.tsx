@@ -1,8 +1,9 @@
-import { useState, useRef } from 'react';
-import { ChevronLeft, ChevronRight, X } from 'lucide-react';
-import { Employee, Shift, ScheduleEntry, EmployeePreference, PreferenceReason } from '../types';
-import { preferencesApi } from '../services/api';
+import { useState, useRef, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, X, Lock, Unlock, HelpCircle } from 'lucide-react';
+import { Employee, Shift, ScheduleEntry, EmployeePreference, PreferenceReason, ProductionCalendarMonth } from '../types';
+import { preferencesApi, productionCalendarApi } from '../services/api';
 import { DayOffRequestViewer } from './DayOffRequestViewer';
+import { AssignmentExplanationModal } from './AssignmentExplanationModal';
 
 interface ScheduleCalendarProps {
   employees: Employee[];
@@ -12,6 +13,7 @@ interface ScheduleCalendarProps {
   reasons: PreferenceReason[];
   onScheduleChange: (entry: ScheduleEntry) => void;
   onScheduleRemove: (employeeId: string, day: number, month: number, year: number) => void;
+  onScheduleLockToggle?: (entry: ScheduleEntry) => void;
   onPreferencesChange: () => void;
   onMonthChange?: (month: number, year: number) => void;
 }
@@ -24,6 +26,7 @@ export function ScheduleCalendar({
   reasons,
   onScheduleChange,
   onScheduleRemove,
+  onScheduleLockToggle,
   onPreferencesChange,
   onMonthChange
 }: ScheduleCalendarProps) {
@@ -33,8 +36,16 @@ export function ScheduleCalendar({
   const [year, setYear] = useState(currentDate.getFullYear());
   const [activeCell, setActiveCell] = useState<{ employeeId: string; day: number; rect?: DOMRect } | null>(null);
   const [viewingRequest, setViewingRequest] = useState<EmployeePreference | null>(null);
+  const [explainingCell, setExplainingCell] = useState<{ employeeId: string; day: number } | null>(null);
+  const [productionCalendar, setProductionCalendar] = useState<ProductionCalendarMonth | null>(null);
   const popupRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    productionCalendarApi.getMonth(month, year)
+      .then(setProductionCalendar)
+      .catch(err => console.error('Error loading production calendar:', err));
+  }, [month, year]);
+
   
   // Helper function to check if a date is today
   const isToday = (day: number) => {
@@ -45,7 +56,20 @@ export function ScheduleCalendar({
     );
   };
 
-  
+  // Production calendar entry for a day (holidays, shortened and moved working days)
+  const getCalendarDay = (day: number) => {
+    const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    return productionCalendar?.days.find(d => d.date === dateStr);
+  };
+
+  // A day is off if it is a holiday or a weekend not moved to a working day
+  const isDayOff = (day: number) => {
+    const calendarDay = getCalendarDay(day);
+    if (calendarDay) return calendarDay.type === 'holiday';
+    const dayOfWeek = new Date(year, month, day).getDay();
+    return dayOfWeek === 0 || dayOfWeek === 6;
+  };
+
   // Get day-off requests for a specific date
   const getPendingRequests = (employeeId: string, day: number): EmployeePreference | undefined => {
     const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
@@ -159,6 +183,9 @@ export function ScheduleCalendar({
     return null;
   };
 
+  const findEntry = (employeeId: string, day: number): ScheduleEntry | undefined =>
+    schedule.find((e) => e.employeeId === employeeId && e.day === day && e.month === month && e.year === year);
+
   const handleCellClick = (e: React.MouseEvent<HTMLTableCellElement>, employeeId: string, day: number) => {
     if (shifts.length === 0) {
       alert('Сначала создайте смены в разделе "Управление сменами"');
@@ -182,6 +209,16 @@ export function ScheduleCalendar({
     }
   };
 
+  const handleToggleLock = () => {
+    if (activeCell && onScheduleLockToggle) {
+      const entry = findEntry(activeCell.employeeId, activeCell.day);
+      if (entry) {
+        onScheduleLockToggle(entry);
+      }
+      setActiveCell(null);
+    }
+  };
+
   const handleRemoveShift = () => {
     if (activeCell) {
       onScheduleRemove(activeCell.employeeId, activeCell.day, month, year);
@@ -315,7 +352,7 @@ export function ScheduleCalendar({
 
             {employees.length > 0 && (
               <div className="mt-4 pt-4 border-t border-blue-200 dark:border-blue-800">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className={`grid grid-cols-1 gap-3 ${productionCalendar ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
                   <div className="bg-white dark:bg-gray-700 p-3 rounded-lg shadow-sm">
                     <p className="font-bold text-gray-800 dark:text-gray-100">Часы общие</p>
                     <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">{calculateTotalHours().totalHours} ч</p>
@@ -324,6 +361,15 @@ export function ScheduleCalendar({
                     <p className="font-bold text-gray-800 dark:text-gray-100">Часы без УМ/ЗУМ</p>
                     <p className="text-2xl font-bold text-green-600 dark:text-green-400">{calculateTotalHours().hoursWithoutUMZUM} ч</p>
                   </div>
+                  {productionCalendar && (
+                    <div className="bg-white dark:bg-gray-700 p-3 rounded-lg shadow-sm">
+                      <p className="font-bold text-gray-800 dark:text-gray-100">Норма часов</p>
+                      <p className="text-2xl font-bold text-purple-600 dark:text-purple-400">{productionCalendar.norm.normHours} ч</p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        рабочих дней: {productionCalendar.norm.workingDays} на сотрудника
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -345,12 +391,14 @@ export function ScheduleCalendar({
                     {Array.from({ length: daysInMonth }, (_, i) => i + 1).map((day) => {
                       const date = new Date(year, month, day);
                       const dayOfWeek = date.getDay();
-                      const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+                      const isWeekend = isDayOff(day);
                       const isTodayDate = isToday(day);
+                      const calendarDay = getCalendarDay(day);
 
                       return (
                         <th
                           key={day}
+                          title={calendarDay?.title || (calendarDay?.type === 'shortened' ? 'Сокращённый день' : undefined)}
                           className={`border border-gray-300 dark:border-gray-600 p-1 text-center w-8 md:w-12 ${
                             isTodayDate
                               ? 'bg-green-200 dark:bg-green-700 ring-2 ring-green-500 dark:ring-green-400'
@@ -362,7 +410,9 @@ export function ScheduleCalendar({
                           <div className={`text-[10px] md:text-xs ${isTodayDate ? 'text-green-800 dark:text-green-200 font-bold' : 'text-gray-600 dark:text-gray-400'}`}>
                             {weekDays[(dayOfWeek === 0 ? 6 : dayOfWeek - 1)]}
                           </div>
-                          <div className={`font-semibold text-xs md:text-sm ${isTodayDate ? 'text-green-900 dark:text-green-100' : 'text-gray-800 dark:text-gray-200'}`}>{day}</div>
+                          <div className={`font-semibold text-xs md:text-sm ${isTodayDate ? 'text-green-900 dark:text-green-100' : calendarDay?.type === 'holiday' ? 'text-red-600 dark:text-red-400' : 'text-gray-800 dark:text-gray-200'}`}>
+                            {day}{calendarDay?.type === 'shortened' && <span className="text-amber-600 dark:text-amber-400">*</span>}
+                          </div>
                         </th>
                       );
                     })}
@@ -377,12 +427,12 @@ export function ScheduleCalendar({
                         </td>
                         {Array.from({ length: daysInMonth }, (_, i) => i + 1).map((day) => {
                           const shift = getScheduleEntry(employee.id, day);
-                          const date = new Date(year, month, day);
-                          const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+                          const isWeekend = isDayOff(day);
                           const isActive = activeCell?.employeeId === employee.id && activeCell?.day === day;
                           const isTodayDate = isToday(day);
                           const pendingRequest = getPendingRequests(employee.id, day);
                           const approvedRequest = getApprovedRequests(employee.id, day);
+                          const isLocked = findEntry(employee.id, day)?.isLocked;
 
                           let baseClassName = 'border border-gray-300 dark:border-gray-600 p-0.5 md:p-1 text-center cursor-pointer transition-all duration-150 touch-manipulation ';
                           if (isTodayDate) {
@@ -408,6 +458,13 @@ export function ScheduleCalendar({
                                   >
                                     {shift.abbreviation}
                                   </div>
+                                )}
+                                {shift && isLocked && (
+                                  <Lock
+                                    size={10}
+                                    className="absolute -top-1 -right-1 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 rounded-full p-[1px]"
+                                    aria-label="Закреплено"
+                                  />
                                 )}
                                                                 {pendingRequest && (
                                   <div
@@ -483,6 +540,31 @@ export function ScheduleCalendar({
                     </button>
                   ))}
                 </div>
+                {onScheduleLockToggle && findEntry(activeCell.employeeId, activeCell.day) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleToggleLock();
+                    }}
+                    className="w-full mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 flex items-center justify-center gap-1 text-xs text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 font-medium"
+                  >
+                    {findEntry(activeCell.employeeId, activeCell.day)?.isLocked ? (
+                      <><Unlock size={12} /> Открепить смену</>
+                    ) : (
+                      <><Lock size={12} /> Закрепить смену</>
+                    )}
+                  </button>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setExplainingCell({ employeeId: activeCell.employeeId, day: activeCell.day });
+                    setActiveCell(null);
+                  }}
+                  className="w-full mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 flex items-center justify-center gap-1 text-xs text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 font-medium"
+                >
+                  <HelpCircle size={12} /> Почему так?
+                </button>
                 {getScheduleEntry(activeCell.employeeId, activeCell.day) && (
                   <button
                     onClick={(e) => {
@@ -510,9 +592,12 @@ export function ScheduleCalendar({
               <li>• Кликните на ячейку, чтобы открыть выбор смены</li>
               <li>• Выберите нужную смену из всплывающего меню</li>
               <li>• <span className="font-semibold text-green-700 dark:text-green-400">Зеленым</span> выделена текущая дата</li>
-              <li>• <span className="font-semibold text-red-700 dark:text-red-400">Красным</span> выделены выходные дни (суббота и воскресенье)</li>
+              <li>• <span className="font-semibold text-red-700 dark:text-red-400">Красным</span> выделены нерабочие дни по производственному календарю: праздники и выходные, кроме перенесённых на рабочие дни</li>
+              <li>• <span className="font-semibold text-amber-600 dark:text-amber-400">*</span> Звёздочкой отмечены сокращённые предпраздничные дни</li>
               <li>• <span className="inline-block w-2 h-2 rounded-full bg-red-600 dark:bg-red-500"></span> Красная точка - ожидающий запрос на выходной (кликните для просмотра)</li>
               <li>• <span className="inline-block w-2 h-2 rounded-full bg-green-600 dark:bg-green-500"></span> Зеленая точка - подтвержденный выходной (кликните для просмотра)</li>
+              <li>• <Lock size={12} className="inline" /> Закреплённые смены автогенерация оставляет без изменений (закрепить можно во всплывающем меню ячейки)</li>
+              <li>• <HelpCircle size={12} className="inline" /> «Почему так?» во всплывающем меню ячейки показывает, кого генератор рассматривал на смену и почему выбрал именно этого сотрудника</li>
               <li>• Статистика часов отображается вверху таблицы</li>
             </ul>
           </div>
@@ -531,6 +616,19 @@ export function ScheduleCalendar({
           canApprove={true} // TODO: Implement role-based permissions
         />
       )}
+
+      {/* Assignment Explanation */}
+      {explainingCell && (
+        <AssignmentExplanationModal
+          employeeId={explainingCell.employeeId}
+          day={explainingCell.day}
+          month={month}
+          year={year}
+          employees={employees}
+          shifts={shifts}
+          onClose={() => setExplainingCell(null)}
+        />
+      )}
     </div>
   );
 }
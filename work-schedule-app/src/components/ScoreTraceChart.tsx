@@ -0,0 +1,62 @@
+import { ScoreTracePoint } from '../services/api';
+
+const WIDTH = 300;
+const HEIGHT = 80;
+
+interface ScoreTraceChartProps {
+  trace: ScoreTracePoint[];
+}
+
+// График оценки по итерациям оптимизации: серая линия — текущее решение, зелёная — лучшее
+export function ScoreTraceChart({ trace }: ScoreTraceChartProps) {
+  const first = trace[0];
+  const last = trace[trace.length - 1];
+  const scores = trace.flatMap(point => [point.score, point.bestScore]);
+  const minScore = Math.min(...scores);
+  const maxScore = Math.max(...scores);
+  const iterationSpan = Math.max(1, last.iteration - first.iteration);
+  const scoreSpan = Math.max(1, maxScore - minScore);
+
+  const toPoints = (value: (point: ScoreTracePoint) => number) => trace
+    .map(point => {
+      const x = ((point.iteration - first.iteration) / iterationSpan) * WIDTH;
+      const y = HEIGHT - ((value(point) - minScore) / scoreSpan) * HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="mb-4 p-3 bg-white dark:bg-gray-800 rounded border border-green-200 dark:border-green-800">
+      <div className="flex items-center justify-between gap-2 mb-2 text-sm">
+        <span className="font-medium text-gray-700 dark:text-gray-300">Оценка по ходу оптимизации</span>
+        <span className="text-gray-600 dark:text-gray-400">
+          {Math.round(first.bestScore)} → {Math.round(last.bestScore)}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-20"
+      >
+        <polyline
+          points={toPoints(point => point.score)}
+          fill="none"
+          strokeWidth="1"
+          vectorEffect="non-scaling-stroke"
+          className="stroke-gray-400 dark:stroke-gray-500"
+        />
+        <polyline
+          points={toPoints(point => point.bestScore)}
+          fill="none"
+          strokeWidth="2"
+          vectorEffect="non-scaling-stroke"
+          className="stroke-green-600 dark:stroke-green-400"
+        />
+      </svg>
+      <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+        <span>Итераций: {last.iteration}</span>
+        <span>{(last.elapsedMs / 1000).toFixed(1)} с</span>
+      </div>
+    </div>
+  );
+}
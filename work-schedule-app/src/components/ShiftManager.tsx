@@ -1,7 +1,8 @@
-import { useState } from 'react';
-import { Plus, Edit2, Trash2, Palette } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, Trash2, Palette, Moon, Users } from 'lucide-react';
 import { HexColorPicker } from 'react-colorful';
-import { Shift } from '../types';
+import { Role, Shift } from '../types';
+import { roleApi } from '../services/api';
 
 interface ShiftManagerProps {
   shifts: Shift[];
@@ -17,21 +18,49 @@ const PRESET_COLORS = [
   '#EC4899', '#F43F5E', '#64748B', '#475569', '#1E293B'
 ];
 
+const EMPTY_FORM = {
+  name: '',
+  abbreviation: '',
+  color: '#3B82F6',
+  hours: 8,
+  startTime: '09:00',
+  endTime: '17:00',
+  minStaff: 1,
+  maxStaff: 10,
+  requiredRoles: [] as string[],
+  isNight: false,
+  coveragePriority: 1,
+  shiftDifficulty: 1
+};
+
 export function ShiftManager({ shifts, onAddShift, onEditShift, onDeleteShift }: ShiftManagerProps) {
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [formData, setFormData] = useState({
-    name: '',
-    abbreviation: '',
-    color: '#3B82F6',
-    hours: 8,
-    startTime: '09:00',
-    endTime: '17:00'
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
   const [showColorPicker, setShowColorPicker] = useState(false);
+  const [roles, setRoles] = useState<Role[]>([]);
+
+  useEffect(() => {
+    roleApi.getAll()
+      .then(setRoles)
+      .catch(err => console.error('Error loading roles:', err));
+  }, []);
+
+  const toggleRequiredRole = (roleName: string) => {
+    setFormData({
+      ...formData,
+      requiredRoles: formData.requiredRoles.includes(roleName)
+        ? formData.requiredRoles.filter(r => r !== roleName)
+        : [...formData.requiredRoles, roleName]
+    });
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (formData.maxStaff < formData.minStaff) {
+      alert('Максимум сотрудников не может быть меньше минимума');
+      return;
+    }
     if (formData.name && formData.abbreviation.length <= 2 && formData.hours >= 0) {
       if (editingId) {
         onEditShift(editingId, formData);
@@ -40,7 +69,7 @@ export function ShiftManager({ shifts, onAddShift, onEditShift, onDeleteShift }:
         onAddShift(formData);
         setIsAdding(false);
       }
-      setFormData({ name: '', abbreviation: '', color: '#3B82F6', hours: 8, startTime: '09:00', endTime: '17:00' });
+      setFormData(EMPTY_FORM);
       setShowColorPicker(false);
     }
   };
@@ -57,7 +86,13 @@ export function ShiftManager({ shifts, onAddShift, onEditShift, onDeleteShift }:
       color: shift.color,
       hours: shift.hours,
       startTime: shift.startTime || '09:00',
-      endTime: shift.endTime || '17:00'
+      endTime: shift.endTime || '17:00',
+      minStaff: shift.minStaff ?? EMPTY_FORM.minStaff,
+      maxStaff: shift.maxStaff ?? EMPTY_FORM.maxStaff,
+      requiredRoles: shift.requiredRoles ?? [],
+      isNight: shift.isNight ?? false,
+      coveragePriority: shift.coveragePriority ?? EMPTY_FORM.coveragePriority,
+      shiftDifficulty: shift.shiftDifficulty ?? EMPTY_FORM.shiftDifficulty
     });
     setIsAdding(true);
   };
@@ -65,7 +100,7 @@ export function ShiftManager({ shifts, onAddShift, onEditShift, onDeleteShift }:
   const handleCancel = () => {
     setIsAdding(false);
     setEditingId(null);
-    setFormData({ name: '', abbreviation: '', color: '#3B82F6', hours: 8, startTime: '09:00', endTime: '17:00' });
+    setFormData(EMPTY_FORM);
     setShowColorPicker(false);
   };
 
@@ -222,6 +257,84 @@ export function ShiftManager({ shifts, onAddShift, onEditShift, onDeleteShift }:
           </div>
           <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Установите время начала и окончания смены, а также количество рабочих часов</p>
 
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Мин. сотрудников</label>
+              <input
+                type="number"
+                value={formData.minStaff}
+                onChange={(e) => setFormData({ ...formData, minStaff: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                min="0"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Макс. сотрудников</label>
+              <input
+                type="number"
+                value={formData.maxStaff}
+                onChange={(e) => setFormData({ ...formData, maxStaff: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                min="0"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Приоритет покрытия</label>
+              <input
+                type="number"
+                value={formData.coveragePriority}
+                onChange={(e) => setFormData({ ...formData, coveragePriority: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                min="0"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Сложность</label>
+              <input
+                type="number"
+                value={formData.shiftDifficulty}
+                onChange={(e) => setFormData({ ...formData, shiftDifficulty: parseFloat(e.target.value) || 1 })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                min="0.1"
+                max="9.99"
+                step="0.1"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.isNight}
+              onChange={(e) => setFormData({ ...formData, isNight: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            Ночная смена
+          </label>
+
+          {roles.length > 0 && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Обязательные роли на смене</label>
+              <div className="flex flex-wrap gap-2">
+                {roles.map((role) => (
+                  <button
+                    key={role.id}
+                    type="button"
+                    onClick={() => toggleRequiredRole(role.name)}
+                    className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                      formData.requiredRoles.includes(role.name)
+                        ? 'bg-blue-500 dark:bg-blue-600 text-white border-blue-500 dark:border-blue-600'
+                        : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:border-blue-500'
+                    }`}
+                  >
+                    {role.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Параметры укомплектования используются автопланировщиком: смены с более высоким приоритетом заполняются первыми</p>
+
           <div className="flex flex-col sm:flex-row gap-2">
             <button
               type="submit"
@@ -266,7 +379,23 @@ export function ShiftManager({ shifts, onAddShift, onEditShift, onDeleteShift }:
                     {shift.startTime} - {shift.endTime}
                   </p>
                 )}
-                <p className="text-xs md:text-sm font-semibold text-blue-600 dark:text-blue-400 mt-1">{shift.hours} ч</p>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  <p className="text-xs md:text-sm font-semibold text-blue-600 dark:text-blue-400">{shift.hours} ч</p>
+                  {shift.minStaff !== undefined && shift.maxStaff !== undefined && (
+                    <span className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400" title="Сотрудников на смене">
+                      <Users size={12} />
+                      {shift.minStaff}–{shift.maxStaff}
+                    </span>
+                  )}
+                  {shift.isNight && (
+                    <span className="flex items-center text-xs text-indigo-600 dark:text-indigo-400" title="Ночная смена">
+                      <Moon size={12} />
+                    </span>
+                  )}
+                </div>
+                {shift.requiredRoles && shift.requiredRoles.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">Роли: {shift.requiredRoles.join(', ')}</p>
+                )}
               </div>
             </div>
             <div className="flex gap-2 w-full sm:w-auto justify-end">
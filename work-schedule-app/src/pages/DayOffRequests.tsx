@@ -3,8 +3,8 @@ import { Link } from 'react-router-dom';
 import { Home, Settings as SettingsIcon, PlusCircle, Calendar, User, MessageSquare, CheckCircle, XCircle, Clock, Edit2, Trash2 } from 'lucide-react';
 import { DayOffRequestModal } from '../components/DayOffRequestModal';
 import { DayOffRequestViewer } from '../components/DayOffRequestViewer';
-import { employeeApi, preferenceReasonsApi, preferencesApi } from '../services/api';
-import { Employee, PreferenceReason, EmployeePreference, EmployeePreferenceInput } from '../types';
+import { employeeApi, preferenceReasonsApi, preferencesApi, shiftsApi } from '../services/api';
+import { Employee, PreferenceReason, EmployeePreference, EmployeePreferenceInput, Shift } from '../types';
 
 export default function DayOffRequests() {
   const [requestModalOpen, setRequestModalOpen] = useState(false);
@@ -13,6 +13,7 @@ export default function DayOffRequests() {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [reasons, setReasons] = useState<PreferenceReason[]>([]);
   const [preferences, setPreferences] = useState<EmployeePreference[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('all');
 
@@ -23,14 +24,16 @@ export default function DayOffRequests() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [employeesData, reasonsData, preferencesData] = await Promise.all([
+      const [employeesData, reasonsData, preferencesData, shiftsData] = await Promise.all([
         employeeApi.getAll(),
         preferenceReasonsApi.getAll(),
         preferencesApi.getAll(),
+        shiftsApi.getAll(),
       ]);
       setEmployees(employeesData);
       setReasons(reasonsData);
       setPreferences(preferencesData);
+      setShifts(shiftsData);
     } catch (err) {
       console.error('Failed to load data:', err);
     } finally {
@@ -135,6 +138,24 @@ export default function DayOffRequests() {
     return date.toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric' });
   };
 
+  // Дата запроса выходного или период пожелания смены
+  const formatPreferenceDate = (pref: EmployeePreference) => {
+    if (pref.targetDate) return formatDate(pref.targetDate);
+    if (pref.preferenceType === 'day_off') return 'Не указана';
+    if (pref.preferenceStartDate && pref.preferenceEndDate) {
+      return `с ${formatDate(pref.preferenceStartDate)} по ${formatDate(pref.preferenceEndDate)}`;
+    }
+    if (pref.preferenceStartDate) return `с ${formatDate(pref.preferenceStartDate)}`;
+    if (pref.preferenceEndDate) return `по ${formatDate(pref.preferenceEndDate)}`;
+    return 'Без срока';
+  };
+
+  const getPreferenceLabel = (pref: EmployeePreference) => {
+    if (pref.preferenceType === 'day_off') return null;
+    const shiftName = shifts.find(s => s.id === pref.targetShiftId)?.name || pref.targetShiftId;
+    return pref.preferenceType === 'preferred_shift' ? `Хочет: ${shiftName}` : `Избегает: ${shiftName}`;
+  };
+
   const getEmployeeName = (employeeId: string) => {
     const employee = employees.find(e => e.id === employeeId);
     return employee?.name || 'Неизвестный сотрудник';
@@ -287,9 +308,14 @@ export default function DayOffRequests() {
                       <td className="px-4 py-3 whitespace-nowrap">
                         <div className="flex items-center gap-2">
                           <Calendar size={16} className="text-gray-400 dark:text-gray-500" />
-                          <span className="text-sm text-gray-700 dark:text-gray-300">
-                            {pref.targetDate ? formatDate(pref.targetDate) : 'Не указана'}
-                          </span>
+                          <div>
+                            <span className="text-sm text-gray-700 dark:text-gray-300">
+                              {formatPreferenceDate(pref)}
+                            </span>
+                            {getPreferenceLabel(pref) && (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">{getPreferenceLabel(pref)}</p>
+                            )}
+                          </div>
                         </div>
                       </td>
                       <td className="px-4 py-3 whitespace-nowrap">
@@ -396,6 +422,7 @@ export default function DayOffRequests() {
         <DayOffRequestModal
           employees={employees}
           reasons={reasons}
+          shifts={shifts}
           request={editingRequest}
           onSave={handleUpdateRequest}
           onClose={() => {
@@ -83,6 +83,16 @@ export default function Schedule() {
     }
   };
 
+  const handleScheduleLockToggle = async (entry: ScheduleEntry) => {
+    try {
+      const updated = await scheduleApi.setLocked(entry.id!, !entry.isLocked);
+      setSchedule(schedule.map((e) => (e.id === updated.id ? updated : e)));
+    } catch (err) {
+      console.error('Failed to toggle schedule entry lock:', err);
+      alert('Ошибка при закреплении смены');
+    }
+  };
+
   const handleScheduleRemove = async (employeeId: string, day: number, month: number, year: number) => {
     try {
       await scheduleApi.deleteByDateAndEmployee(employeeId, day, month, year);
@@ -133,7 +143,7 @@ export default function Schedule() {
 
   // AutoSched handlers
   const handleScheduleGenerated = async (_result: AutoScheduleResult) => {
-    // Reload schedule data after generation
+    // Reload schedule data after a generated draft is applied
     await loadData();
     // setScheduleViolations(result.violations);
     // setScheduleMetrics(result.metrics);
@@ -196,6 +206,7 @@ export default function Schedule() {
             employees={employees}
             shifts={shifts}
             onScheduleGenerated={handleScheduleGenerated}
+            onScheduleRestored={loadData}
             onValidationComplete={handleValidationComplete}
           />
         </div>
@@ -247,6 +258,7 @@ export default function Schedule() {
                   reasons={reasons}
                   onScheduleChange={handleScheduleChange}
                   onScheduleRemove={handleScheduleRemove}
+                  onScheduleLockToggle={handleScheduleLockToggle}
                   onPreferencesChange={loadData}
                   onMonthChange={handleMonthChange}
                 />
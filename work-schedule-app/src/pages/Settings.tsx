@@ -1,12 +1,14 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Save, Plus, Trash2, Database, AlertTriangle, Settings as SettingsIcon } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Database, AlertTriangle, Settings as SettingsIcon } from 'lucide-react';
 import ThemeToggle from '../components/ThemeToggle';
 import DraggableList from '../components/DraggableList';
 import { ShiftManager } from '../components/ShiftManager';
+import { OperatingCalendarManager } from '../components/OperatingCalendarManager';
+import { ProductionCalendarImport } from '../components/ProductionCalendarImport';
 import { PreferenceReasonModal } from '../components/PreferenceReasonModal';
 import ValidationRulesManager from '../ValidationRulesManager';
-import { preferenceReasonsApi, settingsApi, shiftsApi, databaseApi } from '../services/api';
+import { preferenceReasonsApi, shiftsApi, databaseApi } from '../services/api';
 import type { PreferenceReason, Shift } from '../types';
 
 type Tab = 'general' | 'shifts' | 'reasons' | 'validation' | 'database';
@@ -16,10 +18,7 @@ export default function Settings() {
   const [tab, setTab] = useState<Tab>('general');
   const [reasons, setReasons] = useState<PreferenceReason[]>([]);
   const [shifts, setShifts] = useState<Shift[]>([]);
-  const [businessHoursStart, setBusinessHoursStart] = useState('08:00');
-  const [businessHoursEnd, setBusinessHoursEnd] = useState('22:00');
   const [loading, setLoading] = useState(false);
-  const [saving, setSaving] = useState(false);
   const [reasonModalOpen, setReasonModalOpen] = useState(false);
   const [editingReason, setEditingReason] = useState<PreferenceReason | null>(null);
   const [dbStats, setDbStats] = useState<any>(null);
@@ -39,19 +38,12 @@ export default function Settings() {
   const loadData = async () => {
     setLoading(true);
     try {
-      const [reasonsData, shiftsData, businessHoursData] = await Promise.all([
+      const [reasonsData, shiftsData] = await Promise.all([
         preferenceReasonsApi.getAll(),
         shiftsApi.getAll(),
-        settingsApi.getBulk(['business_hours_start', 'business_hours_end']),
       ]);
       setReasons(reasonsData);
       setShifts(shiftsData);
-
-      // Загружаем часы работы
-      const startSetting = businessHoursData.find(s => s.key === 'business_hours_start');
-      const endSetting = businessHoursData.find(s => s.key === 'business_hours_end');
-      if (startSetting) setBusinessHoursStart(JSON.parse(startSetting.value));
-      if (endSetting) setBusinessHoursEnd(JSON.parse(endSetting.value));
     } catch (err) {
       console.error('Failed to load settings:', err);
     } finally {
@@ -180,45 +172,6 @@ export default function Settings() {
     }
   };
 
-  // Business hours handlers
-  const saveBusinessHours = async () => {
-    setSaving(true);
-    try {
-      // Используем upsert логику - пытаемся обновить, если не получается - создаём
-      const saveOne = async (key: string, value: string, description: string) => {
-        try {
-          await settingsApi.update(key, value, description);
-        } catch (err: any) {
-          // Если настройка не найдена, создаём её
-          if (err.status === 404) {
-            await settingsApi.create({ key, value, description });
-          } else {
-            throw err;
-          }
-        }
-      };
-
-      await Promise.all([
-        saveOne(
-          'business_hours_start',
-          JSON.stringify(businessHoursStart),
-          'Время начала работы предприятия'
-        ),
-        saveOne(
-          'business_hours_end',
-          JSON.stringify(businessHoursEnd),
-          'Время окончания работы предприятия'
-        ),
-      ]);
-      alert('Часы работы сохранены');
-    } catch (err) {
-      console.error('Failed to save business hours:', err);
-      alert('Ошибка при сохранении часов работы');
-    } finally {
-      setSaving(false);
-    }
-  };
-
   
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
@@ -275,46 +228,14 @@ export default function Settings() {
 
             {tab === 'shifts' && (
               <div className="space-y-6">
-                {/* Business Hours Section */}
+                {/* Operating Calendar Section */}
                 <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 md:p-6">
-                  <h2 className="text-lg md:text-xl font-bold mb-3 md:mb-4 text-gray-900 dark:text-gray-100">
-                    Часы работы предприятия
-                  </h2>
-                  <p className="text-xs md:text-sm text-gray-600 dark:text-gray-400 mb-3 md:mb-4">
-                    Установите время начала и окончания работы предприятия
-                  </p>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                    <div>
-                      <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
-                        Начало работы
-                      </label>
-                      <input
-                        type="time"
-                        value={businessHoursStart}
-                        onChange={(e) => setBusinessHoursStart(e.target.value)}
-                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
-                        Окончание работы
-                      </label>
-                      <input
-                        type="time"
-                        value={businessHoursEnd}
-                        onChange={(e) => setBusinessHoursEnd(e.target.value)}
-                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    </div>
-                  </div>
-                  <button
-                    onClick={saveBusinessHours}
-                    disabled={saving}
-                    className="flex items-center gap-2 px-3 md:px-4 py-2 bg-blue-500 dark:bg-blue-600 text-white rounded-lg hover:bg-blue-600 dark:hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base w-full sm:w-auto"
-                  >
-                    <Save className="w-4 h-4 md:w-5 md:h-5" />
-                    <span>{saving ? 'Сохранение...' : 'Сохранить часы работы'}</span>
-                  </button>
+                  <OperatingCalendarManager />
+                </div>
+
+                {/* Production Calendar Section */}
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 md:p-6">
+                  <ProductionCalendarImport />
                 </div>
 
                 {/* Shifts Manager Section */}
@@ -349,7 +270,7 @@ export default function Settings() {
                   </button>
                 </div>
                 <p className="text-xs md:text-sm text-gray-600 dark:text-gray-400 mb-3 md:mb-4">
-                  Перетаскивайте причины для изменения приоритета (верхние = выше приоритет)
+                  Перетаскивайте причины для изменения приоритета (верхние = выше приоритет). Генератор графика сильнее учитывает пожелания с более приоритетными причинами
                 </p>
                 <DraggableList
                   items={reasons}
@@ -3,6 +3,13 @@ import {
   Shift,
   ScheduleEntry,
   AppSetting,
+  OperatingDay,
+  OperatingCalendarOverride,
+  OperatingCalendarOverrideInput,
+  ProductionCalendarMonth,
+  ProductionCalendarYear,
+  EmployeeAvailability,
+  EmployeeAvailabilityInput,
   EmployeePreference,
   EmployeePreferenceInput,
   PreferenceReason,
@@ -18,11 +25,28 @@ export interface AutoScheduleGenerationOptions {
   options?: {
     algorithm?: 'greedy' | 'constraint' | 'hybrid';
     optimizationFocus?: 'coverage' | 'balance' | 'preferences';
+    objectiveWeights?: ObjectiveWeights;
     maxIterations?: number;
     timeoutMs?: number;
+    scope?: GenerationScope;
   };
 }
 
+// Веса целевой функции генератора (0-10); значения по умолчанию хранятся в настройках
+export interface ObjectiveWeights {
+  coverage: number;
+  fairness: number;
+  preferences: number;
+  cost: number;
+}
+
+// Partial regeneration: only these days/employees are rebuilt, the rest of the month is kept
+export interface GenerationScope {
+  startDay?: number;
+  endDay?: number;
+  employeeIds?: string[];
+}
+
 export interface AutoScheduleResult {
   success: boolean;
   generationId: number;
@@ -32,9 +56,63 @@ export interface AutoScheduleResult {
   violations: RuleViolation[];
   metrics: ScheduleMetrics;
   generationTime: number;
+  scoreTrace: ScoreTracePoint[];
   message: string;
 }
 
+// Оценка графика по ходу метаэвристики: текущее решение и лучшее найденное
+export interface ScoreTracePoint {
+  iteration: number;
+  elapsedMs: number;
+  score: number;
+  bestScore: number;
+}
+
+export type GenerationStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationProgress {
+  phase: 'loading' | 'scheduling' | 'optimizing' | 'validating';
+  iteration: number;
+  bestScore: number | null;
+}
+
+export interface AutoScheduleGenerationStart {
+  success: boolean;
+  generationId: number;
+  status: GenerationStatus;
+  month: number;
+  year: number;
+  message: string;
+}
+
+// Состояние фоновой генерации; поля результата появляются после завершения
+export interface AutoScheduleGenerationState extends Partial<Omit<AutoScheduleResult, 'generationId' | 'month' | 'year'>> {
+  success: boolean;
+  generationId: number;
+  month: number;
+  year: number;
+  status: GenerationStatus;
+  progress: GenerationProgress | null;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  draftStatus: DraftStatus | null;
+}
+
+export type DraftStatus = 'draft' | 'applied' | 'discarded' | 'reverted';
+
+export interface ScheduleDraftDiff {
+  success: boolean;
+  generationId: number;
+  month: number;
+  year: number;
+  draftStatus: DraftStatus;
+  added: Pick<ScheduleEntry, 'employeeId' | 'day' | 'shiftId'>[];
+  removed: Pick<ScheduleEntry, 'employeeId' | 'day' | 'shiftId'>[];
+  changed: { employeeId: string; day: number; fromShiftId: string; toShiftId: string }[];
+  unchangedCount: number;
+}
+
 export interface RuleViolation {
   ruleType: string;
   severity: 'error' | 'warning';
@@ -74,6 +152,109 @@ export interface OptimizationSuggestion {
   description: string;
 }
 
+// Разбивка оценки кандидата на смену
+export interface ScoreBreakdown {
+  base: number;
+  preference: number;
+  balance: number;
+  weeklyMinimum: number;
+  fairness: number;
+  role: number;
+  consecutive: number;
+  total: number;
+}
+
+export interface CandidateExplanation {
+  employeeId: string;
+  selected: boolean;
+  score?: ScoreBreakdown;
+  rejection?: string; // Причина, по которой сотрудник не мог занять смену
+}
+
+// Одно решение генератора по смене дня, в порядке принятия решений
+export interface AssignmentExplanation {
+  day: number;
+  shiftId: string;
+  source: 'greedy' | 'constraint' | 'optimizer';
+  employeeIds: string[];
+  unfilled: number;
+  candidates: CandidateExplanation[];
+  note?: string;
+}
+
+export interface AssignmentExplanations {
+  success: boolean;
+  month: number;
+  year: number;
+  day: number;
+  generationId: number | null;
+  draftStatus: DraftStatus | null;
+  appliedAt: string | null;
+  explanations: AssignmentExplanation[];
+}
+
+// Диагностика невыполнимого месяца
+export type FeasibilityLimit = 'consecutive_days' | 'weekly_shifts' | 'weekly_hours' | 'monthly_hours';
+
+export interface ConflictCause {
+  type: 'rule' | 'staffing' | 'day_off' | 'limit' | 'contract';
+  ruleId?: number;
+  shiftId?: string;
+  employeeId?: string;
+  description: string;
+}
+
+export interface InfeasibilityConflict {
+  type: 'daily_staffing' | 'role_staffing' | 'manager_staffing' | 'monthly_capacity';
+  day?: number;
+  role?: string;
+  required: number;
+  available: number;
+  causes: ConflictCause[];
+  message: string;
+}
+
+export interface Relaxation {
+  type: 'hire' | 'raise_limit' | 'lower_staffing' | 'reject_day_offs';
+  limit?: FeasibilityLimit;
+  role?: string;
+  from?: number;
+  to?: number;
+  count?: number;
+  cost: number; // Относительный размер изменения, меньше — дешевле
+  remainingConflicts: number;
+  description: string;
+}
+
+export interface InfeasibilityDiagnosis {
+  success: boolean;
+  feasible: boolean;
+  conflicts: InfeasibilityConflict[];
+  relaxations: Relaxation[];
+  cheapest: Relaxation | null;
+}
+
+export interface FairnessReportRow {
+  employee_id: string;
+  employee_name: string;
+  role_name?: string;
+  night_shifts: number;
+  weekend_shifts: number;
+  holiday_shifts: number;
+  months_counted: number;
+  burden_score: number;
+  deviation: number; // Отклонение от среднего по команде
+}
+
+export interface FairnessReport {
+  success: boolean;
+  month: number;
+  year: number;
+  months: number;
+  averageBurden: number;
+  employees: FairnessReportRow[];
+}
+
 // API URL - всегда используем относительный путь
 // В development Vite проксирует /api на http://localhost:3001 (см. vite.config.ts)
 // В production Nginx проксирует /api на backend контейнер
@@ -217,6 +398,15 @@ export const scheduleApi = {
     return handleResponse<ScheduleEntry>(response);
   },
 
+  setLocked: async (id: number, locked: boolean): Promise<ScheduleEntry> => {
+    const response = await fetch(`${API_URL}/schedule/${id}/lock`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ locked }),
+    });
+    return handleResponse<ScheduleEntry>(response);
+  },
+
   delete: async (id: number): Promise<void> => {
     const response = await fetch(`${API_URL}/schedule/${id}`, {
       method: 'DELETE',
@@ -288,6 +478,118 @@ export const settingsApi = {
   },
 };
 
+// === Operating Calendar API ===
+
+export const operatingCalendarApi = {
+  getWeek: async (): Promise<OperatingDay[]> => {
+    const response = await fetch(`${API_URL}/operating-calendar`);
+    const data = await handleResponse<{ week: OperatingDay[] }>(response);
+    return data.week;
+  },
+
+  updateWeek: async (week: OperatingDay[]): Promise<OperatingDay[]> => {
+    const response = await fetch(`${API_URL}/operating-calendar`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ week }),
+    });
+    const data = await handleResponse<{ week: OperatingDay[] }>(response);
+    return data.week;
+  },
+
+  getOverrides: async (filters?: { startDate?: string; endDate?: string }): Promise<OperatingCalendarOverride[]> => {
+    const params = new URLSearchParams();
+    if (filters?.startDate) params.append('startDate', filters.startDate);
+    if (filters?.endDate) params.append('endDate', filters.endDate);
+
+    const queryString = params.toString();
+    const response = await fetch(`${API_URL}/operating-calendar/overrides${queryString ? `?${queryString}` : ''}`);
+    return handleResponse<OperatingCalendarOverride[]>(response);
+  },
+
+  // Исключение на уже занятую дату заменяет существующее
+  saveOverride: async (override: OperatingCalendarOverrideInput): Promise<OperatingCalendarOverride> => {
+    const response = await fetch(`${API_URL}/operating-calendar/overrides`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(override),
+    });
+    return handleResponse<OperatingCalendarOverride>(response);
+  },
+
+  deleteOverride: async (id: number): Promise<void> => {
+    const response = await fetch(`${API_URL}/operating-calendar/overrides/${id}`, {
+      method: 'DELETE',
+    });
+    return handleResponse<void>(response);
+  },
+};
+
+// === Employee Availability API ===
+
+export const availabilityApi = {
+  getByEmployee: async (employeeId: string): Promise<EmployeeAvailability[]> => {
+    const response = await fetch(`${API_URL}/availability?employeeId=${encodeURIComponent(employeeId)}`);
+    return handleResponse<EmployeeAvailability[]>(response);
+  },
+
+  create: async (availability: EmployeeAvailabilityInput): Promise<EmployeeAvailability> => {
+    const response = await fetch(`${API_URL}/availability`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(availability),
+    });
+    return handleResponse<EmployeeAvailability>(response);
+  },
+
+  update: async (id: number, availability: Omit<EmployeeAvailabilityInput, 'employeeId'>): Promise<EmployeeAvailability> => {
+    const response = await fetch(`${API_URL}/availability/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(availability),
+    });
+    return handleResponse<EmployeeAvailability>(response);
+  },
+
+  delete: async (id: number): Promise<void> => {
+    const response = await fetch(`${API_URL}/availability/${id}`, {
+      method: 'DELETE',
+    });
+    return handleResponse<void>(response);
+  },
+};
+
+// === Production Calendar API ===
+
+export const productionCalendarApi = {
+  getMonth: async (month: number, year: number): Promise<ProductionCalendarMonth> => {
+    const response = await fetch(`${API_URL}/production-calendar?month=${month}&year=${year}`);
+    return handleResponse<ProductionCalendarMonth>(response);
+  },
+
+  getYears: async (): Promise<ProductionCalendarYear[]> => {
+    const response = await fetch(`${API_URL}/production-calendar/years`);
+    return handleResponse<ProductionCalendarYear[]>(response);
+  },
+
+  // Содержимое XML/JSON файла; данные за те же годы заменяются
+  import: async (content: string): Promise<{ message: string; years: number[]; imported: number }> => {
+    const response = await fetch(`${API_URL}/production-calendar/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content }),
+    });
+    return handleResponse<{ message: string; years: number[]; imported: number }>(response);
+  },
+
+  deleteYear: async (year: number): Promise<void> => {
+    const response = await fetch(`${API_URL}/production-calendar/${year}`, {
+      method: 'DELETE',
+    });
+    return handleResponse<void>(response);
+  },
+};
+
 
 // === Employee Preferences API ===
 
@@ -488,8 +790,8 @@ export const databaseApi = {
 // === AutoSchedule API ===
 
 export const autoScheduleApi = {
-  // Generate schedule for a specific month/year
-  generateSchedule: async (options: AutoScheduleGenerationOptions): Promise<AutoScheduleResult> => {
+  // Start background generation for a specific month/year
+  generateSchedule: async (options: AutoScheduleGenerationOptions): Promise<AutoScheduleGenerationStart> => {
     const response = await fetch(`${API_URL}/auto-schedule/generate`, {
       method: 'POST',
       headers: {
@@ -497,7 +799,65 @@ export const autoScheduleApi = {
       },
       body: JSON.stringify(options),
     });
-    return handleResponse<AutoScheduleResult>(response);
+    return handleResponse<AutoScheduleGenerationStart>(response);
+  },
+
+  // Get status, progress and result of a background generation
+  getGeneration: async (generationId: number): Promise<AutoScheduleGenerationState> => {
+    const response = await fetch(`${API_URL}/auto-schedule/generations/${generationId}`);
+    return handleResponse<AutoScheduleGenerationState>(response);
+  },
+
+  // Cancel a running generation
+  cancelGeneration: async (generationId: number): Promise<{ success: boolean; generationId: number; message: string }> => {
+    const response = await fetch(`${API_URL}/auto-schedule/generations/${generationId}/cancel`, {
+      method: 'POST',
+    });
+    return handleResponse<{ success: boolean; generationId: number; message: string }>(response);
+  },
+
+  // Compare a generated draft with the current schedule
+  getDraftDiff: async (generationId: number): Promise<ScheduleDraftDiff> => {
+    const response = await fetch(`${API_URL}/auto-schedule/generations/${generationId}/diff`);
+    return handleResponse<ScheduleDraftDiff>(response);
+  },
+
+  // Replace the month's schedule with a generated draft
+  applyDraft: async (generationId: number): Promise<{ success: boolean; appliedEntries: number; message: string }> => {
+    const response = await fetch(`${API_URL}/auto-schedule/generations/${generationId}/apply`, {
+      method: 'POST',
+    });
+    return handleResponse<{ success: boolean; appliedEntries: number; message: string }>(response);
+  },
+
+  // Discard a generated draft
+  discardDraft: async (generationId: number): Promise<{ success: boolean; message: string }> => {
+    const response = await fetch(`${API_URL}/auto-schedule/generations/${generationId}/discard`, {
+      method: 'POST',
+    });
+    return handleResponse<{ success: boolean; message: string }>(response);
+  },
+
+  // Explain the generator's decisions for a cell of the last applied draft
+  getExplanations: async (month: number, year: number, day: number, employeeId?: string): Promise<AssignmentExplanations> => {
+    let url = `${API_URL}/auto-schedule/explanations?month=${month}&year=${year}&day=${day}`;
+    if (employeeId) {
+      url += `&employee_id=${employeeId}`;
+    }
+    const response = await fetch(url);
+    return handleResponse<AssignmentExplanations>(response);
+  },
+
+  // Restore the schedule that was in place before the last applied draft
+  restorePreviousSchedule: async (month: number, year: number): Promise<{ success: boolean; restoredEntries: number; message: string }> => {
+    const response = await fetch(`${API_URL}/auto-schedule/restore-previous`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ month, year }),
+    });
+    return handleResponse<{ success: boolean; restoredEntries: number; message: string }>(response);
   },
 
   // Get generation history and status
@@ -550,6 +910,18 @@ export const autoScheduleApi = {
     }>(response);
   },
 
+  // Find conflicting rules, staffing levels and day-offs that make the month infeasible
+  diagnoseSchedule: async (month: number, year: number): Promise<InfeasibilityDiagnosis> => {
+    const response = await fetch(`${API_URL}/auto-schedule/diagnose`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ month, year }),
+    });
+    return handleResponse<InfeasibilityDiagnosis>(response);
+  },
+
   // Apply specific optimization to schedule
   optimizeSchedule: async (month: number, year: number, optimizationType: string, constraints: any = {}): Promise<{
     success: boolean;
@@ -589,6 +961,7 @@ export const autoScheduleApi = {
       consecutive_days_max: number;
       night_shifts_count: number;
       weekend_shifts_count: number;
+      holiday_shifts_count: number;
       preference_satisfaction_rate: number;
       workload_score: number;
     }>;
@@ -612,12 +985,43 @@ export const autoScheduleApi = {
         consecutive_days_max: number;
         night_shifts_count: number;
         weekend_shifts_count: number;
+        holiday_shifts_count: number;
         preference_satisfaction_rate: number;
         workload_score: number;
       }>;
     }>(response);
   },
 
+  // Get the default weights of the schedule objective
+  getObjectiveWeights: async (): Promise<ObjectiveWeights> => {
+    const response = await fetch(`${API_URL}/auto-schedule/objective-weights`);
+    const data = await handleResponse<{ success: boolean; weights: ObjectiveWeights }>(response);
+    return data.weights;
+  },
+
+  // Save the default weights of the schedule objective
+  saveObjectiveWeights: async (weights: ObjectiveWeights): Promise<ObjectiveWeights> => {
+    const response = await fetch(`${API_URL}/auto-schedule/objective-weights`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ weights }),
+    });
+    const data = await handleResponse<{ success: boolean; weights: ObjectiveWeights }>(response);
+    return data.weights;
+  },
+
+  // Get cumulative night/weekend/holiday burden over the months ending with month/year
+  getFairnessReport: async (month: number, year: number, months?: number): Promise<FairnessReport> => {
+    let url = `${API_URL}/auto-schedule/fairness?month=${month}&year=${year}`;
+    if (months) {
+      url += `&months=${months}`;
+    }
+    const response = await fetch(url);
+    return handleResponse<FairnessReport>(response);
+  },
+
   // Get available schedule templates
   getScheduleTemplates: async (): Promise<{ success: boolean; templates: Array<any> }> => {
     const response = await fetch(`${API_URL}/auto-schedule/templates`);
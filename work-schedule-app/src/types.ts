@@ -39,14 +39,44 @@ export interface Shift {
   startTime?: string; // HH:MM формат
   endTime?: string;   // HH:MM формат
   isDefault?: boolean; // if true, this shift cannot be edited or deleted
+  minStaff?: number;          // Минимум сотрудников на смене
+  maxStaff?: number;          // Максимум сотрудников на смене
+  requiredRoles?: string[];   // Названия ролей, обязательных на смене
+  isNight?: boolean;          // Ночная смена
+  coveragePriority?: number;  // Приоритет покрытия (больше = важнее)
+  shiftDifficulty?: number;   // Сложность смены для балансировки нагрузки
 }
 
+// Трудовой договор сотрудника
+export interface EmploymentContract {
+  rate: number;                 // Ставка: 1 - полная, 0.5 - половина ставки
+  targetMonthlyHours?: number;  // Целевые часы в месяц (не задано - норма месяца × ставка)
+  minWeeklyHours?: number;
+  maxWeeklyHours?: number;
+}
+
+// Регулярная доступность сотрудника: окно времени в день недели
+// Если у сотрудника есть окна, действующие на дату, смены ставятся только внутри них
+export interface EmployeeAvailability {
+  id: number;
+  employeeId: string;
+  weekday: number;    // 0 - воскресенье (как Date.getDay())
+  startTime: string;  // HH:MM
+  endTime: string;    // HH:MM; раньше startTime - до следующих суток
+  validFrom?: string; // YYYY-MM-DD, не задано - без ограничения
+  validTo?: string;
+  note?: string;
+}
+
+export type EmployeeAvailabilityInput = Omit<EmployeeAvailability, 'id'>;
+
 export interface Employee {
   id: string;
   name: string;
   roleId?: number;                  // Ссылка на роль
   role?: Role;                      // Объект роли (при JOIN запросах)
   excludeFromHours?: boolean; // if true, this employee's hours won't be counted (УМ/ЗУМ)
+  contract?: EmploymentContract;
 }
 
 export interface ScheduleEntry {
@@ -56,6 +86,7 @@ export interface ScheduleEntry {
   month: number; // 0-11 (JavaScript month format)
   year: number;
   shiftId: string;
+  isLocked?: boolean; // Закреплено вручную, автогенерация не меняет
   created_at?: string;
   updated_at?: string;
 }
@@ -74,6 +105,60 @@ export interface AppSetting {
   description?: string;
 }
 
+// Календарь работы предприятия (GET /api/operating-calendar)
+export interface OperatingDay {
+  open: boolean;
+  start: string; // HH:MM
+  end: string;   // HH:MM
+}
+
+// Исключение на конкретную дату: закрыто или другие часы работы
+export interface OperatingCalendarOverride {
+  id: number;
+  date: string; // YYYY-MM-DD
+  isClosed: boolean;
+  startTime?: string; // Не задано - часы обычного дня недели
+  endTime?: string;
+  note?: string;
+}
+
+export interface OperatingCalendarOverrideInput {
+  date: string;
+  isClosed?: boolean;
+  startTime?: string;
+  endTime?: string;
+  note?: string;
+}
+
+// Производственный календарь (GET /api/production-calendar)
+// holiday - праздник или перенесённый выходной, shortened - предпраздничный день (на 1 час короче),
+// working - выходной, перенесённый на рабочий день
+export type ProductionDayType = 'holiday' | 'shortened' | 'working';
+
+export interface ProductionCalendarDay {
+  date: string; // YYYY-MM-DD
+  type: ProductionDayType;
+  title?: string;
+}
+
+export interface ProductionCalendarMonth {
+  month: number;
+  year: number;
+  days: ProductionCalendarDay[];
+  norm: {
+    workingDays: number;
+    shortenedDays: number;
+    normHours: number; // При 40-часовой неделе
+  };
+}
+
+export interface ProductionCalendarYear {
+  year: number;
+  holidays: number;
+  shortened: number;
+  working: number;
+}
+
 
 // Причины для запросов сотрудников
 export interface PreferenceReason {
@@ -100,6 +185,9 @@ export interface EmployeePreference {
   employeeId: string;
   preferenceType: PreferenceType;
   targetDate?: string; // ISO date string (YYYY-MM-DD)
+  // Период пожелания смены без targetDate; незаданная граница - без ограничения
+  preferenceStartDate?: string;
+  preferenceEndDate?: string;
   targetShiftId?: string;
   reasonId?: number;
   priority: number;
@@ -111,6 +199,8 @@ export interface EmployeePreferenceInput {
   employeeId: string;
   preferenceType: PreferenceType;
   targetDate?: string;
+  preferenceStartDate?: string;
+  preferenceEndDate?: string;
   targetShiftId?: string;
   reasonId?: number;
   priority?: number;
@@ -146,16 +236,45 @@ export type ValidationRuleType =
 
 export type EnforcementType = 'warning' | 'error' | 'info';
 
+// Реестр типов правил (GET /api/validation-rules/types)
+export type RuleGeneratorHint = 'incremental' | 'coverage' | 'day_off' | 'final';
+
+export interface RuleConfigField {
+  name: string;
+  type: 'number' | 'string' | 'boolean' | 'array' | 'object';
+  required?: boolean;
+  min?: number;
+  label: string;
+  input: 'number' | 'text' | 'select' | 'checkbox' | 'weekdays' | 'list' | 'json';
+  default?: unknown;
+  options?: Array<{ value: string; label: string }>;
+  hint?: string;
+}
+
+// Подстановки в пользовательском сообщении о нарушении: {employee}, {day}, ...
+export type MessagePlaceholder = 'employee' | 'day' | 'date' | 'shift' | 'actual' | 'limit';
+
+export interface RuleTypeDefinition {
+  type: ValidationRuleType;
+  name: string;
+  description: string;
+  generatorHint: RuleGeneratorHint;
+  defaultWeight: number; // Вес нарушения в оценке графика, если у правила нет своего
+  fields: RuleConfigField[];
+  placeholders: Array<{ name: MessagePlaceholder; label: string }>; // Что заполняет валидатор этого типа
+}
+
 export interface ValidationRule {
   id: number;
   ruleType: ValidationRuleType;
   enabled: boolean;
   config: Record<string, any> | undefined; // JSON object
-  appliesToRoles?: EmployeeRole[];
+  appliesToRoles?: number[]; // Array of role IDs (roles.id)
   appliesToEmployees?: string[]; // Array of employee IDs
   enforcementType?: EnforcementType;
   customMessage?: string;
   priority: number;
+  weightFactor?: number | null; // Свой вес нарушения; null при сохранении возвращает вес типа
   description?: string;
   created_at?: Date;
   updated_at?: Date;
@@ -165,10 +284,11 @@ export interface ValidationRuleInput {
   ruleType: ValidationRuleType;
   enabled: boolean;
   config: Record<string, any>;
-  appliesToRoles?: EmployeeRole[];
+  appliesToRoles?: number[]; // Array of role IDs (roles.id)
   appliesToEmployees?: string[];
   enforcementType?: EnforcementType;
   customMessage?: string;
   priority?: number;
+  weightFactor?: number | null;
   description?: string;
 }